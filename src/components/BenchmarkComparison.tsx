@@ -0,0 +1,141 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Scatter } from 'react-chartjs-2';
+import { formatNumber, formatPercent } from '@/utils/calculationUtils';
+import { BenchmarkResult } from '@/utils/benchmarkUtils';
+
+// Register Chart.js components
+ChartJS.register(
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface BenchmarkComparisonProps {
+  benchmark: BenchmarkResult;
+}
+
+const BenchmarkComparison: React.FC<BenchmarkComparisonProps> = ({ benchmark }) => {
+  const points = benchmark.benchmarkReturns.map((b, i) => ({ x: b * 100, y: benchmark.strategyReturns[i] * 100 }));
+
+  // Least-squares line through the scatter: intercept from the means, slope = beta
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const minX = Math.min(...points.map(p => p.x));
+  const maxX = Math.max(...points.map(p => p.x));
+  const regressionLine = [minX, maxX].map(x => ({ x, y: meanY + benchmark.beta * (x - meanX) }));
+
+  const chartData = {
+    datasets: [
+      {
+        label: 'Periods',
+        data: points,
+        backgroundColor: 'rgba(59, 130, 246, 0.6)',
+        pointRadius: 3,
+      },
+      {
+        label: `Regression (β = ${formatNumber(benchmark.beta, 2)})`,
+        data: regressionLine,
+        showLine: true,
+        borderColor: 'rgb(220, 38, 38)',
+        borderWidth: 1.5,
+        pointRadius: 0,
+      },
+    ],
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: true,
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: { parsed: { x: number; y: number } }) =>
+            `Benchmark: ${context.parsed.x.toFixed(2)}%, Strategy: ${context.parsed.y.toFixed(2)}%`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        title: {
+          display: true,
+          text: 'Benchmark Return (%)',
+        },
+      },
+      y: {
+        title: {
+          display: true,
+          text: 'Strategy Return (%)',
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Metric</TableHead>
+            <TableHead className="text-right">Value</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          <TableRow>
+            <TableCell>Beta</TableCell>
+            <TableCell className="text-right font-medium">{formatNumber(benchmark.beta, 2)}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Jensen's Alpha (annualized)</TableCell>
+            <TableCell className="text-right font-medium">{formatPercent(benchmark.alpha, 2)}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Tracking Error (annualized)</TableCell>
+            <TableCell className="text-right font-medium">{formatPercent(benchmark.trackingError, 2)}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Information Ratio</TableCell>
+            <TableCell className="text-right font-medium">{formatNumber(benchmark.informationRatio, 2)}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Up Capture</TableCell>
+            <TableCell className="text-right font-medium">{formatPercent(benchmark.upCapture, 1)}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Down Capture</TableCell>
+            <TableCell className="text-right font-medium">{formatPercent(benchmark.downCapture, 1)}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Correlation</TableCell>
+            <TableCell className="text-right font-medium">{formatNumber(benchmark.correlation, 2)}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Aligned Observations</TableCell>
+            <TableCell className="text-right font-medium">{benchmark.observations}</TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+
+      <div className="h-[300px] bg-white p-4 rounded-md shadow-subtle">
+        <Scatter data={chartData} options={chartOptions} />
+      </div>
+    </div>
+  );
+};
+
+export default BenchmarkComparison;
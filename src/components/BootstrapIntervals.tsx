@@ -0,0 +1,286 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { toast } from 'sonner';
+import { CalculationParams, formatNumber, formatPercent } from '@/utils/calculationUtils';
+import {
+  BOOTSTRAP_METRICS,
+  BootstrapMethod,
+  BootstrapMetric,
+  BootstrapResult,
+  runBootstrap,
+} from '@/utils/bootstrapUtils';
+
+// Register Chart.js components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+const METRIC_LABELS: Record<BootstrapMetric, string> = {
+  sharpe: 'Sharpe Ratio',
+  sortino: 'Sortino Ratio',
+  mean: 'Mean Return (per period)',
+  volatility: 'Volatility (annualized)',
+  maxDrawdown: 'Max Drawdown',
+};
+
+const METHOD_LABELS: Record<BootstrapMethod, string> = {
+  iid: 'IID',
+  stationary: 'Stationary block',
+  circular: 'Circular block',
+};
+
+const formatMetric = (metric: BootstrapMetric, value: number): string =>
+  metric === 'sharpe' || metric === 'sortino' ? formatNumber(value, 2) : formatPercent(value, 2);
+
+interface BootstrapIntervalsProps {
+  returnValues: number[];
+  params: CalculationParams;
+}
+
+const BootstrapIntervals: React.FC<BootstrapIntervalsProps> = ({ returnValues, params }) => {
+  const [method, setMethod] = useState<BootstrapMethod>('stationary');
+  const [resamples, setResamples] = useState<string>('1000');
+  const [seed, setSeed] = useState<string>('42');
+  const [histogramMetric, setHistogramMetric] = useState<BootstrapMetric>('sharpe');
+  const [bootstrap, setBootstrap] = useState<BootstrapResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleRun = () => {
+    const seedValue = parseInt(seed);
+    if (isNaN(seedValue)) {
+      toast.error('Please enter a whole number seed');
+      return;
+    }
+    setIsRunning(true);
+    // Defer so the spinner renders before the resampling blocks the main thread
+    setTimeout(() => {
+      try {
+        setBootstrap(runBootstrap(returnValues, params, {
+          method,
+          resamples: parseInt(resamples),
+          seed: seedValue,
+        }));
+      } catch (error) {
+        console.error('Error running bootstrap:', error);
+        toast.error('Failed to run the bootstrap.');
+      } finally {
+        setIsRunning(false);
+      }
+    }, 0);
+  };
+
+  // Histogram of the selected metric's bootstrap distribution
+  const prepareHistogramData = (result: BootstrapResult) => {
+    const { distribution, percentile } = result.metrics[histogramMetric];
+    const min = distribution[0];
+    const max = distribution[distribution.length - 1];
+    const binCount = 30;
+    const binWidth = (max - min) / binCount || 1;
+    const counts = Array(binCount).fill(0);
+    distribution.forEach(v => {
+      counts[Math.min(binCount - 1, Math.floor((v - min) / binWidth))]++;
+    });
+    const centers = counts.map((_, i) => min + (i + 0.5) * binWidth);
+    return {
+      labels: centers.map(c => formatMetric(histogramMetric, c)),
+      datasets: [
+        {
+          label: METRIC_LABELS[histogramMetric],
+          data: counts,
+          backgroundColor: centers.map(c =>
+            c >= percentile.lower && c <= percentile.upper ? 'rgba(59, 130, 246, 0.7)' : 'rgba(148, 163, 184, 0.5)'),
+          borderWidth: 0,
+        },
+      ],
+    };
+  };
+
+  const histogramOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: false,
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: { raw: unknown }) => `Count: ${context.raw}`,
+        },
+      },
+    },
+    scales: {
+      y: {
+        beginAtZero: true,
+        title: {
+          display: true,
+          text: 'Resamples',
+        },
+      },
+      x: {
+        title: {
+          display: true,
+          text: METRIC_LABELS[histogramMetric],
+        },
+      },
+    },
+  };
+
+  // Position of a value within the band chart, as a percentage of the combined interval range
+  const bandPosition = (metric: BootstrapMetric, value: number): string => {
+    const { percentile, bca } = bootstrap!.metrics[metric];
+    const lo = Math.min(percentile.lower, bca.lower);
+    const hi = Math.max(percentile.upper, bca.upper);
+    return `${hi > lo ? ((value - lo) / (hi - lo)) * 100 : 50}%`;
+  };
+
+  return (
+    <div className="bg-muted/30 p-4 rounded-md space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <h3 className="text-sm font-medium mr-auto">Bootstrap Confidence Intervals</h3>
+        <div className="space-y-1">
+          <Label htmlFor="bootstrap-method" className="text-xs">Resampling</Label>
+          <Select value={method} onValueChange={(value) => setMethod(value as BootstrapMethod)}>
+            <SelectTrigger id="bootstrap-method" className="w-[160px] h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(METHOD_LABELS) as BootstrapMethod[]).map(key => (
+                <SelectItem key={key} value={key}>{METHOD_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="bootstrap-resamples" className="text-xs">Resamples</Label>
+          <Select value={resamples} onValueChange={setResamples}>
+            <SelectTrigger id="bootstrap-resamples" className="w-[100px] h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {['500', '1000', '2000', '5000'].map(value => (
+                <SelectItem key={value} value={value}>{value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="bootstrap-seed" className="text-xs">Seed</Label>
+          <Input
+            id="bootstrap-seed"
+            type="number"
+            step="1"
+            value={seed}
+            onChange={(e) => setSeed(e.target.value)}
+            className="input-number-clean w-[90px] h-8"
+          />
+        </div>
+        <Button size="sm" onClick={handleRun} disabled={isRunning}>
+          {isRunning ? 'Running...' : 'Run Bootstrap'}
+        </Button>
+      </div>
+
+      {bootstrap && (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Metric</TableHead>
+                <TableHead className="text-right">Estimate</TableHead>
+                <TableHead className="text-right">Percentile {formatPercent(bootstrap.confidence, 0)}</TableHead>
+                <TableHead className="text-right">BCa {formatPercent(bootstrap.confidence, 0)}</TableHead>
+                <TableHead className="w-[30%]">Interval Band</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {BOOTSTRAP_METRICS.map(metric => {
+                const { estimate, percentile, bca } = bootstrap.metrics[metric];
+                return (
+                  <TableRow key={metric}>
+                    <TableCell>{METRIC_LABELS[metric]}</TableCell>
+                    <TableCell className="text-right font-medium">{formatMetric(metric, estimate)}</TableCell>
+                    <TableCell className="text-right">
+                      [{formatMetric(metric, percentile.lower)}, {formatMetric(metric, percentile.upper)}]
+                    </TableCell>
+                    <TableCell className="text-right">
+                      [{formatMetric(metric, bca.lower)}, {formatMetric(metric, bca.upper)}]
+                    </TableCell>
+                    <TableCell>
+                      <div className="relative h-4">
+                        <div
+                          className="absolute top-0 h-2 rounded bg-primary/40"
+                          style={{ left: bandPosition(metric, percentile.lower), right: `calc(100% - ${bandPosition(metric, percentile.upper)})` }}
+                        />
+                        <div
+                          className="absolute bottom-0 h-2 rounded bg-success/50"
+                          style={{ left: bandPosition(metric, bca.lower), right: `calc(100% - ${bandPosition(metric, bca.upper)})` }}
+                        />
+                        <div
+                          className="absolute inset-y-0 w-0.5 bg-foreground"
+                          style={{ left: bandPosition(metric, estimate) }}
+                        />
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          <div className="flex items-center gap-4 text-xs text-muted-foreground">
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-2 rounded bg-primary/40" />
+              <span>Percentile</span>
+            </div>
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-2 rounded bg-success/50" />
+              <span>BCa</span>
+            </div>
+            <span className="ml-auto">
+              {METHOD_LABELS[bootstrap.method]} resampling, {bootstrap.resamples} resamples
+              {bootstrap.method !== 'iid' && `, block length ${bootstrap.blockLength}`}
+            </span>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium">Bootstrap Distribution</h4>
+              <Select value={histogramMetric} onValueChange={(value) => setHistogramMetric(value as BootstrapMetric)}>
+                <SelectTrigger className="w-[200px] h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BOOTSTRAP_METRICS.map(metric => (
+                    <SelectItem key={metric} value={metric}>{METRIC_LABELS[metric]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="h-[250px] bg-white p-4 rounded-md shadow-subtle">
+              <Bar data={prepareHistogramData(bootstrap)} options={histogramOptions} />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BootstrapIntervals;
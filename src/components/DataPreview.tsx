@@ -1,100 +1,669 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { ArrowRight, HelpCircle } from 'lucide-react';
+import { AlertTriangle, ArrowRight, HelpCircle, Upload } from 'lucide-react';
 import { toast } from 'sonner';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { ParsedData, extractValidNumbers, isExcelDate, formatExcelDate } from '@/utils/fileUtils';
-import { CalculationParams } from '@/utils/calculationUtils';
+import {
+  AUTO_LOCALE_SETTING,
+  COLUMN_TYPE_LABELS,
+  ColumnType,
+  DATE_ORDER_LABELS,
+  DateOrder,
+  LocaleSetting,
+  ParsedData,
+  REQUIRED_TRADE_COLUMNS,
+  TRADE_COLUMN_LABELS,
+  TradeColumnMapping,
+  aggregateTradesToDailyPnl,
+  detectDateColumn,
+  detectTradeColumns,
+  isTradeMappingComplete,
+  parseTradeLedger,
+  getFirstRowNumber,
+  getLastFilledRow,
+  rememberSheet,
+  selectSheet,
+  setColumnType,
+  setLocaleSetting,
+  extractReturnsSeries,
+  cleanNumericValue,
+  extractCashFlows,
+  isLevelFormat,
+  parseDateValue,
+  parseFile,
+  pickDefaultColumn,
+  resolveColumnFormat,
+  suggestDataFormat,
+  validateFileType,
+} from '@/utils/fileUtils';
+import { CalculationParams, SharpeReturnBasis } from '@/utils/calculationUtils';
+import {
+  FREQUENCY_LABELS,
+  ReturnsSeries,
+  createReturnsSeries,
+  detectSamplingFrequency,
+  hasTimestamps,
+  isTradingPeriodsMismatch,
+} from '@/utils/seriesUtils';
+import {
+  alignRiskFree,
+  chooseRiskFreeAlignment,
+  looksLikeFractionYields,
+  toPercentYields,
+} from '@/utils/riskFreeUtils';
+import { alignBenchmark, chooseBenchmarkAlignment } from '@/utils/benchmarkUtils';
+import { calculateTimeWeightedReturns } from '@/utils/cashFlowUtils';
+import {
+  RESAMPLE_LABELS,
+  RESAMPLE_PERIODS_PER_YEAR,
+  ResampleFrequency,
+  resampleSeries,
+} from '@/utils/resampleUtils';
+import {
+  DEFAULT_QUALITY_OPTIONS,
+  QUALITY_ISSUE_LABELS,
+  QUALITY_TREATMENT_LABELS,
+  QualityIssueKind,
+  QualityTreatment,
+  applyQualityTreatment,
+  assessDataQuality,
+  findDroppedRows,
+  isSimpleReturnsFormat,
+  keepSourceRows,
+} from '@/utils/dataQualityUtils';
+import { BatchRow, BatchSkip, findNumericColumns, runBatchAnalysis } from '@/utils/batchUtils';
+
+// Headers that usually hold a risk-free yield
+const RISK_FREE_HEADER = /risk.?free|\brf\b|t.?bill|yield|rate/i;
 
 interface DataPreviewProps {
   data: ParsedData;
-  onProceed: (values: number[], params: CalculationParams, dataFormat: string) => void;
+  onProceed: (series: ReturnsSeries, params: CalculationParams, dataFormat: string, benchmarkValues?: number[]) => void;
   onReset: () => void;
+  onDataChange: (data: ParsedData) => void;
+  onProceedBatch: (rows: BatchRow[], skipped: BatchSkip[]) => void;
 }
 
-const DataPreview: React.FC<DataPreviewProps> = ({ data, onProceed, onReset }) => {
+const DataPreview: React.FC<DataPreviewProps> = ({ data, onProceed, onReset, onDataChange, onProceedBatch }) => {
   const [selectedColumn, setSelectedColumn] = useState<string>('');
   const [columnIndex, setColumnIndex] = useState<number>(-1);
   const [riskFreeRate, setRiskFreeRate] = useState<string>('0');
   const [tradingPeriods, setTradingPeriods] = useState<string>('252');
   const [targetReturn, setTargetReturn] = useState<string>('');
   const [portfolioValue, setPortfolioValue] = useState<string>('1000000');
+  const [benchmarkSharpe, setBenchmarkSharpe] = useState<string>('0');
+  const [numberOfTrials, setNumberOfTrials] = useState<string>('1');
   const [isLoading, setIsLoading] = useState(false);
   const [dataFormat, setDataFormat] = useState<string>('absolute');
+  const [levelMethod, setLevelMethod] = useState<'simple' | 'log'>('simple');
+  const [startingEquity, setStartingEquity] = useState<string>('');
+  const [sharpeReturns, setSharpeReturns] = useState<SharpeReturnBasis>('simple');
+  const [benchmarkSource, setBenchmarkSource] = useState<string>('none');
+  const [benchmarkColumn, setBenchmarkColumn] = useState<string>('');
+  const [benchmarkFile, setBenchmarkFile] = useState<ParsedData | null>(null);
+  const [benchmarkFileName, setBenchmarkFileName] = useState<string>('');
+  const benchmarkInputRef = React.useRef<HTMLInputElement>(null);
+  const [riskFreeSource, setRiskFreeSource] = useState<string>('constant');
+  const [riskFreeColumn, setRiskFreeColumn] = useState<string>('');
+  const [riskFreeFile, setRiskFreeFile] = useState<ParsedData | null>(null);
+  const [riskFreeFileName, setRiskFreeFileName] = useState<string>('');
+  const riskFreeInputRef = React.useRef<HTMLInputElement>(null);
+  // A file whose headers map to a full trade ledger opens in ledger mode
+  const [tradeMapping, setTradeMapping] = useState<TradeColumnMapping>(() => detectTradeColumns(data.headers));
+  const [importMode, setImportMode] = useState<'returns' | 'ledger'>(
+    () => isTradeMappingComplete(detectTradeColumns(data.headers)) ? 'ledger' : 'returns'
+  );
+  const isLedger = importMode === 'ledger';
+  // Rows of the sheet in use, as 1-based spreadsheet rows
+  const firstRowNumber = getFirstRowNumber(data);
+  const dataRowNumbers = useMemo(() => data.rows.map((_, i) => i + firstRowNumber), [data.rows, firstRowNumber]);
+  const lastFilledRow = useMemo(() => getLastFilledRow(data.originalData as unknown[][]), [data.originalData]);
+  const [headerRowInput, setHeaderRowInput] = useState<string>(String(firstRowNumber - 1));
+  const [lastRowInput, setLastRowInput] = useState<string>(String(firstRowNumber + data.rows.length - 1));
+  const [cashFlowColumn, setCashFlowColumn] = useState<string>('none');
+  // Cash flows are per PnL row, so they do not apply to trades aggregated by day
+  const cashFlowIndex = isLedger ? -1 : data.headers.findIndex(h => h === cashFlowColumn);
+  const [dateColumn, setDateColumn] = useState<string>(() => {
+    const index = detectDateColumn(data);
+    return index === -1 ? 'none' : data.headers[index];
+  });
+  const dateColumnIndex = data.headers.findIndex(h => h === dateColumn);
+  // Ledger PnL is dated by the exit time
+  const timeColumnIndex = isLedger ? tradeMapping.exitTime : dateColumnIndex;
+  const localeSetting = data.localeSetting ?? AUTO_LOCALE_SETTING;
+  const selectedLocale = columnIndex !== -1 ? data.columnLocales?.[columnIndex] : undefined;
+
+  // Sampling frequency of the date column, used to suggest the annualization factor
+  const frequency = useMemo(
+    () => timeColumnIndex === -1
+      ? null
+      : detectSamplingFrequency(data.rows.map(row => parseDateValue(row[timeColumnIndex]))),
+    [data.rows, timeColumnIndex]
+  );
+  const [resampleFrequency, setResampleFrequency] = useState<ResampleFrequency>('none');
+  const [qualityTreatment, setQualityTreatment] = useState<QualityTreatment>('keep');
+  const [madThreshold, setMadThreshold] = useState<string>(String(DEFAULT_QUALITY_OPTIONS.madThreshold));
+  const madMultiple = parseFloat(madThreshold) > 0 ? parseFloat(madThreshold) : DEFAULT_QUALITY_OPTIONS.madThreshold;
+
+  // Data-quality checks on the analyzed column as it will be extracted, with the rows it drops
+  const quality = useMemo(() => {
+    if (isLedger || columnIndex === -1) return null;
+    const { series, detectedFormat } = extractReturnsSeries(
+      data.rows, columnIndex, resolveColumnFormat(data.columnTypes?.[columnIndex], dataFormat), dateColumnIndex,
+      dataRowNumbers, { method: levelMethod }
+    );
+    return assessDataQuality(series, findDroppedRows(data.rows, columnIndex, dataRowNumbers), {
+      ...DEFAULT_QUALITY_OPTIONS,
+      madThreshold: madMultiple,
+      isReturns: isSimpleReturnsFormat(detectedFormat, levelMethod, series.values),
+    });
+  }, [data.rows, data.columnTypes, isLedger, columnIndex, dataFormat, dateColumnIndex, dataRowNumbers, levelMethod, madMultiple]);
+  // Batch mode analyzes every numeric column except the date column with the same parameters
+  const [analyzeAll, setAnalyzeAll] = useState(false);
+  const isBatch = analyzeAll && !isLedger;
+  const numericColumns = useMemo(() => findNumericColumns(data, [dateColumnIndex]), [data, dateColumnIndex]);
+  const qualityKinds = quality
+    ? (Object.keys(QUALITY_ISSUE_LABELS) as QualityIssueKind[]).filter(kind => quality.issues.some(issue => issue.kind === kind))
+    : [];
+
+  // Resampling fixes the annualization factor; otherwise it follows the detected frequency
+  const suggestedPeriods = resampleFrequency !== 'none'
+    ? RESAMPLE_PERIODS_PER_YEAR[resampleFrequency]
+    : frequency?.periodsPerYear ?? null;
+  const frequencyLabel = resampleFrequency !== 'none'
+    ? `${RESAMPLE_LABELS[resampleFrequency].toLowerCase()} (resampled)`
+    : frequency ? FREQUENCY_LABELS[frequency.frequency] : '';
+  const periodsMismatch = isTradingPeriodsMismatch(parseInt(tradingPeriods), suggestedPeriods);
+
+  // Handle date column selection; resampling is only possible with dates
+  const handleDateColumnChange = (value: string) => {
+    setDateColumn(value);
+    setResampleFrequency('none');
+  };
+
+  // Handle resampling selection: adjust the annualization factor to match
+  const handleResampleChange = (value: string) => {
+    const resample = value as ResampleFrequency;
+    setResampleFrequency(resample);
+    if (resample !== 'none') {
+      setTradingPeriods(String(RESAMPLE_PERIODS_PER_YEAR[resample]));
+    } else if (frequency?.periodsPerYear) {
+      setTradingPeriods(String(frequency.periodsPerYear));
+    }
+  };
+
+  // Only coarser frequencies than the data's own can be resampled to
+  const canResampleTo = (resample: Exclude<ResampleFrequency, 'none'>) =>
+    !frequency?.periodsPerYear || RESAMPLE_PERIODS_PER_YEAR[resample] < frequency.periodsPerYear;
+
+  // Headers available for the benchmark column, from this file or the uploaded benchmark file
+  const benchmarkHeaders = benchmarkSource === 'file' ? benchmarkFile?.headers ?? [] : data.headers;
+
+  // Headers available for the risk-free column, from this file or the uploaded T-bill file
+  const riskFreeHeaders = riskFreeSource === 'file' ? riskFreeFile?.headers ?? [] : data.headers;
+
+  // Switching to a ledger drops options that pair rows of this file with the PnL rows
+  const handleImportModeChange = (value: string) => {
+    const mode = value as 'returns' | 'ledger';
+    setImportMode(mode);
+    setResampleFrequency('none');
+    if (mode === 'ledger') {
+      if (benchmarkSource === 'column') setBenchmarkSource('none');
+      if (riskFreeSource === 'column') handleRiskFreeSourceChange('constant');
+    }
+  };
+
+  // Handle ledger column mapping
+  const handleTradeColumnChange = (key: keyof TradeColumnMapping, value: string) => {
+    setTradeMapping(mapping => ({ ...mapping, [key]: value === 'none' ? -1 : data.headers.findIndex(h => h === value) }));
+    if (key === 'exitTime') setResampleFrequency('none');
+  };
+
+  // Switch to another sheet of the workbook and remember it for workbooks with the same sheets
+  const handleSheetChange = (sheetName: string) => {
+    if (!data.sheets) return;
+    rememberSheet(data.sheets, sheetName);
+    onDataChange(selectSheet(data, sheetName));
+  };
+
+  // Re-read the sheet with another header row or last data row; rows outside the range are left out
+  const handleRowRangeChange = (headerRow: number, lastDataRow: number) => {
+    if (!data.sheets || !data.sheetName) return;
+    if (isNaN(headerRow) || isNaN(lastDataRow) || headerRow < 1 || lastDataRow <= headerRow) {
+      toast.error('The last data row must come after the header row');
+      return;
+    }
+    onDataChange(selectSheet(data, data.sheetName, { headerRow: headerRow - 1, lastDataRow: lastDataRow - 1 }));
+  };
+
+  // The footer toggle leaves out the last row with values, or brings it back
+  const lastRowIsFooter = (data.rowRange?.lastDataRow ?? lastFilledRow) < lastFilledRow;
+  const handleFooterToggle = (checked: boolean) => {
+    handleRowRangeChange(firstRowNumber - 1, checked ? lastFilledRow : lastFilledRow + 1);
+  };
 
   // Handle column selection
   const handleColumnSelect = (value: string) => {
     const index = data.headers.findIndex(h => h === value);
     setSelectedColumn(value);
     setColumnIndex(index);
+    // Percent and currency columns suggest their data format
+    const suggested = suggestDataFormat(data.columnTypes?.[index]);
+    if (suggested) setDataFormat(suggested);
+  };
+
+  // A batch mixes PnL and return columns, so it starts from per-column detection rather than one shared format
+  const handleAnalyzeAllChange = (checked: boolean) => {
+    setAnalyzeAll(checked);
+    setDataFormat(checked ? 'auto' : suggestDataFormat(data.columnTypes?.[columnIndex]) ?? dataFormat);
+  };
+
+  // Re-read a column as another type; a column turned into dates becomes the date column if none is set
+  const handleColumnTypeChange = (index: number, type: ColumnType) => {
+    onDataChange(setColumnType(data, index, type));
+    if (type === 'date' && dateColumnIndex === -1) {
+      setDateColumn(data.headers[index]);
+    } else if (type !== 'date' && index === dateColumnIndex) {
+      handleDateColumnChange('none');
+    }
+  };
+
+  // Re-read the sheet with another number and date spelling; a date column that no longer holds dates is cleared
+  const handleLocaleChange = (change: Partial<LocaleSetting>) => {
+    const updated = setLocaleSetting(data, { ...localeSetting, ...change });
+    onDataChange(updated);
+    if (dateColumnIndex !== -1 && updated.columnTypes?.[dateColumnIndex] !== 'date') {
+      handleDateColumnChange('none');
+    }
+  };
+
+  // Handle benchmark file upload
+  const handleBenchmarkFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (!validateFileType(file)) {
+      toast.error('Unsupported file type. Please upload CSV, Excel, or TSV file.');
+      return;
+    }
+    const parsed = await parseFile(file);
+    if (parsed) {
+      setBenchmarkFile(parsed);
+      setBenchmarkFileName(file.name);
+      setBenchmarkColumn(parsed.headers.find(h => h.toLowerCase().includes('return')) ?? parsed.headers[0] ?? '');
+    }
+  };
+
+  // Handle risk-free file upload, pre-selecting a column that looks like a yield
+  const handleRiskFreeFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (!validateFileType(file)) {
+      toast.error('Unsupported file type. Please upload CSV, Excel, or TSV file.');
+      return;
+    }
+    const parsed = await parseFile(file);
+    if (parsed) {
+      setRiskFreeFile(parsed);
+      setRiskFreeFileName(file.name);
+      setRiskFreeColumn(parsed.headers.find(h => RISK_FREE_HEADER.test(h)) ?? parsed.headers[parsed.headers.length - 1] ?? '');
+    }
+  };
+
+  // Switching to a column in this file pre-selects one that looks like a yield
+  const handleRiskFreeSourceChange = (value: string) => {
+    setRiskFreeSource(value);
+    setRiskFreeColumn(value === 'column' ? data.headers.find(h => RISK_FREE_HEADER.test(h)) ?? '' : '');
+  };
+
+  // Annual risk-free yields (%) aligned with the final, possibly resampled, returns
+  const extractRiskFree = (series: ReturnsSeries): number[] | null => {
+    const riskFreeData = riskFreeSource === 'file' ? riskFreeFile : data;
+    const riskFreeIndex = riskFreeHeaders.findIndex(h => h === riskFreeColumn);
+    if (!riskFreeData || riskFreeIndex === -1) {
+      toast.error('Please select a risk-free column');
+      return null;
+    }
+
+    const sameFile = riskFreeSource === 'column';
+    const { series: extracted } = sameFile
+      ? extractReturnsSeries(data.rows, riskFreeIndex, 'decimal', dateColumnIndex, dataRowNumbers)
+      : extractReturnsSeries(riskFreeData.rows, riskFreeIndex, 'decimal', detectDateColumn(riskFreeData));
+    if (extracted.values.length === 0) {
+      toast.error('The risk-free column has no numeric values');
+      return null;
+    }
+    const yields = toPercentYields(extracted, riskFreeData.columnTypes?.[riskFreeIndex]);
+    if (looksLikeFractionYields(yields.values)) {
+      toast.warning(`Every risk-free yield in "${riskFreeColumn}" is below 1%; if they are fractions (0.05 = 5%), set the column type to Percent`);
+    }
+
+    const alignment = chooseRiskFreeAlignment(series, yields, sameFile);
+    if (alignment === 'tail') {
+      toast.info('The risk-free series has no dates; aligned on the most recent observations');
+    }
+    return alignRiskFree(series, yields, alignment);
+  };
+
+  // Extract benchmark returns; for a column in this file, only rows where both columns are numeric are kept
+  const extractBenchmark = (format: string): { rows: (string | number)[][], rowNumbers: number[], benchmark: ReturnsSeries } | null => {
+    const benchmarkData = benchmarkSource === 'file' ? benchmarkFile : data;
+    const benchmarkIndex = benchmarkHeaders.findIndex(h => h === benchmarkColumn);
+    if (!benchmarkData || benchmarkIndex === -1) {
+      toast.error('Please select a benchmark column');
+      return null;
+    }
+
+    const shared = data.rows
+      .map((row, i) => ({ row, rowNumber: dataRowNumbers[i] }))
+      .filter(({ row }) => benchmarkSource !== 'column'
+        || (cleanNumericValue(row[columnIndex]) !== null && cleanNumericValue(row[benchmarkIndex]) !== null));
+    const rows = shared.map(entry => entry.row);
+    // Benchmarks are index returns: follow the strategy's return format, or auto-detect for PnL data
+    const benchmarkFormat = resolveColumnFormat(
+      benchmarkData.columnTypes?.[benchmarkIndex],
+      format === 'percent' || format === 'decimal' || format === 'log' ? format : 'auto'
+    );
+    const rowNumbers = shared.map(entry => entry.rowNumber);
+    const { series: benchmark, detectedFormat } = benchmarkSource === 'column'
+      ? extractReturnsSeries(rows, benchmarkIndex, benchmarkFormat, dateColumnIndex, rowNumbers)
+      : extractReturnsSeries(benchmarkData.rows, benchmarkIndex, benchmarkFormat, detectDateColumn(benchmarkData));
+    if (detectedFormat === 'absolute') {
+      toast.error('The benchmark must contain percentage or decimal returns');
+      return null;
+    }
+    // The engine takes simple benchmark returns
+    if (detectedFormat === 'log') {
+      return {
+        rows,
+        rowNumbers,
+        benchmark: createReturnsSeries(benchmark.values.map(r => Math.expm1(r)), benchmark.timestamps, benchmark.sourceRows),
+      };
+    }
+    return { rows, rowNumbers, benchmark };
   };
 
   // Handle form submission
   const handleSubmit = () => {
-    if (columnIndex === -1) {
+    if (!isLedger && columnIndex === -1) {
       toast.error('Please select a column to analyze');
       return;
     }
 
+    if (isLedger && !isTradeMappingComplete(tradeMapping)) {
+      toast.error('Please map the exit time, quantity, entry price and exit price columns');
+      return;
+    }
+
     const riskFree = parseFloat(riskFreeRate);
     const periods = parseInt(tradingPeriods);
     const target = targetReturn ? parseFloat(targetReturn) : undefined;
-    const portfolio = parseFloat(portfolioValue) || 1000000; // Default to 1M if not provided
+    // Default to 1M if not provided; with cash flows it is the starting capital, which may be zero
+    const portfolio = cashFlowIndex !== -1 ? parseFloat(portfolioValue) || 0 : parseFloat(portfolioValue) || 1000000;
+    const startEquity = startingEquity ? parseFloat(startingEquity) : undefined;
+    const psrBenchmark = benchmarkSharpe ? parseFloat(benchmarkSharpe) : 0;
+    const trials = numberOfTrials ? parseInt(numberOfTrials) : 1;
 
-    if (isNaN(riskFree) || isNaN(periods) || (targetReturn && isNaN(target)) || isNaN(portfolio)) {
+    if (isNaN(riskFree) || isNaN(periods) || (targetReturn && isNaN(target)) || isNaN(portfolio)
+      || isNaN(psrBenchmark) || isNaN(trials) || (startingEquity && isNaN(startEquity))) {
       toast.error('Please enter valid numbers for all fields');
       return;
     }
 
+    if (trials < 1) {
+      toast.error('Number of trials must be at least 1');
+      return;
+    }
+
     if (periods <= 0) {
       toast.error('Trading periods must be greater than zero');
       return;
     }
 
+    if (periodsMismatch) {
+      toast.warning(`Trading periods (${periods}) do not match the ${frequencyLabel} data; ${suggestedPeriods} is expected`);
+    }
+
+    if (isBatch) {
+      handleBatchSubmit({
+        riskFreeRate: riskFree,
+        tradingPeriods: resampleFrequency !== 'none' ? RESAMPLE_PERIODS_PER_YEAR[resampleFrequency] : periods,
+        targetReturn: target,
+        portfolioValue: parseFloat(portfolioValue) || 1000000,
+        benchmarkSharpe: psrBenchmark,
+        numberOfTrials: trials,
+        resampleFrequency,
+        sharpeReturns,
+      });
+      return;
+    }
+
     setIsLoading(true);
 
     try {
-      // Extract numeric data and detected format
-      const { values: numericValues, detectedFormat } = extractValidNumbers(
-        data.rows,
-        columnIndex,
-        dataFormat
-      );
+      // A percent column already holds fractions, whatever format is chosen
+      const columnFormat = resolveColumnFormat(data.columnTypes?.[columnIndex], dataFormat);
+      // Restrict to rows shared with a same-file benchmark so both series stay aligned
+      const benchmarkExtract = benchmarkSource !== 'none' ? extractBenchmark(isLedger ? 'absolute' : columnFormat) : undefined;
+      if (benchmarkExtract === null) {
+        setIsLoading(false);
+        return;
+      }
+
+      // A trade ledger becomes daily realized PnL (absolute)
+      const ledger = isLedger ? parseTradeLedger(data.rows, tradeMapping, firstRowNumber) : undefined;
+      if (ledger && ledger.trades.length === 0) {
+        toast.error('No trades with an exit date, quantity and prices were found');
+        setIsLoading(false);
+        return;
+      }
+      if (ledger && ledger.skippedRows.length > 0) {
+        toast.warning(`Skipped ${ledger.skippedRows.length} ledger rows without an exit date, quantity or price (first: row ${ledger.skippedRows[0]})`);
+      }
+      const format = ledger ? 'absolute' : columnFormat;
+
+      // Extract numeric data with dates and source rows, and the detected format
+      const { series: extractedSeries, detectedFormat, rowOrder } = ledger
+        ? { series: aggregateTradesToDailyPnl(ledger.trades), detectedFormat: 'absolute', rowOrder: 'chronological' }
+        : extractReturnsSeries(
+          benchmarkExtract ? benchmarkExtract.rows : data.rows,
+          columnIndex,
+          format,
+          dateColumnIndex,
+          benchmarkExtract?.rowNumbers ?? dataRowNumbers,
+          { method: levelMethod, startingValue: dataFormat === 'equity' ? startEquity : undefined }
+        );
+
+      // Newest-first rows are put in date order; without a date on every row they cannot be
+      if (rowOrder === 'sorted') {
+        toast.info(`Rows in "${selectedColumn}" are not in date order; sorted oldest first before analysis`);
+      } else if (rowOrder === 'descending') {
+        toast.warning(`Rows in "${selectedColumn}" appear to run newest first, but some have no readable date to sort by; returns and drawdowns assume oldest first`);
+      }
+
+      // Flagged rows are excluded or winsorized as chosen in the data-quality report
+      const isReturns = isSimpleReturnsFormat(detectedFormat, levelMethod, extractedSeries.values);
+      const qualityReport = !ledger && qualityTreatment !== 'keep'
+        ? assessDataQuality(extractedSeries, [], { ...DEFAULT_QUALITY_OPTIONS, madThreshold: madMultiple, isReturns })
+        : undefined;
+      const extracted = qualityReport
+        ? applyQualityTreatment(extractedSeries, qualityReport, qualityTreatment, isReturns)
+        : extractedSeries;
+      if (qualityReport && qualityReport.flaggedIndexes.length > 0) {
+        const changed = extracted.values.filter((value, i) => value !== extractedSeries.values[i]).length;
+        toast.info(qualityTreatment === 'exclude'
+          ? `Excluded ${qualityReport.flaggedIndexes.length} flagged rows`
+          : `Winsorized ${changed} values to the outlier bounds`);
+      }
+      const numericValues = extracted.values;
+
+      // Returns derived from price or equity levels are simple (decimal) or log returns
+      const sourceFormat = isLevelFormat(detectedFormat) ? detectedFormat : undefined;
+      if (sourceFormat && dataFormat === 'auto') {
+        toast.info(`Values look like price levels; using ${numericValues.length} ${levelMethod} returns between consecutive rows`);
+      }
       
       // Force to 'absolute' format when any value > $1,000, regardless of initial selection
-      let effectiveFormat = dataFormat === 'auto' ? detectedFormat : dataFormat;
-      if (Math.max(...numericValues.map(Math.abs)) > 1000) {
+      let effectiveFormat = sourceFormat
+        ? (levelMethod === 'log' ? 'log' : 'decimal')
+        : format === 'auto' ? detectedFormat : format;
+      if (!sourceFormat && Math.max(...numericValues.map(Math.abs)) > 1000) {
         console.log('Large values detected (>$1,000) - forcing absolute format');
         effectiveFormat = 'absolute';
       }
 
+      // Deposits and withdrawals only apply to absolute PnL, where they set the capital each return is measured on
+      const useCashFlows = cashFlowIndex !== -1 && effectiveFormat === 'absolute';
+      if (cashFlowIndex !== -1 && !useCashFlows) {
+        toast.warning('Cash flows are only used with absolute PnL; the cash-flow column was ignored');
+      }
+      let cashFlows = useCashFlows ? extractCashFlows(data.rows, cashFlowIndex, extracted.sourceRows, firstRowNumber) : undefined;
+
       // Validate portfolio value for absolute returns
-      if (effectiveFormat === 'absolute' && portfolio <= 0) {
+      if (effectiveFormat === 'absolute' && (useCashFlows ? portfolio < 0 : portfolio <= 0)) {
         toast.error('Portfolio value is required and must be greater than zero for absolute returns');
         setIsLoading(false);
         return;
       }
 
-      if (numericValues.length < 10) {
-        toast.error('Not enough valid numeric data points (minimum 10 required)');
+      // Aggregate to calendar periods before analysis (compounding returns, summing PnL)
+      let series = extracted;
+      // A same-file benchmark loses the rows excluded from the analyzed column
+      let benchmark = benchmarkExtract && benchmarkSource === 'column' && qualityTreatment === 'exclude'
+        ? keepSourceRows(benchmarkExtract.benchmark, extracted.sourceRows)
+        : benchmarkExtract?.benchmark;
+      if (resampleFrequency !== 'none') {
+        if (!hasTimestamps(series)) {
+          toast.error('Resampling needs a readable date in every row');
+          setIsLoading(false);
+          return;
+        }
+        if (benchmark && !hasTimestamps(benchmark)) {
+          toast.error('The benchmark needs a date column to be resampled');
+          setIsLoading(false);
+          return;
+        }
+        series = resampleSeries(series, resampleFrequency, effectiveFormat);
+        cashFlows = cashFlows
+          ? resampleSeries(createReturnsSeries(cashFlows, extracted.timestamps, extracted.sourceRows), resampleFrequency, 'absolute').values
+          : undefined;
+        benchmark = benchmark ? resampleSeries(benchmark, resampleFrequency, 'decimal') : undefined;
+        toast.info(`Resampled ${extracted.values.length} rows into ${series.values.length} ${RESAMPLE_LABELS[resampleFrequency].toLowerCase()} periods`);
+      }
+
+      if (series.values.length < 10) {
+        toast.error(resampleFrequency !== 'none'
+          ? 'Not enough periods after resampling (minimum 10 required)'
+          : 'Not enough valid numeric data points (minimum 10 required)');
+        setIsLoading(false);
+        return;
+      }
+
+      if (cashFlows) {
+        try {
+          calculateTimeWeightedReturns(series.values, cashFlows, portfolio);
+        } catch (error) {
+          toast.error((error as Error).message);
+          setIsLoading(false);
+          return;
+        }
+      }
+
+      const riskFreeRates = riskFreeSource !== 'constant' ? extractRiskFree(series) : undefined;
+      if (riskFreeRates === null) {
         setIsLoading(false);
         return;
       }
 
       const params: CalculationParams = {
-        riskFreeRate: riskFree,
-        tradingPeriods: periods,
+        // With a time-varying series, its average yield stands in wherever a single rate is needed
+        riskFreeRate: riskFreeRates ? riskFreeRates.reduce((sum, rate) => sum + rate, 0) / riskFreeRates.length : riskFree,
+        tradingPeriods: resampleFrequency !== 'none' ? RESAMPLE_PERIODS_PER_YEAR[resampleFrequency] : periods,
         targetReturn: target,
         dataFormat: effectiveFormat, // Use effective format
-        portfolioValue: portfolio // Always include portfolio value
+        portfolioValue: portfolio, // Always include portfolio value
+        benchmarkSharpe: psrBenchmark,
+        numberOfTrials: trials,
+        resampleFrequency,
+        sourceFormat,
+        sharpeReturns,
+        riskFreeRates,
+        cashFlows,
+        trades: ledger?.trades
       };
 
-      onProceed(numericValues, params, effectiveFormat);
+      // A benchmark from another file is matched on dates; a same-file column is already on the same rows
+      let benchmarkValues = benchmark?.values;
+      if (benchmark && benchmarkSource === 'file') {
+        const alignment = chooseBenchmarkAlignment(series, benchmark);
+        const aligned = alignBenchmark(series, benchmark, alignment, resampleFrequency);
+        const paired = series.values.length - aligned.unmatched;
+        if (paired < 2) {
+          toast.error(alignment === 'date'
+            ? 'The benchmark shares fewer than two dates with the returns'
+            : 'The benchmark has fewer than two observations');
+          setIsLoading(false);
+          return;
+        }
+        if (alignment === 'tail') {
+          toast.info(`The benchmark or returns have no dates; aligned on the most recent ${paired} observations`);
+        } else if (aligned.unmatched > 0 || aligned.unused > 0) {
+          toast.warning(`Benchmark matched on ${paired} dates; dropped ${aligned.unmatched} return rows without a benchmark date and ${aligned.unused} benchmark rows without a return`);
+        }
+        benchmarkValues = aligned.values;
+      } else if (benchmark && benchmark.values.length !== series.values.length) {
+        toast.info(`Benchmark aligned on the most recent ${Math.min(benchmark.values.length, series.values.length)} observations`);
+      }
+
+      if (ledger) {
+        toast.info(`Aggregated ${ledger.trades.length} trades into ${extracted.values.length} days of PnL`);
+      }
+
+      if (!ledger && dateColumnIndex !== -1 && series.timestamps.some(t => t === null)) {
+        toast.warning(`Some rows have no readable date in "${dateColumn}"; results will use period numbers`);
+      }
+
+      onProceed(series, params, effectiveFormat, benchmarkValues);
+    } catch (error) {
+      console.error('Error processing data:', error);
+      toast.error('Failed to process data. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Analyze every numeric column with the shared parameters; options that pair one column with other data are skipped
+  const handleBatchSubmit = (params: CalculationParams) => {
+    if (numericColumns.length === 0) {
+      toast.error('No numeric columns to analyze');
+      return;
+    }
+    if (benchmarkSource !== 'none' || riskFreeSource !== 'constant' || cashFlowIndex !== -1) {
+      toast.info('Benchmarks, risk-free series and cash flows only apply to a single column; the batch uses the constant risk-free rate');
+    }
+    setIsLoading(true);
+    try {
+      const { rows, skipped } = runBatchAnalysis(data, numericColumns, params, {
+        dataFormat,
+        levelMethod,
+        dateColumnIndex,
+        rowNumbers: dataRowNumbers,
+        resampleFrequency,
+        qualityTreatment,
+        madThreshold: madMultiple,
+      });
+      if (rows.length === 0) {
+        toast.error(`None of the ${numericColumns.length} numeric columns could be analyzed (${skipped[0]?.reason})`);
+        return;
+      }
+      if (skipped.length > 0) {
+        toast.warning(`Skipped ${skipped.length} of ${numericColumns.length} columns; see the list below the league table`);
+      }
+      onProceedBatch(rows, skipped);
     } catch (error) {
       console.error('Error processing data:', error);
       toast.error('Failed to process data. Please try again.');
@@ -103,26 +672,23 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data, onProceed, onReset }) =
     }
   };
 
-  // Determine the best column to pre-select (often column with numeric data)
+  // Determine the best column to pre-select (often column with numeric data), with the format its type suggests
   React.useEffect(() => {
     if (data.headers.length > 0) {
-      // Try to find columns with names like "return", "pnl", "value"
-      const commonNames = ['return', 'pnl', 'value', 'profit', 'loss'];
-      const bestMatch = data.headers.findIndex(header => 
-        commonNames.some(name => header.toLowerCase().includes(name))
-      );
-      
-      if (bestMatch !== -1) {
-        setSelectedColumn(data.headers[bestMatch]);
-        setColumnIndex(bestMatch);
-      } else {
-        // Otherwise just select the first column
-        setSelectedColumn(data.headers[0]);
-        setColumnIndex(0);
-      }
+      const index = pickDefaultColumn(data.headers);
+      setSelectedColumn(data.headers[index]);
+      setColumnIndex(index);
+      const suggested = suggestDataFormat(data.columnTypes?.[index]);
+      if (suggested) setDataFormat(suggested);
     }
+    // Only a new set of headers re-picks the column; type overrides keep the user's choice
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [data.headers]);
 
+  // Columns highlighted in the preview: the analyzed column, or every mapped ledger column
+  const isHighlighted = (index: number) =>
+    isLedger ? Object.values(tradeMapping).includes(index) : index === columnIndex;
+
   // Helper to get a preview of the table with limited rows
   const getPreviewRows = () => {
     return data.rows.slice(0, 5);
@@ -139,6 +705,30 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data, onProceed, onReset }) =
         </CardHeader>
         
         <CardContent className="space-y-6">
+          {/* Sheet Picker - Only for workbooks with several sheets */}
+          {data.sheets && data.sheets.length > 1 && (
+            <div className="flex flex-wrap items-center gap-3">
+              <Label htmlFor="sheet-select">Sheet</Label>
+              <Select value={data.sheetName} onValueChange={handleSheetChange}>
+                <SelectTrigger id="sheet-select" className="w-[260px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectGroup>
+                    {data.sheets.map(sheet => (
+                      <SelectItem key={sheet.name} value={sheet.name}>
+                        {sheet.name} ({sheet.rows.length} rows)
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">
+                {data.sheets.length} sheets in this workbook; the choice is remembered for workbooks with the same sheets.
+              </span>
+            </div>
+          )}
+
           {/* Table Preview */}
           <div className="rounded-md border overflow-hidden">
             <Table>
@@ -148,9 +738,28 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data, onProceed, onReset }) =
                   {data.headers.map((header, index) => (
                     <TableHead 
                       key={index}
-                      className={index === columnIndex ? 'bg-primary/10 text-primary font-medium' : ''}
+                      className={`h-auto py-2 align-top ${isHighlighted(index) ? 'bg-primary/10 text-primary font-medium' : ''}`}
                     >
-                      {header || `Column ${index + 1}`}
+                      <div className="space-y-1">
+                        <div>{header || `Column ${index + 1}`}</div>
+                        {data.columnTypes && (
+                          <Select
+                            value={data.columnTypes[index]}
+                            onValueChange={(value) => handleColumnTypeChange(index, value as ColumnType)}
+                          >
+                            <SelectTrigger className="h-7 w-[120px] text-xs font-normal" aria-label={`Type of ${header || `column ${index + 1}`}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(COLUMN_TYPE_LABELS) as ColumnType[]).map(type => (
+                                <SelectItem key={type} value={type}>
+                                  {COLUMN_TYPE_LABELS[type]}{data.inferredTypes?.[index] === type ? ' (detected)' : ''}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </div>
                     </TableHead>
                   ))}
                 </TableRow>
@@ -159,16 +768,14 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data, onProceed, onReset }) =
                 {getPreviewRows().map((row, rowIndex) => (
                   <TableRow key={rowIndex}>
                     <TableCell className="bg-muted/20 font-mono text-xs">
-                      {rowIndex + 1}
+                      {rowIndex + firstRowNumber}
                     </TableCell>
                     {row.map((cell, cellIndex) => (
                       <TableCell 
                         key={cellIndex}
-                        className={cellIndex === columnIndex ? 'bg-primary/5 font-medium' : ''}
+                        className={isHighlighted(cellIndex) ? 'bg-primary/5 font-medium' : ''}
                       >
-                        {typeof cell === 'number' && isExcelDate(cell)
-                          ? formatExcelDate(cell) // Fallback for unconverted dates
-                          : String(cell)}
+                        {String(cell)}
                       </TableCell>
                     ))}
                   </TableRow>
@@ -179,137 +786,632 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data, onProceed, onReset }) =
           
           <div className="text-xs text-muted-foreground text-center">
             Showing first 5 rows of {data.rows.length} total rows
+            {data.rowRange && ` (spreadsheet rows ${firstRowNumber}–${firstRowNumber + data.rows.length - 1})`}
+            {data.columnTypes && '. Column types come from cell formats, headers and values; change one to re-read its cells.'}
           </div>
 
+          {/* Row Range - header row and last data row of the sheet */}
+          {data.sheets && data.rowRange && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Label>Rows Used</Label>
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <HelpCircle className="h-4 w-4 text-muted-foreground" />
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p className="max-w-xs">Title blocks above the header and Total, Subtotal or Average rows at the bottom are detected automatically. Rows outside this range are left out of every calculation and export.</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              </div>
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="header-row" className="text-sm font-normal">Header row</Label>
+                  <Input
+                    id="header-row"
+                    type="number"
+                    step="1"
+                    min="1"
+                    value={headerRowInput}
+                    onChange={(e) => setHeaderRowInput(e.target.value)}
+                    className="input-number-clean w-28"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="last-data-row" className="text-sm font-normal">Last data row</Label>
+                  <Input
+                    id="last-data-row"
+                    type="number"
+                    step="1"
+                    min="2"
+                    value={lastRowInput}
+                    onChange={(e) => setLastRowInput(e.target.value)}
+                    className="input-number-clean w-28"
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRowRangeChange(parseInt(headerRowInput), parseInt(lastRowInput))}
+                >
+                  Apply rows
+                </Button>
+                <div className="flex items-center space-x-2 pb-2">
+                  <input
+                    type="checkbox"
+                    id="footer-row"
+                    checked={lastRowIsFooter}
+                    onChange={(e) => handleFooterToggle(e.target.checked)}
+                    className="h-4 w-4 text-primary"
+                  />
+                  <Label htmlFor="footer-row" className="text-sm font-normal">Mark last row as footer</Label>
+                </div>
+              </div>
+              {(firstRowNumber > 2 || lastRowIsFooter) && (
+                <p className="text-sm text-muted-foreground">
+                  {firstRowNumber > 2 && `Rows 1–${firstRowNumber - 2} above the header are skipped. `}
+                  {lastRowIsFooter && `Rows ${firstRowNumber + data.rows.length}–${lastFilledRow + 1} at the bottom are left out as footer rows.`}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Number & Date Format - decimal separator and date order of text cells */}
+          {data.sheets && data.columnLocales && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Label>Number &amp; Date Format</Label>
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <HelpCircle className="h-4 w-4 text-muted-foreground" />
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p className="max-w-xs">How numbers and dates written as text are read. Auto detects each column from its values, e.g. "1.234,56" or "-0,35%" as a decimal comma and "15/03/2024" as day first. Spaces and apostrophes are always thousands separators, and a trailing minus ("12,50-") marks a negative number.</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              </div>
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="decimal-separator" className="text-sm font-normal">Numbers</Label>
+                  <Select
+                    value={localeSetting.decimalSeparator}
+                    onValueChange={(value) => handleLocaleChange({ decimalSeparator: value as LocaleSetting['decimalSeparator'] })}
+                  >
+                    <SelectTrigger id="decimal-separator" className="w-[200px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Auto-detect</SelectItem>
+                      <SelectItem value=".">1,234.56 (decimal point)</SelectItem>
+                      <SelectItem value=",">1.234,56 (decimal comma)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="date-order" className="text-sm font-normal">Dates</Label>
+                  <Select
+                    value={localeSetting.dateOrder}
+                    onValueChange={(value) => handleLocaleChange({ dateOrder: value as LocaleSetting['dateOrder'] })}
+                  >
+                    <SelectTrigger id="date-order" className="w-[200px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Auto-detect</SelectItem>
+                      {(Object.keys(DATE_ORDER_LABELS) as DateOrder[]).map(order => (
+                        <SelectItem key={order} value={order}>{DATE_ORDER_LABELS[order]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {selectedLocale && (
+                <p className="text-sm text-muted-foreground">
+                  {selectedColumn} is read with a decimal {selectedLocale.decimalSeparator === ',' ? 'comma' : 'point'}
+                  {timeColumnIndex !== -1 && data.columnLocales[timeColumnIndex] &&
+                    `; ${data.headers[timeColumnIndex]} as ${DATE_ORDER_LABELS[data.columnLocales[timeColumnIndex].dateOrder]} dates`}.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Configuration Form */}
           <div className="grid md:grid-cols-2 gap-6 pt-4">
             <div className="space-y-4">
               <div className="space-y-2">
                 <div className="flex items-center gap-2">
-                  <Label htmlFor="column-select">Select Returns/PnL Column</Label>
+                  <Label htmlFor="import-mode">Import Mode</Label>
                   <TooltipProvider>
                     <Tooltip>
                       <TooltipTrigger asChild>
                         <HelpCircle className="h-4 w-4 text-muted-foreground" />
                       </TooltipTrigger>
                       <TooltipContent>
-                        <p className="max-w-xs">Choose the column containing your returns or profit/loss values.</p>
+                        <p className="max-w-xs">Analyze a column of returns or PnL, or a trade ledger with one round-trip trade per row. Ledger trades are priced into realized PnL and summed by exit date.</p>
                       </TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
                 </div>
-                <Select value={selectedColumn} onValueChange={handleColumnSelect}>
-                  <SelectTrigger id="column-select">
-                    <SelectValue placeholder="Select a column" />
+                <Select value={importMode} onValueChange={handleImportModeChange}>
+                  <SelectTrigger id="import-mode">
+                    <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectGroup>
-                      {data.headers.map((header, index) => (
-                        <SelectItem key={index} value={header}>
-                          {header || `Column ${index + 1}`}
-                        </SelectItem>
-                      ))}
-                    </SelectGroup>
+                    <SelectItem value="returns">Returns / PnL column</SelectItem>
+                    <SelectItem value="ledger">Trade ledger</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
-              
+
+              {isLedger ? (
+                <div className="space-y-2">
+                  <Label>Ledger Columns</Label>
+                  <div className="grid grid-cols-2 gap-3">
+                    {(Object.keys(TRADE_COLUMN_LABELS) as (keyof TradeColumnMapping)[]).map(key => (
+                      <div key={key} className="space-y-1">
+                        <Label htmlFor={`trade-${key}`} className="text-sm font-normal">
+                          {TRADE_COLUMN_LABELS[key]}{REQUIRED_TRADE_COLUMNS.includes(key) ? '' : ' (optional)'}
+                        </Label>
+                        <Select
+                          value={tradeMapping[key] === -1 ? 'none' : data.headers[tradeMapping[key]]}
+                          onValueChange={(value) => handleTradeColumnChange(key, value)}
+                        >
+                          <SelectTrigger id={`trade-${key}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectGroup>
+                              <SelectItem value="none">Not mapped</SelectItem>
+                              {data.headers.map((header, index) => (
+                                <SelectItem key={index} value={header}>
+                                  {header || `Column ${index + 1}`}
+                                </SelectItem>
+                              ))}
+                            </SelectGroup>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    PnL = (exit - entry) × quantity - fees, with a short or sell side making the quantity negative.
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor="column-select">Select Returns/PnL Column</Label>
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <HelpCircle className="h-4 w-4 text-muted-foreground" />
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p className="max-w-xs">Choose the column containing your returns or profit/loss values.</p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                    </div>
+                    <Select value={selectedColumn} onValueChange={handleColumnSelect}>
+                      <SelectTrigger id="column-select">
+                        <SelectValue placeholder="Select a column" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectGroup>
+                          {data.headers.map((header, index) => (
+                            <SelectItem key={index} value={header}>
+                              {header || `Column ${index + 1}`}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      </SelectContent>
+                    </Select>
+                    <div className="flex items-center space-x-2 pt-1">
+                      <input
+                        type="checkbox"
+                        id="analyze-all"
+                        checked={analyzeAll}
+                        onChange={(e) => handleAnalyzeAllChange(e.target.checked)}
+                        className="h-4 w-4 text-primary"
+                      />
+                      <Label htmlFor="analyze-all" className="text-sm font-normal">
+                        Analyze all numeric columns ({numericColumns.length})
+                      </Label>
+                    </div>
+                    {analyzeAll && (
+                      <p className="text-sm text-muted-foreground">
+                        Each column is analyzed with the settings below and ranked in a league table. Percent and
+                        currency columns keep their own format; other columns use the data format below, which
+                        auto-detects each column by default. The selected column only previews the data-quality report.
+                      </p>
+                    )}
+                  </div>
+                
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor="date-column-select">Date Column</Label>
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <HelpCircle className="h-4 w-4 text-muted-foreground" />
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p className="max-w-xs">Dates label charts and exports and are used to detect missing periods. Detected automatically when possible.</p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                    </div>
+                    <Select value={dateColumn} onValueChange={handleDateColumnChange}>
+                      <SelectTrigger id="date-column-select">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectGroup>
+                          <SelectItem value="none">No date column</SelectItem>
+                          {data.headers.map((header, index) => (
+                            <SelectItem key={index} value={header} disabled={index === columnIndex}>
+                              {header || `Column ${index + 1}`}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                
+                </>
+              )}
+
               <div className="space-y-2">
                 <div className="flex items-center gap-2">
-                  <Label>Data Format</Label>
+                  <Label htmlFor="resample-select">Resample To</Label>
                   <TooltipProvider>
                     <Tooltip>
                       <TooltipTrigger asChild>
                         <HelpCircle className="h-4 w-4 text-muted-foreground" />
                       </TooltipTrigger>
                       <TooltipContent>
-                        <p className="max-w-xs">Specify your data format or let the system auto-detect it.</p>
+                        <p className="max-w-xs">Aggregate to calendar weeks, months, quarters or years before analysis. Returns are compounded and PnL is summed; trading periods are set to match.</p>
                       </TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
                 </div>
-                <div className="flex items-center space-x-4">
-                  <div className="flex items-center space-x-2">
-                    <input 
-                      type="radio" 
-                      id="format-auto" 
-                      name="format"
-                      value="auto"
-                      checked={dataFormat === 'auto'}
-                      onChange={(e) => setDataFormat(e.target.value)}
-                      className="h-4 w-4 text-primary"
-                    />
-                    <Label htmlFor="format-auto" className="text-sm font-normal">Auto-detect</Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <input 
-                      type="radio" 
-                      id="format-percent" 
-                      name="format"
-                      value="percent"
-                      checked={dataFormat === 'percent'}
-                      onChange={(e) => setDataFormat(e.target.value)}
-                      className="h-4 w-4 text-primary"
-                    />
-                    <Label htmlFor="format-percent" className="text-sm font-normal">Percentage (5 = 5%)</Label>
+                <Select value={resampleFrequency} onValueChange={handleResampleChange} disabled={timeColumnIndex === -1}>
+                  <SelectTrigger id="resample-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(RESAMPLE_LABELS) as ResampleFrequency[]).map(resample => (
+                      <SelectItem
+                        key={resample}
+                        value={resample}
+                        disabled={resample !== 'none' && !canResampleTo(resample)}
+                      >
+                        {RESAMPLE_LABELS[resample]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {timeColumnIndex === -1 && (
+                  <p className="text-sm text-muted-foreground">Select a date column to enable resampling.</p>
+                )}
+              </div>
+              
+              {!isLedger && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Label>Data Format</Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <HelpCircle className="h-4 w-4 text-muted-foreground" />
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p className="max-w-xs">Specify your data format or let the system auto-detect it.</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
                   </div>
-                  <div className="flex items-center space-x-2">
-                    <input 
-                      type="radio" 
-                      id="format-decimal" 
-                      name="format"
-                      value="decimal"
-                      checked={dataFormat === 'decimal'}
-                      onChange={(e) => setDataFormat(e.target.value)}
-                      className="h-4 w-4 text-primary"
-                    />
-                    <Label htmlFor="format-decimal" className="text-sm font-normal">Decimal (0.05 = 5%)</Label>
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+                    <div className="flex items-center space-x-2">
+                      <input 
+                        type="radio" 
+                        id="format-auto" 
+                        name="format"
+                        value="auto"
+                        checked={dataFormat === 'auto'}
+                        onChange={(e) => setDataFormat(e.target.value)}
+                        className="h-4 w-4 text-primary"
+                      />
+                      <Label htmlFor="format-auto" className="text-sm font-normal">Auto-detect</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <input 
+                        type="radio" 
+                        id="format-percent" 
+                        name="format"
+                        value="percent"
+                        checked={dataFormat === 'percent'}
+                        onChange={(e) => setDataFormat(e.target.value)}
+                        className="h-4 w-4 text-primary"
+                      />
+                      <Label htmlFor="format-percent" className="text-sm font-normal">Percentage (5 = 5%)</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <input 
+                        type="radio" 
+                        id="format-decimal" 
+                        name="format"
+                        value="decimal"
+                        checked={dataFormat === 'decimal'}
+                        onChange={(e) => setDataFormat(e.target.value)}
+                        className="h-4 w-4 text-primary"
+                      />
+                      <Label htmlFor="format-decimal" className="text-sm font-normal">Decimal (0.05 = 5%)</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <input 
+                        type="radio" 
+                        id="format-absolute" 
+                        name="format"
+                        value="absolute"
+                        checked={dataFormat === 'absolute'}
+                        onChange={(e) => setDataFormat(e.target.value)}
+                        className="h-4 w-4 text-primary"
+                      />
+                      <Label htmlFor="format-absolute" className="text-sm font-normal">Absolute ($)</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <input 
+                        type="radio" 
+                        id="format-log" 
+                        name="format"
+                        value="log"
+                        checked={dataFormat === 'log'}
+                        onChange={(e) => setDataFormat(e.target.value)}
+                        className="h-4 w-4 text-primary"
+                      />
+                      <Label htmlFor="format-log" className="text-sm font-normal">Log returns (ln(1 + r))</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <input 
+                        type="radio" 
+                        id="format-price" 
+                        name="format"
+                        value="price"
+                        checked={dataFormat === 'price'}
+                        onChange={(e) => setDataFormat(e.target.value)}
+                        className="h-4 w-4 text-primary"
+                      />
+                      <Label htmlFor="format-price" className="text-sm font-normal">Price level</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <input 
+                        type="radio" 
+                        id="format-equity" 
+                        name="format"
+                        value="equity"
+                        checked={dataFormat === 'equity'}
+                        onChange={(e) => setDataFormat(e.target.value)}
+                        className="h-4 w-4 text-primary"
+                      />
+                      <Label htmlFor="format-equity" className="text-sm font-normal">Cumulative equity</Label>
+                    </div>
                   </div>
-                  <div className="flex items-center space-x-2">
-                    <input 
-                      type="radio" 
-                      id="format-absolute" 
-                      name="format"
-                      value="absolute"
-                      checked={dataFormat === 'absolute'}
-                      onChange={(e) => setDataFormat(e.target.value)}
-                      className="h-4 w-4 text-primary"
+                  {(isLevelFormat(dataFormat) || dataFormat === 'auto') && (
+                    <div className="grid grid-cols-2 gap-3 pt-1">
+                      <div className="space-y-1">
+                        <Label htmlFor="level-method" className="text-sm font-normal">Returns from levels</Label>
+                        <Select value={levelMethod} onValueChange={(value) => setLevelMethod(value as 'simple' | 'log')}>
+                          <SelectTrigger id="level-method">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="simple">Simple (P₁ / P₀ - 1)</SelectItem>
+                            <SelectItem value="log">Log (ln P₁ / P₀)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {dataFormat === 'equity' && (
+                        <div className="space-y-1">
+                          <Label htmlFor="starting-equity" className="text-sm font-normal">Starting equity (optional)</Label>
+                          <Input
+                            id="starting-equity"
+                            type="number"
+                            step="1"
+                            value={startingEquity}
+                            onChange={(e) => setStartingEquity(e.target.value)}
+                            className="input-number-clean"
+                            placeholder="First row is the base"
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {isLevelFormat(dataFormat) && (
+                    <p className="text-sm text-muted-foreground">
+                      {dataFormat === 'equity' && startingEquity
+                        ? 'The first row\'s return is measured against the starting equity.'
+                        : 'The first row is the base value and yields no return.'}
+                    </p>
+                  )}
+                </div>
+              )}
+              
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="risk-free-rate">Annual Risk-Free Rate (%)</Label>
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <HelpCircle className="h-4 w-4 text-muted-foreground" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p className="max-w-xs">The annual risk-free rate as a percentage (e.g., 2 for 2%), or a series of annual yields from a column or a T-bill file, matched to each return by date.</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                </div>
+                <Select value={riskFreeSource} onValueChange={handleRiskFreeSourceChange}>
+                  <SelectTrigger id="risk-free-source">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="constant">Constant rate</SelectItem>
+                    <SelectItem value="column" disabled={isLedger}>Column in this file</SelectItem>
+                    <SelectItem value="file">Upload a T-bill series</SelectItem>
+                  </SelectContent>
+                </Select>
+                {riskFreeSource === 'constant' && (
+                  <Input
+                    id="risk-free-rate"
+                    type="number"
+                    step="0.01"
+                    value={riskFreeRate}
+                    onChange={(e) => setRiskFreeRate(e.target.value)}
+                    className="input-number-clean"
+                    placeholder="0"
+                  />
+                )}
+                {riskFreeSource === 'file' && (
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={() => riskFreeInputRef.current?.click()}>
+                      <Upload className="h-4 w-4 mr-1" />
+                      {riskFreeFileName ? 'Replace file' : 'Choose file'}
+                    </Button>
+                    <span className="text-sm text-muted-foreground truncate">{riskFreeFileName}</span>
+                    <input
+                      ref={riskFreeInputRef}
+                      type="file"
+                      accept=".csv,.xlsx,.xls,.tsv"
+                      className="hidden"
+                      onChange={handleRiskFreeFile}
                     />
-                    <Label htmlFor="format-absolute" className="text-sm font-normal">Absolute ($)</Label>
                   </div>
+                )}
+                {riskFreeSource !== 'constant' && riskFreeHeaders.length > 0 && (
+                  <>
+                      <Select value={riskFreeColumn} onValueChange={setRiskFreeColumn}>
+                        <SelectTrigger id="risk-free-column">
+                          <SelectValue placeholder="Select annual yield column (%)" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectGroup>
+                            {riskFreeHeaders.map((header, index) => (
+                              <SelectItem
+                                key={index}
+                                value={header}
+                                disabled={riskFreeSource === 'column' && (index === columnIndex || index === dateColumnIndex)}
+                              >
+                                {header || `Column ${index + 1}`}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-sm text-muted-foreground">
+                        Annual yields in percent; each return uses the latest yield on or before its date.
+                      </p>
+                  </>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="sharpe-returns">Sharpe Computed On</Label>
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <HelpCircle className="h-4 w-4 text-muted-foreground" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p className="max-w-xs">Simple returns (the usual convention) or log returns ln(1 + r). Sharpe, Sortino, their diagnostics, rolling and bootstrap figures follow this choice; compounding and drawdowns always use simple returns.</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
                 </div>
+                <Select value={sharpeReturns} onValueChange={(value) => setSharpeReturns(value as SharpeReturnBasis)}>
+                  <SelectTrigger id="sharpe-returns">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="simple">Simple returns</SelectItem>
+                    <SelectItem value="log">Log returns</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
-              
+
               <div className="space-y-2">
                 <div className="flex items-center gap-2">
-                  <Label htmlFor="risk-free-rate">Annual Risk-Free Rate (%)</Label>
+                  <Label htmlFor="benchmark-source">Benchmark (Optional)</Label>
                   <TooltipProvider>
                     <Tooltip>
                       <TooltipTrigger asChild>
                         <HelpCircle className="h-4 w-4 text-muted-foreground" />
                       </TooltipTrigger>
                       <TooltipContent>
-                        <p className="max-w-xs">The annual risk-free rate as a percentage (e.g., 2 for 2%).</p>
+                        <p className="max-w-xs">Index returns to compare against, from another column or a separate file. Used for beta, alpha, tracking error and capture ratios.</p>
                       </TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
                 </div>
-                <Input
-                  id="risk-free-rate"
-                  type="number"
-                  step="0.01"
-                  value={riskFreeRate}
-                  onChange={(e) => setRiskFreeRate(e.target.value)}
-                  className="input-number-clean"
-                  placeholder="0"
-                />
+                <Select value={benchmarkSource} onValueChange={setBenchmarkSource}>
+                  <SelectTrigger id="benchmark-source">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No benchmark</SelectItem>
+                    <SelectItem value="column" disabled={isLedger}>Column in this file</SelectItem>
+                    <SelectItem value="file">Upload a benchmark file</SelectItem>
+                  </SelectContent>
+                </Select>
+                {benchmarkSource === 'file' && (
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={() => benchmarkInputRef.current?.click()}>
+                      <Upload className="h-4 w-4 mr-1" />
+                      {benchmarkFileName ? 'Replace file' : 'Choose file'}
+                    </Button>
+                    <span className="text-sm text-muted-foreground truncate">{benchmarkFileName}</span>
+                    <input
+                      ref={benchmarkInputRef}
+                      type="file"
+                      accept=".csv,.xlsx,.xls,.tsv"
+                      className="hidden"
+                      onChange={handleBenchmarkFile}
+                    />
+                  </div>
+                )}
+                {benchmarkSource !== 'none' && benchmarkHeaders.length > 0 && (
+                  <Select value={benchmarkColumn} onValueChange={setBenchmarkColumn}>
+                    <SelectTrigger id="benchmark-column">
+                      <SelectValue placeholder="Select benchmark column" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectGroup>
+                        {benchmarkHeaders.map((header, index) => (
+                          <SelectItem
+                            key={index}
+                            value={header}
+                            disabled={benchmarkSource === 'column' && index === columnIndex}
+                          >
+                            {header || `Column ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    </SelectContent>
+                  </Select>
+                )}
               </div>
 
               {/* Portfolio Value Input - Only visible for absolute data format */}
-              {(dataFormat === 'absolute' || dataFormat === 'auto') && (
+              {(isLedger || dataFormat === 'absolute' || dataFormat === 'auto') && (
                 <div className="space-y-2">
                   <div className="flex items-center gap-2">
-                    <Label htmlFor="portfolio-value">Portfolio Value ($)</Label>
+                    <Label htmlFor="portfolio-value">{cashFlowIndex !== -1 ? 'Starting Capital ($)' : 'Portfolio Value ($)'}</Label>
                     <TooltipProvider>
                       <Tooltip>
                         <TooltipTrigger asChild>
@@ -331,11 +1433,49 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data, onProceed, onReset }) =
                     placeholder="e.g., 100000"
                     required={dataFormat === 'absolute'}
                   />
-                  {dataFormat === 'absolute' && (
+                  {(isLedger || dataFormat === 'absolute') && (
                     <p className="text-sm text-muted-foreground">
-                      Required for accurate ratio calculations with absolute returns.
+                      {cashFlowIndex !== -1
+                        ? 'Capital before the first row; 0 if the first deposit funds the account.'
+                        : 'Required for accurate ratio calculations with absolute returns.'}
                     </p>
                   )}
+                  {!isLedger && (
+                    <>
+                      <div className="flex items-center gap-2 pt-1">
+                        <Label htmlFor="cash-flow-column">Cash Flow Column</Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <HelpCircle className="h-4 w-4 text-muted-foreground" />
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              <p className="max-w-xs">Deposits (positive) and withdrawals (negative) on each row. NAV is rebuilt from the starting capital, PnL and flows, and returns become time-weighted: PnL / (previous NAV + flow). The money-weighted IRR is reported alongside.</p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <Select value={cashFlowColumn} onValueChange={setCashFlowColumn}>
+                        <SelectTrigger id="cash-flow-column">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectGroup>
+                            <SelectItem value="none">No deposits or withdrawals</SelectItem>
+                            {data.headers.map((header, index) => (
+                              <SelectItem
+                                key={index}
+                                value={header}
+                                disabled={index === columnIndex || index === dateColumnIndex}
+                              >
+                                {header || `Column ${index + 1}`}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                        </SelectContent>
+                      </Select>
+                    </>
+                  )}
                 </div>
               )}
             </div>
@@ -361,9 +1501,33 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data, onProceed, onReset }) =
                   step="1"
                   value={tradingPeriods}
                   onChange={(e) => setTradingPeriods(e.target.value)}
-                  className="input-number-clean"
+                  disabled={resampleFrequency !== 'none'}
+                  className={`input-number-clean ${periodsMismatch ? 'border-destructive focus-visible:ring-destructive' : ''}`}
                   placeholder="252"
                 />
+                {frequency && (
+                  periodsMismatch ? (
+                    <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+                      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                      <div className="space-y-2">
+                        <p>
+                          The data is <strong>{frequencyLabel}</strong>, which means {suggestedPeriods} periods
+                          per year. Annualizing with {tradingPeriods} scales Sharpe and Sortino by
+                          {' '}{(Math.sqrt(parseInt(tradingPeriods) / suggestedPeriods!)).toFixed(2)}x.
+                        </p>
+                        <Button variant="outline" size="sm" onClick={() => setTradingPeriods(String(suggestedPeriods))}>
+                          Use {suggestedPeriods}
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Detected {FREQUENCY_LABELS[frequency.frequency]} dates
+                      {resampleFrequency !== 'none' && `, resampled to ${RESAMPLE_LABELS[resampleFrequency].toLowerCase()}`}
+                      {suggestedPeriods !== null ? ` (${suggestedPeriods} periods per year)` : '; check the annualization factor manually'}.
+                    </p>
+                  )
+                )}
               </div>
               
               <div className="space-y-2">
@@ -390,15 +1554,165 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data, onProceed, onReset }) =
                   placeholder="Optional"
                 />
               </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="benchmark-sharpe">Benchmark Sharpe Ratio</Label>
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <HelpCircle className="h-4 w-4 text-muted-foreground" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p className="max-w-xs">Annualized Sharpe ratio the Probabilistic Sharpe Ratio tests against (0 = any positive skill).</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                </div>
+                <Input
+                  id="benchmark-sharpe"
+                  type="number"
+                  step="0.1"
+                  value={benchmarkSharpe}
+                  onChange={(e) => setBenchmarkSharpe(e.target.value)}
+                  className="input-number-clean"
+                  placeholder="0"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="number-of-trials">Number of Trials</Label>
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <HelpCircle className="h-4 w-4 text-muted-foreground" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p className="max-w-xs">How many strategy variants were tested before choosing this one. Used to deflate the Sharpe ratio for selection bias.</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                </div>
+                <Input
+                  id="number-of-trials"
+                  type="number"
+                  step="1"
+                  min="1"
+                  value={numberOfTrials}
+                  onChange={(e) => setNumberOfTrials(e.target.value)}
+                  className="input-number-clean"
+                  placeholder="1"
+                />
+              </div>
             </div>
           </div>
+
+          {/* Data Quality - problems found in the analyzed column, and what to do with flagged rows */}
+          {quality && (
+            <div className="space-y-3 pt-4 border-t">
+              <div className="flex items-center gap-2">
+                <Label>Data Quality</Label>
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <HelpCircle className="h-4 w-4 text-muted-foreground" />
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p className="max-w-xs">Rows without a number are always left out. Duplicate dates, outliers beyond the MAD threshold, non-zero values repeated for {DEFAULT_QUALITY_OPTIONS.staleRun} or more periods and returns below -100% are flagged; gaps in the dates are reported only.</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              </div>
+              {isBatch && (
+                <p className="text-sm text-muted-foreground">
+                  Report for {selectedColumn}; the choice for flagged rows applies to every column in the batch.
+                </p>
+              )}
+              {qualityKinds.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No dropped rows, duplicate dates, gaps, outliers, stale values or impossible returns in {selectedColumn}.
+                </p>
+              ) : (
+                <div className="rounded-md border overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Check</TableHead>
+                        <TableHead className="text-right">Rows</TableHead>
+                        <TableHead>Examples</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {qualityKinds.map(kind => {
+                        const issues = quality.issues.filter(issue => issue.kind === kind);
+                        return (
+                          <TableRow key={kind}>
+                            <TableCell className="font-medium">{QUALITY_ISSUE_LABELS[kind]}</TableCell>
+                            <TableCell className="text-right">{issues.length}</TableCell>
+                            <TableCell className="text-xs text-muted-foreground">
+                              {issues.slice(0, 3).map(issue => (
+                                <div key={`${issue.rowNumber}-${issue.detail}`}>Row {issue.rowNumber}: {issue.detail}</div>
+                              ))}
+                              {issues.length > 3 && <div>and {issues.length - 3} more</div>}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+              <div className="flex flex-wrap items-end gap-6">
+                <div className="space-y-2">
+                  <Label className="text-sm font-normal">Flagged rows ({quality.flaggedIndexes.length})</Label>
+                  <div className="flex flex-wrap gap-4">
+                    {(Object.keys(QUALITY_TREATMENT_LABELS) as QualityTreatment[]).map(treatment => (
+                      <div key={treatment} className="flex items-center space-x-2">
+                        <input
+                          type="radio"
+                          id={`quality-${treatment}`}
+                          name="quality-treatment"
+                          value={treatment}
+                          checked={qualityTreatment === treatment}
+                          onChange={(e) => setQualityTreatment(e.target.value as QualityTreatment)}
+                          className="h-4 w-4 text-primary"
+                        />
+                        <Label htmlFor={`quality-${treatment}`} className="text-sm font-normal">
+                          {QUALITY_TREATMENT_LABELS[treatment]}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="mad-threshold" className="text-sm font-normal">Outlier threshold (MADs)</Label>
+                  <Input
+                    id="mad-threshold"
+                    type="number"
+                    step="0.5"
+                    min="1"
+                    value={madThreshold}
+                    onChange={(e) => setMadThreshold(e.target.value)}
+                    className="input-number-clean w-28"
+                  />
+                </div>
+              </div>
+              {qualityTreatment === 'winsorize' && quality.bounds && (
+                <p className="text-sm text-muted-foreground">
+                  Values are clipped between {Number(quality.bounds.lower.toPrecision(4))} and {Number(quality.bounds.upper.toPrecision(4))}
+                  {' '}before the analysis; duplicate dates and stale values are kept.
+                </p>
+              )}
+            </div>
+          )}
         </CardContent>
         
         <CardFooter className="flex justify-end">
           <Button 
             onClick={handleSubmit} 
             className="w-full md:w-auto"
-            disabled={isLoading || columnIndex === -1}
+            disabled={isLoading || (isLedger ? !isTradeMappingComplete(tradeMapping) : columnIndex === -1)}
           >
             {isLoading ? (
               <div className="flex items-center gap-2">
@@ -407,7 +1721,7 @@ const DataPreview: React.FC<DataPreviewProps> = ({ data, onProceed, onReset }) =
               </div>
             ) : (
               <div className="flex items-center gap-2">
-                <span>Calculate Ratios</span>
+                <span>{isBatch ? `Analyze ${numericColumns.length} Columns` : 'Calculate Ratios'}</span>
                 <ArrowRight className="h-4 w-4" />
               </div>
             )}
@@ -0,0 +1,168 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Filler,
+  Title,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { formatPercent } from '@/utils/calculationUtils';
+import { DrawdownResult } from '@/utils/drawdownUtils';
+import { ReturnsSeries, getPeriodLabel, hasTimestamps } from '@/utils/seriesUtils';
+
+// Register Chart.js components
+ChartJS.register(
+  LinearScale,
+  PointElement,
+  LineElement,
+  Filler,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface DrawdownAnalysisProps {
+  drawdown: DrawdownResult;
+  series: ReturnsSeries;
+}
+
+const DrawdownAnalysis: React.FC<DrawdownAnalysisProps> = ({ drawdown, series }) => {
+  const dated = hasTimestamps(series);
+
+  // Equity point k sits after the k-th return, so it takes that return's date
+  const pointLabel = (index: number | null): string => {
+    if (index === null) return '—';
+    if (index === 0) return dated ? 'Start' : '0';
+    return getPeriodLabel(series, index - 1);
+  };
+
+  const chartData = {
+    datasets: [
+      {
+        label: 'Drawdown',
+        data: drawdown.underwater.map((value, index) => ({ x: index, y: value * 100 })),
+        borderColor: 'rgb(220, 38, 38)',
+        backgroundColor: 'rgba(239, 68, 68, 0.3)',
+        borderWidth: 1,
+        pointRadius: 0,
+        fill: 'origin' as const,
+      },
+    ],
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: false,
+      },
+      tooltip: {
+        callbacks: {
+          title: (items: { parsed: { x: number } }[]) => pointLabel(items[0]?.parsed.x ?? 0),
+          label: (context: { parsed: { y: number } }) => `Drawdown: ${context.parsed.y.toFixed(2)}%`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        title: {
+          display: true,
+          text: dated ? 'Date' : 'Period',
+        },
+        ticks: {
+          callback: (value: number | string) =>
+            Number.isInteger(Number(value)) ? pointLabel(Number(value)) : '',
+        },
+      },
+      y: {
+        max: 0,
+        title: {
+          display: true,
+          text: 'Drawdown (%)',
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="bg-card p-3 rounded-md shadow-subtle">
+          <div className="text-muted-foreground text-xs">Max Drawdown</div>
+          <div className="text-lg font-semibold mt-1 text-destructive">
+            {formatPercent(drawdown.maxDrawdown, 2)}
+          </div>
+        </div>
+        <div className="bg-card p-3 rounded-md shadow-subtle">
+          <div className="text-muted-foreground text-xs">Peak → Trough</div>
+          <div className="text-lg font-semibold mt-1">
+            {pointLabel(drawdown.peakIndex)} → {pointLabel(drawdown.troughIndex)}
+          </div>
+        </div>
+        <div className="bg-card p-3 rounded-md shadow-subtle">
+          <div className="text-muted-foreground text-xs">Recovered At</div>
+          <div className="text-lg font-semibold mt-1">
+            {drawdown.recoveryIndex !== null ? pointLabel(drawdown.recoveryIndex) : 'Not recovered'}
+          </div>
+        </div>
+        <div className="bg-card p-3 rounded-md shadow-subtle">
+          <div className="text-muted-foreground text-xs">Longest Underwater</div>
+          <div className="text-lg font-semibold mt-1">
+            {drawdown.longestUnderwater} periods
+          </div>
+        </div>
+      </div>
+
+      <div className="h-[250px] bg-white p-4 rounded-md shadow-subtle">
+        <Line data={chartData} options={chartOptions} />
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>#</TableHead>
+            <TableHead className="text-right">Depth</TableHead>
+            <TableHead className="text-right">Peak</TableHead>
+            <TableHead className="text-right">Trough</TableHead>
+            <TableHead className="text-right">Recovery</TableHead>
+            <TableHead className="text-right">Duration</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {drawdown.episodes.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center text-muted-foreground">
+                The equity curve never fell below a previous peak.
+              </TableCell>
+            </TableRow>
+          ) : (
+            drawdown.episodes.map((episode, i) => (
+              <TableRow key={episode.peakIndex}>
+                <TableCell>{i + 1}</TableCell>
+                <TableCell className="text-right font-medium text-destructive">{formatPercent(episode.depth, 2)}</TableCell>
+                <TableCell className="text-right">{pointLabel(episode.peakIndex)}</TableCell>
+                <TableCell className="text-right">{pointLabel(episode.troughIndex)}</TableCell>
+                <TableCell className="text-right">{pointLabel(episode.recoveryIndex)}</TableCell>
+                <TableCell className="text-right">{episode.duration}</TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+      <p className="text-xs text-muted-foreground">
+        {dated
+          ? 'Dates mark the period that closed at the peak, trough or recovery; "Start" is the starting capital before the first return.'
+          : 'Periods are counted from the start of the equity curve (0 = starting capital, 1 = after the first return).'}
+      </p>
+    </div>
+  );
+};
+
+export default DrawdownAnalysis;
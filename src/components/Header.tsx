@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { NavLink } from 'react-router-dom';
 import { ChartBar } from 'lucide-react';
 
 const Header = () => {
@@ -15,6 +16,21 @@ const Header = () => {
             <p className="text-sm text-muted-foreground">Risk-adjusted performance calculator</p>
           </div>
         </div>
+        <nav className="flex items-center space-x-4 text-sm">
+          <NavLink
+            to="/"
+            end
+            className={({ isActive }) => (isActive ? 'text-primary font-medium' : 'text-muted-foreground hover:text-foreground')}
+          >
+            Calculator
+          </NavLink>
+          <NavLink
+            to="/compare"
+            className={({ isActive }) => (isActive ? 'text-primary font-medium' : 'text-muted-foreground hover:text-foreground')}
+          >
+            Compare
+          </NavLink>
+        </nav>
       </div>
     </header>
   );
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDown, ArrowUp, RefreshCw } from 'lucide-react';
+import { formatNumber, formatPercent } from '@/utils/calculationUtils';
+import {
+  BATCH_METRIC_LABELS,
+  BatchMetric,
+  BatchRow,
+  BatchSkip,
+  getBatchMetric,
+  sortBatchRows,
+} from '@/utils/batchUtils';
+
+interface LeagueTableProps {
+  rows: BatchRow[];
+  skipped: BatchSkip[];
+  onSelect: (row: BatchRow) => void;
+  onReset: () => void;
+}
+
+// Ratios are plain numbers; volatility, drawdown and return are fractions
+const formatMetric = (value: number, metric: BatchMetric): string => {
+  if (!isFinite(value)) return 'N/A';
+  return metric === 'sharpeRatio' || metric === 'sortinoRatio' ? formatNumber(value, 2) : formatPercent(value, 2);
+};
+
+const LeagueTable: React.FC<LeagueTableProps> = ({ rows, skipped, onSelect, onReset }) => {
+  const [sortMetric, setSortMetric] = useState<BatchMetric>('sharpeRatio');
+  const [descending, setDescending] = useState(true);
+  const sorted = sortBatchRows(rows, sortMetric, descending);
+
+  // Clicking the sorted column flips the order; another column sorts highest first
+  const handleSort = (metric: BatchMetric) => {
+    if (metric === sortMetric) {
+      setDescending(!descending);
+    } else {
+      setSortMetric(metric);
+      setDescending(true);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto animate-fade-up" style={{ animationDelay: '200ms' }}>
+      <Card className="shadow-sm">
+        <CardHeader className="pb-4">
+          <CardTitle className="flex items-center justify-between">
+            <span>League Table ({rows.length} columns)</span>
+            <Button variant="ghost" size="sm" onClick={onReset} className="flex items-center gap-1">
+              <RefreshCw className="h-4 w-4" />
+              <span>New Analysis</span>
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[50px]">#</TableHead>
+                  <TableHead>Column</TableHead>
+                  <TableHead className="text-right">Periods</TableHead>
+                  {(Object.keys(BATCH_METRIC_LABELS) as BatchMetric[]).map(metric => (
+                    <TableHead key={metric} className="text-right">
+                      <button
+                        type="button"
+                        onClick={() => handleSort(metric)}
+                        className={`inline-flex items-center gap-1 ${metric === sortMetric ? 'text-primary font-medium' : ''}`}
+                      >
+                        {BATCH_METRIC_LABELS[metric]}
+                        {metric === sortMetric && (descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+                      </button>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sorted.map((row, rank) => (
+                  <TableRow key={row.columnIndex} onClick={() => onSelect(row)} className="cursor-pointer">
+                    <TableCell className="text-muted-foreground">{rank + 1}</TableCell>
+                    <TableCell className="font-medium">{row.column}</TableCell>
+                    <TableCell className="text-right">{row.series.values.length}</TableCell>
+                    {(Object.keys(BATCH_METRIC_LABELS) as BatchMetric[]).map(metric => (
+                      <TableCell key={metric} className="text-right">
+                        {formatMetric(getBatchMetric(row, metric), metric)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Every column is analyzed with the same parameters. Click a column header to sort, or a row to open its
+            full results. Volatility and annualized return are annualized; max drawdown is from the compounded equity curve.
+          </p>
+          {skipped.length > 0 && (
+            <div className="text-sm text-muted-foreground">
+              <p className="font-medium">Not analyzed:</p>
+              <ul className="list-disc pl-5">
+                {skipped.map(skip => (
+                  <li key={skip.column}>{skip.column}: {skip.reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default LeagueTable;
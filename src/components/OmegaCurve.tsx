@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  LogarithmicScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Scatter } from 'react-chartjs-2';
+import {
+  CalculationParams,
+  formatNumber,
+  formatPercent,
+  toAnnualRate,
+  toFractionalReturns,
+  toPeriodicTarget,
+} from '@/utils/calculationUtils';
+import { calculateOmegaCurve, calculatePartialMomentRatios } from '@/utils/partialMomentUtils';
+
+// Register Chart.js components
+ChartJS.register(
+  LinearScale,
+  LogarithmicScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface OmegaCurveProps {
+  returnValues: number[];
+  params: CalculationParams;
+}
+
+const OmegaCurve: React.FC<OmegaCurveProps> = ({ returnValues, params }) => {
+  const fractionalReturns = useMemo(() => toFractionalReturns(returnValues, params), [returnValues, params]);
+  const curve = useMemo(() => calculateOmegaCurve(fractionalReturns), [fractionalReturns]);
+
+  // The slider starts at the same periodic target Sortino uses, clamped to the swept range
+  const minThreshold = curve.length > 0 ? curve[0].threshold : 0;
+  const maxThreshold = curve.length > 0 ? curve[curve.length - 1].threshold : 0;
+  const clamp = (value: number) => Math.min(Math.max(value, minThreshold), maxThreshold);
+  const defaultThreshold = clamp(toPeriodicTarget(params));
+  const [threshold, setThreshold] = useState<number>(defaultThreshold);
+
+  const ratios = calculatePartialMomentRatios(fractionalReturns, threshold);
+
+  if (curve.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        The Omega curve needs returns that are not all identical.
+      </p>
+    );
+  }
+
+  const chartData = {
+    datasets: [
+      {
+        label: 'Omega',
+        data: curve.map(point => ({ x: point.threshold * 100, y: point.omega })),
+        showLine: true,
+        borderColor: 'rgb(59, 130, 246)',
+        backgroundColor: 'rgb(59, 130, 246)',
+        borderWidth: 1.5,
+        pointRadius: 0,
+      },
+      {
+        label: 'Selected threshold',
+        data: [{ x: threshold * 100, y: ratios.omegaRatio }],
+        borderColor: 'rgb(220, 38, 38)',
+        backgroundColor: 'rgb(220, 38, 38)',
+        pointRadius: 5,
+      },
+    ],
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false as const,
+    plugins: {
+      legend: {
+        display: false,
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: { parsed: { x: number; y: number } }) =>
+            `Threshold: ${context.parsed.x.toFixed(3)}%, Omega: ${context.parsed.y.toFixed(3)}`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        title: {
+          display: true,
+          text: 'Threshold per Period (%)',
+        },
+      },
+      y: {
+        type: 'logarithmic' as const,
+        title: {
+          display: true,
+          text: 'Omega Ratio (log scale)',
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="h-[300px] bg-white p-4 rounded-md shadow-subtle">
+        <Scatter data={chartData} options={chartOptions} />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm">
+            Threshold: {formatPercent(threshold, 3)} per period ({formatNumber(toAnnualRate(threshold, params.tradingPeriods), 2)}% annualized)
+          </Label>
+          <Button variant="outline" size="sm" onClick={() => setThreshold(defaultThreshold)}>
+            Reset to target
+          </Button>
+        </div>
+        <Slider
+          min={minThreshold}
+          max={maxThreshold}
+          step={(maxThreshold - minThreshold) / 1000}
+          value={[threshold]}
+          onValueChange={(value) => setThreshold(value[0])}
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="bg-card p-3 rounded-md shadow-subtle">
+          <div className="text-muted-foreground text-xs">Omega Ratio</div>
+          <div className="text-lg font-semibold mt-1">{formatNumber(ratios.omegaRatio, 3)}</div>
+        </div>
+        <div className="bg-card p-3 rounded-md shadow-subtle">
+          <div className="text-muted-foreground text-xs">Kappa-3 Ratio</div>
+          <div className="text-lg font-semibold mt-1">{formatNumber(ratios.kappa3Ratio, 3)}</div>
+        </div>
+        <div className="bg-card p-3 rounded-md shadow-subtle">
+          <div className="text-muted-foreground text-xs">Upside Potential Ratio</div>
+          <div className="text-lg font-semibold mt-1">{formatNumber(ratios.upsidePotentialRatio, 3)}</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OmegaCurve;
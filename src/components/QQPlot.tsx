@@ -0,0 +1,91 @@
+import React from 'react';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Scatter } from 'react-chartjs-2';
+import { calculateQQPoints } from '@/utils/normalityUtils';
+
+// Register Chart.js components
+ChartJS.register(
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface QQPlotProps {
+  returnValues: number[];
+}
+
+const QQPlot: React.FC<QQPlotProps> = ({ returnValues }) => {
+  const points = calculateQQPoints(returnValues).map(p => ({ x: p.theoretical, y: p.sample }));
+
+  // Normally distributed returns fall on the 45° line
+  const extent = Math.max(...points.map(p => Math.max(Math.abs(p.x), Math.abs(p.y))));
+  const referenceLine = [{ x: -extent, y: -extent }, { x: extent, y: extent }];
+
+  const chartData = {
+    datasets: [
+      {
+        label: 'Returns',
+        data: points,
+        backgroundColor: 'rgba(59, 130, 246, 0.6)',
+        pointRadius: 2,
+      },
+      {
+        label: 'Normal',
+        data: referenceLine,
+        showLine: true,
+        borderColor: 'rgb(220, 38, 38)',
+        borderWidth: 1.5,
+        pointRadius: 0,
+      },
+    ],
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: false,
+      },
+      title: {
+        display: true,
+        text: 'Normal QQ Plot',
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: { parsed: { x: number; y: number } }) =>
+            `Theoretical: ${context.parsed.x.toFixed(2)}, Sample: ${context.parsed.y.toFixed(2)}`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        title: {
+          display: true,
+          text: 'Theoretical Quantile',
+        },
+      },
+      y: {
+        title: {
+          display: true,
+          text: 'Standardized Return',
+        },
+      },
+    },
+  };
+
+  return <Scatter data={chartData} options={chartOptions} />;
+};
+
+export default QQPlot;
@@ -3,7 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { BarChart3, Download, Info, RefreshCw } from 'lucide-react';
+import { ArrowLeft, BarChart3, Download, Info, RefreshCw } from 'lucide-react';
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -12,12 +12,28 @@ import {
   Title,
   Tooltip,
   Legend,
+  Plugin,
 } from 'chart.js';
 import { Bar } from 'react-chartjs-2';
 import { CalculationResult, formatNumber, formatPercent } from '@/utils/calculationUtils';
 import { CalculationParams } from '@/utils/calculationUtils';
 import { exportAnalysisToXLSX } from '@/utils/exportUtils';
 import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import RollingPerformance from '@/components/RollingPerformance';
+import DrawdownAnalysis from '@/components/DrawdownAnalysis';
+import BenchmarkComparison from '@/components/BenchmarkComparison';
+import BootstrapIntervals from '@/components/BootstrapIntervals';
+import SerialCorrelation from '@/components/SerialCorrelation';
+import TailRiskCard from '@/components/TailRiskCard';
+import QQPlot from '@/components/QQPlot';
+import OmegaCurve from '@/components/OmegaCurve';
+import RiskFreeChart from '@/components/RiskFreeChart';
+import TradeStatistics from '@/components/TradeStatistics';
+import { TAIL_RISK_METHOD_LABELS, TailRiskMethod } from '@/utils/tailRiskUtils';
+import { SHAPIRO_WILK_MAX_N } from '@/utils/normalityUtils';
+import { ReturnsSeries, formatDate } from '@/utils/seriesUtils';
+import { RESAMPLE_LABELS } from '@/utils/resampleUtils';
 
 // Register Chart.js components
 ChartJS.register(
@@ -29,16 +45,29 @@ ChartJS.register(
   Legend
 );
 
+type HistogramBin = {
+  min: number;
+  max: number;
+  count: number;
+  isNegative: boolean;
+};
+
 interface ResultsProps {
   result: CalculationResult;
-  returnValues: number[];
+  series: ReturnsSeries;
   onReset: () => void;
   dataFormat: string;
   params: CalculationParams;
+  title?: string;          // analyzed column, shown when opened from the league table
+  onBack?: () => void;     // returns to the league table
 }
 
-const Results: React.FC<ResultsProps> = ({ result, returnValues, onReset, dataFormat, params }) => {
+const Results: React.FC<ResultsProps> = ({ result, series, onReset, dataFormat, params, title, onBack }) => {
+  const returnValues = series.values;
+  // Sharpe, Sortino, mean and volatility are on log returns when the user chose so
+  const meanLabel = params.sharpeReturns === 'log' ? 'Mean Log Return' : 'Mean Return';
   const [activeTab, setActiveTab] = useState('summary');
+  const [varMethod, setVarMethod] = useState<TailRiskMethod>('historical');
 
   // Format value based on data format
   const formatValue = (value: number, decimals: number = 4): string => {
@@ -67,6 +96,12 @@ const Results: React.FC<ResultsProps> = ({ result, returnValues, onReset, dataFo
     return value.toFixed(decimals);
   };
 
+  // Format minimum track record length in periods and years
+  const formatTrackRecord = (periods: number): string => {
+    if (!isFinite(periods)) return 'Not attainable';
+    return `${Math.ceil(periods)} periods (${(periods / params.tradingPeriods).toFixed(1)} yrs)`;
+  };
+
   // Format annualized return
   const formatAnnualizedReturn = (value: number, decimals: number = 2): string => {
     // First ensure the value is a valid number and not NaN or Infinity
@@ -89,12 +124,12 @@ const Results: React.FC<ResultsProps> = ({ result, returnValues, onReset, dataFo
     })}%`;
   };
 
-  // Prepare chart data for returns distribution
-  const prepareHistogramData = () => {
+  // Build histogram bins for the returns distribution
+  const buildHistogramBins = () => {
     // Create bins for the histogram
     const minReturn = Math.min(...returnValues);
     const maxReturn = Math.max(...returnValues);
-    let bins = [];
+    let bins: HistogramBin[] = [];
     // If min and max are both on the same side of zero, use default binning
     if (minReturn >= 0 || maxReturn <= 0) {
       const range = maxReturn - minReturn;
@@ -145,6 +180,11 @@ const Results: React.FC<ResultsProps> = ({ result, returnValues, onReset, dataFo
         bins[bins.length - 1].count++;
       }
     });
+    return bins;
+  };
+
+  // Prepare chart data for returns distribution
+  const prepareHistogramData = (bins: HistogramBin[]) => {
     return {
       labels: bins.map(bin => {
         if (dataFormat === 'absolute') {
@@ -193,9 +233,56 @@ const Results: React.FC<ResultsProps> = ({ result, returnValues, onReset, dataFo
     },
   };
 
+  // Draws the VaR thresholds of the selected method as dashed vertical lines over the histogram
+  const histogramBins = buildHistogramBins();
+  const createVarLinesPlugin = (bins: HistogramBin[]): Plugin<'bar'> => {
+    // Histogram values are in dollars for absolute data, fractional returns otherwise
+    const scale = dataFormat === 'absolute' && params.portfolioValue ? params.portfolioValue : 1;
+    const markers = result.tailRisk.map((level, i) => ({
+      value: level[varMethod].valueAtRisk * scale,
+      label: `VaR ${formatPercent(level.confidence, 0)}`,
+      color: i === 0 ? 'rgb(234, 88, 12)' : 'rgb(127, 29, 29)',
+    }));
+
+    return {
+      id: 'varLines',
+      afterDatasetsDraw: (chart) => {
+        const xScale = chart.scales.x;
+        const { top, bottom } = chart.chartArea;
+        const binPixelWidth = bins.length > 1
+          ? xScale.getPixelForValue(1) - xScale.getPixelForValue(0)
+          : xScale.width;
+        const ctx = chart.ctx;
+
+        markers.forEach((marker, i) => {
+          let binIndex = bins.findIndex(bin => marker.value >= bin.min && marker.value < bin.max);
+          if (binIndex === -1) binIndex = marker.value < bins[0].min ? 0 : bins.length - 1;
+          const bin = bins[binIndex];
+          const fraction = bin.max > bin.min
+            ? Math.min(Math.max((marker.value - bin.min) / (bin.max - bin.min), 0), 1)
+            : 0.5;
+          const x = xScale.getPixelForValue(binIndex) + (fraction - 0.5) * binPixelWidth;
+
+          ctx.save();
+          ctx.strokeStyle = marker.color;
+          ctx.fillStyle = marker.color;
+          ctx.lineWidth = 1.5;
+          ctx.setLineDash([4, 4]);
+          ctx.beginPath();
+          ctx.moveTo(x, top);
+          ctx.lineTo(x, bottom);
+          ctx.stroke();
+          ctx.font = '11px sans-serif';
+          ctx.fillText(marker.label, x + 4, top + 12 + i * 14);
+          ctx.restore();
+        });
+      },
+    };
+  };
+
   // Export to Excel (XLSX)
   const handleExportExcel = () => {
-    exportAnalysisToXLSX(result, returnValues, params);
+    exportAnalysisToXLSX(result, series, params);
   };
 
   const handleExport = () => {
@@ -204,27 +291,117 @@ const Results: React.FC<ResultsProps> = ({ result, returnValues, onReset, dataFo
       "Sharpe & Sortino Ratio Calculator Results",
       "","",
       "SUMMARY STATISTICS",
+      ...(result.startDate !== null && result.endDate !== null
+        ? [`Date Range,${formatDate(result.startDate)},${formatDate(result.endDate)}`, `Detected Gaps,${result.gaps.length}`]
+        : []),
+      ...(params.sourceFormat
+        ? [`Derived From,${params.sourceFormat === 'equity' ? 'Cumulative equity' : 'Price levels'} (${dataFormat === 'log' ? 'log' : 'simple'} returns)`]
+        : []),
+      ...(dataFormat === 'log' ? ['Return Input,Log returns (converted with exp(r) - 1)'] : []),
+      ...(params.trades ? [`Return Input,Trade ledger (${params.trades.length} trades summed by exit date)`] : []),
+      params.riskFreeRates
+        ? `Risk-Free Rate,Time-varying (average ${params.riskFreeRate.toFixed(2)}%; min ${Math.min(...params.riskFreeRates).toFixed(2)}%; max ${Math.max(...params.riskFreeRates).toFixed(2)}%)`
+        : `Risk-Free Rate,${params.riskFreeRate}%`,
+      `Sharpe Computed On,${params.sharpeReturns === 'log' ? 'Log returns ln(1 + r)' : 'Simple returns'}`,
+      ...(params.resampleFrequency && params.resampleFrequency !== 'none'
+        ? [`Resampled To,${RESAMPLE_LABELS[params.resampleFrequency]} (${params.tradingPeriods} periods per year)`]
+        : []),
       `Total Data Points,${result.totalReturns}`,
       `Positive Returns,${result.positiveReturns}`,
       `Negative Returns,${result.negativeReturns}`,
       `Min Return,${formatValue(result.minReturn)}`,
       `Max Return,${formatValue(result.maxReturn)}`,
-      `Mean Return (per period),${formatPercent(result.meanReturn, 2)}`,
+      `${meanLabel} (per period),${formatPercent(result.meanReturn, 2)}`,
       `Annualized Return,${formatPercent(result.annualizedReturn, 2)}`,
       `Standard Deviation,${formatValue(result.stdDeviation)}`,
       `Downside Deviation,${formatValue(result.downsideDeviation)}`,
       `Geometric Mean (CAGR base),${formatPercent(result.geoMean, 2)}`,
+      `Max Drawdown,${formatPercent(result.drawdown.maxDrawdown, 2)}`,
+      `Longest Time Underwater (periods),${result.drawdown.longestUnderwater}`,
+      ...(result.cashFlow
+        ? [
+          "","",
+          "CASH FLOWS",
+          `Starting Capital,${formatNumber(params.portfolioValue ?? 0, 2)}`,
+          `Total Deposits,${formatNumber(result.cashFlow.totalDeposits, 2)}`,
+          `Total Withdrawals,${formatNumber(result.cashFlow.totalWithdrawals, 2)}`,
+          `Final NAV,${formatNumber(result.cashFlow.nav[result.cashFlow.nav.length - 1], 2)}`,
+          `Net Profit,${formatNumber(result.cashFlow.netProfit, 2)}`,
+          `Time-Weighted Return (annualized),${formatPercent(result.cashFlow.timeWeightedReturn, 2)}`,
+          `Money-Weighted Return (IRR; annualized),${result.cashFlow.moneyWeightedReturn === null ? 'N/A' : formatPercent(result.cashFlow.moneyWeightedReturn, 2)}`,
+        ]
+        : []),
+      ...(result.tradeStats
+        ? [
+          "","",
+          "TRADES",
+          `Total Trades,${result.tradeStats.totalTrades}`,
+          `Winning / Losing Trades,${result.tradeStats.winningTrades},${result.tradeStats.losingTrades}`,
+          `Win Rate,${formatPercent(result.tradeStats.winRate, 2)}`,
+          `Profit Factor,${result.tradeStats.profitFactor === null ? 'N/A' : formatNumber(result.tradeStats.profitFactor, 4)}`,
+          `Average Win,${formatNumber(result.tradeStats.averageWin, 2)}`,
+          `Average Loss,${formatNumber(result.tradeStats.averageLoss, 2)}`,
+          `Payoff Ratio,${result.tradeStats.payoffRatio === null ? 'N/A' : formatNumber(result.tradeStats.payoffRatio, 4)}`,
+          `Expectancy (per trade),${formatNumber(result.tradeStats.expectancy, 2)}`,
+          `Longest Winning Streak (trades),${result.tradeStats.longestWinningStreak}`,
+          `Longest Losing Streak (trades),${result.tradeStats.longestLosingStreak}`,
+          `Total Fees,${formatNumber(result.tradeStats.totalFees, 2)}`,
+          `Net PnL,${formatNumber(result.tradeStats.netPnl, 2)}`,
+        ]
+        : []),
+      "","",
+      "DISTRIBUTION",
+      `Skewness,${formatNumber(result.skewness, 4)}`,
+      `Excess Kurtosis,${formatNumber(result.excessKurtosis, 4)}`,
+      `Jarque-Bera (statistic / p-value),${formatNumber(result.jarqueBera.statistic, 4)},${formatNumber(result.jarqueBera.pValue, 4)}`,
+      `Shapiro-Wilk (W / p-value),${formatNumber(result.shapiroWilk.statistic, 4)},${formatNumber(result.shapiroWilk.pValue, 4)}`,
+      "","",
+      "TAIL RISK (per period)",
+      ...result.tailRisk.flatMap(level =>
+        (Object.keys(TAIL_RISK_METHOD_LABELS) as TailRiskMethod[]).map(method =>
+          `${TAIL_RISK_METHOD_LABELS[method]} VaR / CVaR ${formatPercent(level.confidence, 0)},${formatPercent(level[method].valueAtRisk, 2)},${formatPercent(level[method].expectedShortfall, 2)}`
+        )
+      ),
       "","",
       "RATIO RESULTS",
       `Sharpe Ratio,${formatRatio(result.sharpeRatio, 4)}`,
+      `Sharpe Ratio (Lo-adjusted),${formatRatio(result.serialCorrelation.loSharpeRatio, 4)}`,
       `Sortino Ratio,${formatRatio(result.sortinoRatio, 4)}`,
+      `Probabilistic Sharpe Ratio (vs ${formatRatio(result.probabilisticSharpe.benchmarkSharpe, 2)}),${formatPercent(result.probabilisticSharpe.psr, 2)}`,
+      `Deflated Sharpe Ratio (${result.probabilisticSharpe.numberOfTrials} trials),${formatPercent(result.probabilisticSharpe.dsr, 2)}`,
+      `Minimum Track Record Length (periods),${isFinite(result.probabilisticSharpe.minTrackRecordLength) ? Math.ceil(result.probabilisticSharpe.minTrackRecordLength) : 'Not attainable'}`,
+      `Calmar Ratio,${formatRatio(result.drawdownRatios.calmarRatio, 4)}`,
+      `Sterling Ratio,${formatRatio(result.drawdownRatios.sterlingRatio, 4)}`,
+      `Burke Ratio,${formatRatio(result.drawdownRatios.burkeRatio, 4)}`,
+      `Martin Ratio (UPI),${formatRatio(result.drawdownRatios.martinRatio, 4)}`,
+      `Pain Ratio,${formatRatio(result.drawdownRatios.painRatio, 4)}`,
+      `Omega Ratio (at target),${formatRatio(result.partialMoments.omegaRatio, 4)}`,
+      `Kappa-3 Ratio (at target),${formatRatio(result.partialMoments.kappa3Ratio, 4)}`,
+      `Upside Potential Ratio (at target),${formatRatio(result.partialMoments.upsidePotentialRatio, 4)}`,
+      `Ulcer Index,${formatPercent(result.drawdownRatios.ulcerIndex, 2)}`,
+      `Pain Index,${formatPercent(result.drawdownRatios.painIndex, 2)}`,
+      ...(result.benchmark ? [
+        "","",
+        "VS BENCHMARK",
+        `Beta,${formatRatio(result.benchmark.beta, 4)}`,
+        `Jensen's Alpha (annualized),${formatPercent(result.benchmark.alpha, 2)}`,
+        `Tracking Error (annualized),${formatPercent(result.benchmark.trackingError, 2)}`,
+        `Information Ratio,${formatRatio(result.benchmark.informationRatio, 4)}`,
+        `Up Capture,${formatPercent(result.benchmark.upCapture, 2)}`,
+        `Down Capture,${formatPercent(result.benchmark.downCapture, 2)}`,
+        `Correlation,${formatRatio(result.benchmark.correlation, 4)}`,
+      ] : []),
       "","",
       "RAW DATA",
+      `Period,Date,Source Row,Value${params.riskFreeRates ? ',Risk-Free Rate (annual %)' : ''}`,
       ...returnValues.map((val, i) => {
+        const timestamp = series.timestamps[i];
+        const prefix = `${i+1},${timestamp !== null ? formatDate(timestamp) : ''},${series.sourceRows[i]}`;
+        const suffix = params.riskFreeRates ? `,${params.riskFreeRates[i]}` : '';
         if (dataFormat === 'absolute') {
-          return `${i+1},${val.toFixed(6)}`;
+          return `${prefix},${val.toFixed(6)}${suffix}`;
         }
-        return `${i+1},${formatNumber(val * 100, 6)}%`;
+        return `${prefix},${formatNumber(val * 100, 6)}%${suffix}`;
       })
     ];
     
@@ -247,6 +424,16 @@ const Results: React.FC<ResultsProps> = ({ result, returnValues, onReset, dataFo
   return (
     <div className="w-full max-w-4xl mx-auto animate-fade-up" style={{ animationDelay: '200ms' }}>
       <div className="grid gap-6">
+        {onBack && (
+          <div className="flex items-center justify-between">
+            <Button variant="ghost" size="sm" onClick={onBack} className="flex items-center gap-1">
+              <ArrowLeft className="h-4 w-4" />
+              <span>Back to League Table</span>
+            </Button>
+            {title && <h2 className="text-lg font-semibold">{title}</h2>}
+          </div>
+        )}
+
         {/* Ratio Results Cards */}
         <div className="grid md:grid-cols-2 gap-4">
           <Card className="overflow-hidden border-t-4 border-t-highlight shadow-sm">
@@ -264,7 +451,7 @@ const Results: React.FC<ResultsProps> = ({ result, returnValues, onReset, dataFo
             <CardContent>
               <div className="text-sm text-muted-foreground space-y-1">
                 <div className="grid grid-cols-2 gap-2">
-                  <span>Mean Return:</span>
+                  <span>{meanLabel}:</span>
                   <span className="font-medium text-foreground text-right">
                     {formatPercent(result.meanReturn, 2)}
                   </span>
@@ -275,6 +462,31 @@ const Results: React.FC<ResultsProps> = ({ result, returnValues, onReset, dataFo
                     {formatValue(result.stdDeviation)}
                   </span>
                 </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <span>Lo-Adjusted Sharpe:</span>
+                  <span className="font-medium text-foreground text-right">
+                    {formatRatio(result.serialCorrelation.loSharpeRatio, 2)}
+                  </span>
+                </div>
+                <Separator className="my-2" />
+                <div className="grid grid-cols-2 gap-2">
+                  <span>PSR (vs {formatRatio(result.probabilisticSharpe.benchmarkSharpe, 2)}):</span>
+                  <span className="font-medium text-foreground text-right">
+                    {formatPercent(result.probabilisticSharpe.psr, 1)}
+                  </span>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <span>DSR ({result.probabilisticSharpe.numberOfTrials} trial{result.probabilisticSharpe.numberOfTrials === 1 ? '' : 's'}):</span>
+                  <span className="font-medium text-foreground text-right">
+                    {formatPercent(result.probabilisticSharpe.dsr, 1)}
+                  </span>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <span>Min Track Record:</span>
+                  <span className="font-medium text-foreground text-right">
+                    {formatTrackRecord(result.probabilisticSharpe.minTrackRecordLength)}
+                  </span>
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -294,7 +506,7 @@ const Results: React.FC<ResultsProps> = ({ result, returnValues, onReset, dataFo
             <CardContent>
               <div className="text-sm text-muted-foreground space-y-1">
                 <div className="grid grid-cols-2 gap-2">
-                  <span>Mean Return:</span>
+                  <span>{meanLabel}:</span>
                   <span className="font-medium text-foreground text-right">
                     {formatPercent(result.meanReturn, 2)}
                   </span>
@@ -310,6 +522,8 @@ const Results: React.FC<ResultsProps> = ({ result, returnValues, onReset, dataFo
           </Card>
         </div>
         
+        <TailRiskCard tailRisk={result.tailRisk} />
+        
         {/* Detailed Results Tabs */}
         <Card className="shadow-sm">
           <CardHeader className="pb-0">
@@ -349,16 +563,38 @@ const Results: React.FC<ResultsProps> = ({ result, returnValues, onReset, dataFo
           
           <CardContent className="pt-4">
             <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-              <TabsList className="grid w-full grid-cols-3 mb-4">
+              <TabsList className="flex flex-wrap h-auto w-full mb-4">
                 <TabsTrigger value="summary">Summary</TabsTrigger>
                 <TabsTrigger value="chart">Distribution</TabsTrigger>
+                <TabsTrigger value="rolling">Rolling Performance</TabsTrigger>
+                <TabsTrigger value="drawdown">Drawdowns</TabsTrigger>
+                <TabsTrigger value="autocorrelation">Serial Correlation</TabsTrigger>
+                <TabsTrigger value="omega">Omega Curve</TabsTrigger>
+                {result.benchmark && (
+                  <TabsTrigger value="benchmark">vs Benchmark</TabsTrigger>
+                )}
+                {params.riskFreeRates && (
+                  <TabsTrigger value="riskFree">Risk-Free</TabsTrigger>
+                )}
+                {result.tradeStats && (
+                  <TabsTrigger value="trades">Trades</TabsTrigger>
+                )}
                 <TabsTrigger value="explanation">Methodology</TabsTrigger>
               </TabsList>
               
               <TabsContent value="summary" className="mt-0">
                 <div className="space-y-4">
                   <div className="bg-muted/30 p-4 rounded-md">
-                    <h3 className="text-sm font-medium mb-2">Return Statistics</h3>
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="text-sm font-medium">Return Statistics</h3>
+                      {result.startDate !== null && result.endDate !== null && (
+                        <span className="text-xs text-muted-foreground">
+                          {formatDate(result.startDate)} to {formatDate(result.endDate)}
+                          {params.resampleFrequency && params.resampleFrequency !== 'none'
+                            && ` · resampled ${RESAMPLE_LABELS[params.resampleFrequency].toLowerCase()}`}
+                        </span>
+                      )}
+                    </div>
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
                       <div className="bg-card p-3 rounded-md shadow-subtle">
                         <div className="text-muted-foreground text-xs">Annualized Return</div>
@@ -387,6 +623,22 @@ const Results: React.FC<ResultsProps> = ({ result, returnValues, onReset, dataFo
                     </div>
                   </div>
                   
+                  {result.gaps.length > 0 && (
+                    <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm">
+                      <div className="font-medium mb-1">
+                        {result.gaps.length} gap{result.gaps.length === 1 ? '' : 's'} detected in the dates
+                      </div>
+                      <ul className="list-disc pl-5 text-xs text-muted-foreground">
+                        {result.gaps.slice(0, 5).map(gap => (
+                          <li key={gap.afterIndex}>
+                            {formatDate(gap.from)} → {formatDate(gap.to)} (about {gap.missingPeriods} missing period{gap.missingPeriods === 1 ? '' : 's'})
+                          </li>
+                        ))}
+                        {result.gaps.length > 5 && <li>and {result.gaps.length - 5} more</li>}
+                      </ul>
+                    </div>
+                  )}
+                  
                   <Table>
                     <TableHeader>
                       <TableRow>
@@ -396,7 +648,7 @@ const Results: React.FC<ResultsProps> = ({ result, returnValues, onReset, dataFo
                     </TableHeader>
                     <TableBody>
                       <TableRow>
-                        <TableCell>Mean Return (per period)</TableCell>
+                        <TableCell>{meanLabel} (per period)</TableCell>
                         <TableCell className="text-right font-medium">{formatPercent(result.meanReturn, 2)}</TableCell>
                       </TableRow>
                       <TableRow>
@@ -419,14 +671,132 @@ const Results: React.FC<ResultsProps> = ({ result, returnValues, onReset, dataFo
                         <TableCell>Maximum Return</TableCell>
                         <TableCell className="text-right font-medium text-success-DEFAULT">{formatValue(result.maxReturn)}</TableCell>
                       </TableRow>
+                      <TableRow>
+                        <TableCell>Maximum Drawdown</TableCell>
+                        <TableCell className="text-right font-medium text-destructive">{formatPercent(result.drawdown.maxDrawdown, 2)}</TableCell>
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>Skewness</TableCell>
+                        <TableCell className="text-right font-medium">{formatNumber(result.skewness, 3)}</TableCell>
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>Excess Kurtosis</TableCell>
+                        <TableCell className="text-right font-medium">{formatNumber(result.excessKurtosis, 3)}</TableCell>
+                      </TableRow>
                     </TableBody>
                   </Table>
+
+                  {result.cashFlow && (
+                    <div>
+                      <h3 className="text-sm font-medium mb-2">Deposits &amp; Withdrawals</h3>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Metric</TableHead>
+                            <TableHead className="text-right">Value</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          <TableRow>
+                            <TableCell>Starting Capital</TableCell>
+                            <TableCell className="text-right font-medium">{formatAnnualizedReturn(params.portfolioValue ?? 0)}</TableCell>
+                          </TableRow>
+                          <TableRow>
+                            <TableCell>Deposits / Withdrawals</TableCell>
+                            <TableCell className="text-right font-medium">
+                              {formatAnnualizedReturn(result.cashFlow.totalDeposits)} / {formatAnnualizedReturn(result.cashFlow.totalWithdrawals)}
+                            </TableCell>
+                          </TableRow>
+                          <TableRow>
+                            <TableCell>Final NAV</TableCell>
+                            <TableCell className="text-right font-medium">{formatAnnualizedReturn(result.cashFlow.nav[result.cashFlow.nav.length - 1])}</TableCell>
+                          </TableRow>
+                          <TableRow>
+                            <TableCell>Time-Weighted Return (annualized)</TableCell>
+                            <TableCell className="text-right font-medium">{formatPercent(result.cashFlow.timeWeightedReturn, 2)}</TableCell>
+                          </TableRow>
+                          <TableRow>
+                            <TableCell>Money-Weighted Return (IRR, annualized)</TableCell>
+                            <TableCell className="text-right font-medium">
+                              {result.cashFlow.moneyWeightedReturn === null ? 'N/A' : formatPercent(result.cashFlow.moneyWeightedReturn, 2)}
+                            </TableCell>
+                          </TableRow>
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+
+                  <div>
+                    <h3 className="text-sm font-medium mb-2">More Ratios</h3>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Ratio</TableHead>
+                          <TableHead className="text-right">Value</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        <TableRow>
+                          <TableCell>Calmar Ratio</TableCell>
+                          <TableCell className="text-right font-medium">{formatRatio(result.drawdownRatios.calmarRatio, 2)}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell>Sterling Ratio</TableCell>
+                          <TableCell className="text-right font-medium">{formatRatio(result.drawdownRatios.sterlingRatio, 2)}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell>Burke Ratio</TableCell>
+                          <TableCell className="text-right font-medium">{formatRatio(result.drawdownRatios.burkeRatio, 2)}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell>Martin Ratio (UPI)</TableCell>
+                          <TableCell className="text-right font-medium">{formatRatio(result.drawdownRatios.martinRatio, 2)}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell>Pain Ratio</TableCell>
+                          <TableCell className="text-right font-medium">{formatRatio(result.drawdownRatios.painRatio, 2)}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell>Omega Ratio</TableCell>
+                          <TableCell className="text-right font-medium">{formatRatio(result.partialMoments.omegaRatio, 2)}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell>Kappa-3 Ratio</TableCell>
+                          <TableCell className="text-right font-medium">{formatRatio(result.partialMoments.kappa3Ratio, 3)}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell>Upside Potential Ratio</TableCell>
+                          <TableCell className="text-right font-medium">{formatRatio(result.partialMoments.upsidePotentialRatio, 3)}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell>Ulcer Index</TableCell>
+                          <TableCell className="text-right font-medium">{formatPercent(result.drawdownRatios.ulcerIndex, 2)}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell>Pain Index</TableCell>
+                          <TableCell className="text-right font-medium">{formatPercent(result.drawdownRatios.painIndex, 2)}</TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  </div>
+
+                  <BootstrapIntervals returnValues={returnValues} params={params} />
                 </div>
               </TabsContent>
               
               <TabsContent value="chart" className="mt-0">
-                <div className="h-[300px] bg-white p-4 rounded-md shadow-subtle">
-                  <Bar data={prepareHistogramData()} options={chartOptions} />
+                <div className="grid md:grid-cols-2 gap-4">
+                  <div className="h-[300px] bg-white p-4 rounded-md shadow-subtle">
+                    <Bar
+                      key={varMethod}
+                      data={prepareHistogramData(histogramBins)}
+                      options={chartOptions}
+                      plugins={[createVarLinesPlugin(histogramBins)]}
+                    />
+                  </div>
+                  <div className="h-[300px] bg-white p-4 rounded-md shadow-subtle">
+                    <QQPlot returnValues={returnValues} />
+                  </div>
                 </div>
                 <div className="flex items-center gap-2 mt-4">
                   <div className="flex items-center gap-1">
@@ -437,9 +807,86 @@ const Results: React.FC<ResultsProps> = ({ result, returnValues, onReset, dataFo
                     <div className="w-3 h-3 rounded-full bg-green-500" />
                     <span className="text-xs">Positive Returns</span>
                   </div>
+                  <div className="flex items-center gap-2 ml-auto">
+                    <span className="text-xs text-muted-foreground">VaR lines:</span>
+                    <Select value={varMethod} onValueChange={(value) => setVarMethod(value as TailRiskMethod)}>
+                      <SelectTrigger className="w-[150px] h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(TAIL_RISK_METHOD_LABELS) as TailRiskMethod[]).map(method => (
+                          <SelectItem key={method} value={method}>{TAIL_RISK_METHOD_LABELS[method]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
+
+                <Table className="mt-4">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Normality Test</TableHead>
+                      <TableHead className="text-right">Statistic</TableHead>
+                      <TableHead className="text-right">p-value</TableHead>
+                      <TableHead className="text-right">Normal at 5%</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[
+                      { label: 'Jarque-Bera', test: result.jarqueBera },
+                      { label: 'Shapiro-Wilk (W)', test: result.shapiroWilk },
+                    ].map(({ label, test }) => (
+                      <TableRow key={label}>
+                        <TableCell>{label}</TableCell>
+                        <TableCell className="text-right font-medium">{formatNumber(test.statistic, 4)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatNumber(test.pValue, 4)}</TableCell>
+                        <TableCell className={`text-right ${test.pValue < 0.05 ? 'text-destructive' : ''}`}>
+                          {test.pValue < 0.05 ? 'Rejected' : 'Not rejected'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Skewness {formatNumber(result.skewness, 3)}, excess kurtosis {formatNumber(result.excessKurtosis, 3)}.
+                  {result.totalReturns > SHAPIRO_WILK_MAX_N && ` Shapiro-Wilk p-values are only validated up to ${SHAPIRO_WILK_MAX_N} observations.`}
+                </p>
+              </TabsContent>
+              
+              <TabsContent value="rolling" className="mt-0">
+                <RollingPerformance series={series} params={params} />
               </TabsContent>
               
+              <TabsContent value="drawdown" className="mt-0">
+                <DrawdownAnalysis drawdown={result.drawdown} series={series} />
+              </TabsContent>
+              
+              <TabsContent value="autocorrelation" className="mt-0">
+                <SerialCorrelation serialCorrelation={result.serialCorrelation} />
+              </TabsContent>
+              
+              <TabsContent value="omega" className="mt-0">
+                <OmegaCurve returnValues={returnValues} params={params} />
+              </TabsContent>
+              
+              {result.benchmark && (
+                <TabsContent value="benchmark" className="mt-0">
+                  <BenchmarkComparison benchmark={result.benchmark} />
+                </TabsContent>
+              )}
+
+              {params.riskFreeRates && (
+                <TabsContent value="riskFree" className="mt-0">
+                  <RiskFreeChart series={series} params={params} />
+                </TabsContent>
+              )}
+
+              {result.tradeStats && params.trades && (
+                <TabsContent value="trades" className="mt-0">
+                  <TradeStatistics stats={result.tradeStats} trades={params.trades} />
+                </TabsContent>
+              )}
+              
               <TabsContent value="explanation" className="mt-0">
                 <div className="space-y-4">
                   <div className="space-y-2">
@@ -478,6 +925,45 @@ const Results: React.FC<ResultsProps> = ({ result, returnValues, onReset, dataFo
                       </p>
                     </div>
                     
+                    <div className="bg-muted/40 rounded-md p-4">
+                      <h4 className="font-medium mb-2">Autocorrelation-Adjusted Sharpe (Lo 2002)</h4>
+                      <p className="text-sm mb-3">
+                        Scaling by √(Trading Periods) assumes returns are serially uncorrelated. Smoothed returns (e.g. monthly hedge-fund marks)
+                        are positively autocorrelated, which makes that scaling overstate the annual Sharpe ratio. Lo's correction replaces √q with:
+                      </p>
+                      <div className="bg-white p-3 rounded-md border text-sm font-mono">
+                        η(q) = q / √(q + 2 × Σₖ (q - k) × ρₖ), k = 1 … q - 1
+                      </div>
+                      <p className="text-sm mt-2">
+                        Where q is the number of trading periods per year and ρₖ is the lag-k autocorrelation. Lags beyond a quarter of the sample
+                        length are treated as zero ({result.serialCorrelation.loLags} lags used here, η = {formatRatio(result.serialCorrelation.loScalingFactor, 2)} vs
+                        √q = {formatRatio(Math.sqrt(params.tradingPeriods), 2)}). The Ljung-Box test checks whether the first L autocorrelations are jointly zero.
+                      </p>
+                    </div>
+                    
+                    <div className="bg-muted/40 rounded-md p-4">
+                      <h4 className="font-medium mb-2">Probabilistic & Deflated Sharpe Ratio</h4>
+                      <p className="text-sm mb-3">
+                        The Probabilistic Sharpe Ratio (Bailey & López de Prado) is the probability that the true Sharpe ratio exceeds a benchmark,
+                        given the sample length and the skewness and kurtosis of returns. It uses the per-period (non-annualized) Sharpe ratio:
+                      </p>
+                      <div className="bg-white p-3 rounded-md border text-sm font-mono space-y-1">
+                        <div>PSR = Φ[(SR - SR*) × √(n - 1) / √(1 - γ₃·SR + (γ₄ - 1)/4 · SR²)]</div>
+                        <div>MinTRL = 1 + (1 - γ₃·SR + (γ₄ - 1)/4 · SR²) × (z₀.₉₅ / (SR - SR*))²</div>
+                      </div>
+                      <p className="text-sm mt-2">
+                        Where:
+                        <ul className="list-disc pl-5 mt-1">
+                          <li><strong>SR*</strong>: Benchmark Sharpe ratio ({formatRatio(result.probabilisticSharpe.benchmarkSharpe, 2)} annualized), converted to per-period</li>
+                          <li><strong>γ₃, γ₄</strong>: Skewness and (non-excess) kurtosis of returns</li>
+                          <li><strong>Deflated Sharpe Ratio</strong>: PSR against the Sharpe ratio expected from the best of {result.probabilisticSharpe.numberOfTrials} zero-skill
+                            trial{result.probabilisticSharpe.numberOfTrials === 1 ? '' : 's'} ({formatRatio(result.probabilisticSharpe.deflatedBenchmarkSharpe, 2)} annualized),
+                            using the estimator's standard error as the spread across trials</li>
+                          <li><strong>MinTRL</strong>: Number of periods needed for PSR to reach 95%</li>
+                        </ul>
+                      </p>
+                    </div>
+                    
                     <div className="bg-muted/40 rounded-md p-4">
                       <h4 className="font-medium mb-2 flex items-center gap-2">
                         <BarChart3 className="h-4 w-4 text-success" />
@@ -497,6 +983,142 @@ const Results: React.FC<ResultsProps> = ({ result, returnValues, onReset, dataFo
                       </p>
                     </div>
                     
+                    <div className="bg-muted/40 rounded-md p-4">
+                      <h4 className="font-medium mb-2">Bootstrap Confidence Intervals</h4>
+                      <p className="text-sm mb-3">
+                        The returns are resampled with replacement and every metric is recalculated on each resample, using a seeded random
+                        generator so results are reproducible.
+                      </p>
+                      <ul className="list-disc pl-5 text-sm">
+                        <li><strong>IID</strong>: Individual periods are drawn independently (ignores autocorrelation)</li>
+                        <li><strong>Stationary block</strong>: Blocks of random, geometrically distributed length (Politis & Romano)</li>
+                        <li><strong>Circular block</strong>: Blocks of fixed length, wrapping around the end of the series</li>
+                      </ul>
+                      <p className="text-sm mt-2">
+                        The percentile interval takes the 2.5th and 97.5th percentiles of the bootstrap distribution. The BCa interval
+                        shifts those percentiles to correct for bias and skew, using a jackknife estimate of acceleration. Block lengths
+                        default to the cube root of the number of observations.
+                      </p>
+                    </div>
+                    
+                    <div className="bg-muted/40 rounded-md p-4">
+                      <h4 className="font-medium mb-2">Higher Moments and Normality</h4>
+                      <p className="text-sm mb-3">
+                        Skewness and excess kurtosis are the bias-adjusted sample estimates (as in Excel's SKEW and KURT). A normal
+                        distribution has zero for both; fat tails show up as positive excess kurtosis.
+                      </p>
+                      <ul className="list-disc pl-5 text-sm">
+                        <li><strong>Jarque-Bera</strong>: JB = n/6 · (S² + K²/4) from the population skewness S and excess kurtosis K, compared with a chi-square distribution with 2 degrees of freedom</li>
+                        <li><strong>Shapiro-Wilk</strong>: W compares the ordered returns with expected normal order statistics; coefficients and p-values use Royston's (1995) approximation</li>
+                        <li><strong>QQ plot</strong>: Standardized returns against normal quantiles; points off the 45° line mark departures from normality, most often in the tails</li>
+                      </ul>
+                    </div>
+                    
+                    <div className="bg-muted/40 rounded-md p-4">
+                      <h4 className="font-medium mb-2">Tail Risk</h4>
+                      <p className="text-sm mb-3">
+                        Value-at-Risk (VaR) is the return that is not undercut with the given confidence in a single period. Expected Shortfall
+                        (CVaR) is the average return in the periods beyond the VaR. Both are calculated from the same fractional returns as the ratios.
+                      </p>
+                      <ul className="list-disc pl-5 text-sm">
+                        <li><strong>Historical</strong>: Empirical quantile of the returns, and the mean of returns at or below it</li>
+                        <li><strong>Gaussian</strong>: VaR = μ + σ·z, CVaR = μ - σ·φ(z) / α, assuming normal returns</li>
+                        <li><strong>Cornish-Fisher</strong>: The normal quantile z is adjusted for skewness and excess kurtosis; CVaR averages the adjusted quantiles over the tail</li>
+                      </ul>
+                    </div>
+                    
+                    <div className="bg-muted/40 rounded-md p-4">
+                      <h4 className="font-medium mb-2">Rolling Performance</h4>
+                      <p className="text-sm">
+                        Rolling statistics repeat the Sharpe, Sortino and volatility calculations over trailing windows
+                        (21, 63, 126 or 252 periods), using the same risk-free rate, target return and annualization.
+                        Each point is plotted at the last period of its window.
+                      </p>
+                    </div>
+                    
+                    <div className="bg-muted/40 rounded-md p-4">
+                      <h4 className="font-medium mb-2">Drawdowns</h4>
+                      <p className="text-sm mb-3">
+                        Fractional returns are compounded into an equity curve starting at 1. The drawdown at each period is the
+                        loss from the highest equity reached so far:
+                      </p>
+                      <div className="bg-white p-3 rounded-md border text-sm font-mono">
+                        Drawdown = Equity / Running Peak - 1
+                      </div>
+                      <p className="text-sm mt-2">
+                        An episode runs from a peak until equity regains that peak. Its duration counts the periods from peak to recovery,
+                        or to the last period if equity has not yet recovered.
+                      </p>
+                    </div>
+                    
+                    <div className="bg-muted/40 rounded-md p-4">
+                      <h4 className="font-medium mb-2">Partial Moments, Omega and Kappa</h4>
+                      <p className="text-sm mb-3">
+                        Partial moments measure returns on one side of a threshold τ, averaged over all n periods. The threshold is the
+                        periodic target return (the risk-free rate if no target is set), converted with the same compound formula as Sortino.
+                      </p>
+                      <div className="bg-white p-3 rounded-md border text-sm font-mono mb-3">
+                        LPMₖ(τ) = Σ max(τ - r, 0)ᵏ / n, UPMₖ(τ) = Σ max(r - τ, 0)ᵏ / n
+                      </div>
+                      <ul className="list-disc pl-5 text-sm">
+                        <li><strong>Omega</strong>: UPM₁ / LPM₁, probability-weighted gains over losses relative to τ</li>
+                        <li><strong>Kappa-3</strong>: (Mean - τ) / LPM₃^(1/3), penalizing large shortfalls more heavily than Sortino</li>
+                        <li><strong>Upside Potential</strong>: UPM₁ / √LPM₂</li>
+                        <li><strong>Omega curve</strong>: Omega recalculated as τ sweeps from the smallest to the largest return; it crosses 1 at the mean</li>
+                      </ul>
+                      <p className="text-sm mt-2">These ratios are per period and are not annualized.</p>
+                    </div>
+                    
+                    <div className="bg-muted/40 rounded-md p-4">
+                      <h4 className="font-medium mb-2">Drawdown-Based Ratios</h4>
+                      <p className="text-sm mb-3">
+                        Each ratio divides the annualized return (the same geometric figure shown in Return Statistics) by a
+                        drawdown measure from the underwater curve above. A ratio is reported as 0 when its drawdown measure is zero.
+                      </p>
+                      <ul className="list-disc pl-5 text-sm">
+                        <li><strong>Calmar</strong>: Annualized Return / |Max Drawdown|</li>
+                        <li><strong>Sterling</strong>: Annualized Return / average |depth| of the five deepest drawdown episodes</li>
+                        <li><strong>Burke</strong>: Annualized Return / √(Σ depth²) over the same five episodes</li>
+                        <li><strong>Ulcer Index</strong>: √(mean of squared drawdowns) across all periods</li>
+                        <li><strong>Martin (Ulcer Performance Index)</strong>: Annualized Return / Ulcer Index</li>
+                        <li><strong>Pain Index / Pain Ratio</strong>: Mean |drawdown| across all periods, and Annualized Return / Pain Index</li>
+                      </ul>
+                    </div>
+                    
+                    {result.benchmark && (
+                      <div className="bg-muted/40 rounded-md p-4">
+                        <h4 className="font-medium mb-2">Benchmark-Relative Metrics</h4>
+                        <p className="text-sm mb-3">
+                          Strategy and benchmark returns are paired period by period (aligned on the most recent observations when their lengths differ).
+                        </p>
+                        <div className="bg-white p-3 rounded-md border text-sm font-mono space-y-1">
+                          <div>Beta = Cov(Strategy, Benchmark) / Var(Benchmark)</div>
+                          <div>Alpha = [(Mean Strategy - Rf) - Beta × (Mean Benchmark - Rf)] × Trading Periods</div>
+                          <div>Tracking Error = StdDev(Strategy - Benchmark) × √(Trading Periods)</div>
+                          <div>Information Ratio = Mean(Strategy - Benchmark) × Trading Periods / Tracking Error</div>
+                        </div>
+                        <p className="text-sm mt-2">
+                          Up (down) capture divides the strategy's mean return by the benchmark's mean return over the periods where the benchmark rose (fell).
+                        </p>
+                      </div>
+                    )}
+                    
+                    <div className="bg-muted/40 rounded-md p-4">
+                      <h4 className="font-medium mb-2">Dates and Gaps</h4>
+                      <p className="text-sm">
+                        When a date column is selected, each return keeps its date and spreadsheet row. Dates label the charts and
+                        exports; the calculations still use the rows in file order. A step between consecutive dates counts as a gap when
+                        it exceeds both 1.5 times the typical (median) step and the typical step plus three days, so weekends and
+                        holidays in daily data are not flagged.
+                      </p>
+                      <p className="text-sm mt-2">
+                        Resampling aggregates the rows into calendar weeks (starting Monday), months, quarters or years before any
+                        calculation: fractional returns are compounded, (1 + r₁)(1 + r₂)… - 1, and absolute PnL is summed. Each period
+                        takes the date of its last row, partial periods at either end are kept, and trading periods are set to 52, 12,
+                        4 or 1 to match.
+                      </p>
+                    </div>
+                    
                     <div className="bg-muted/40 rounded-md p-4">
                       <h4 className="font-medium mb-2">Data Format Handling</h4>
                       <p className="text-sm mb-3">
@@ -505,14 +1127,89 @@ const Results: React.FC<ResultsProps> = ({ result, returnValues, onReset, dataFo
                       <ul className="list-disc pl-5 text-sm">
                         <li><strong>Percentage</strong>: Values like 5 are treated as 5% (divided by 100)</li>
                         <li><strong>Decimal</strong>: Values like 0.05 are treated as 5%</li>
-                        <li><strong>Absolute</strong>: Dollar amounts (PnL); if a starting portfolio value is provided, percentage returns are computed dynamically by updating the portfolio value each period</li>
-                        <li><strong>Auto</strong>: Format is inferred from data magnitude</li>
+                        <li><strong>Log returns</strong>: Continuously compounded returns ln(1 + r), converted to simple returns with exp(r) - 1; the geometric mean is exp(mean log return) - 1</li>
+                        <li><strong>Absolute</strong>: Dollar amounts (PnL) divided by the portfolio value; with a cash-flow column, divided by the NAV rebuilt each period from the starting capital, PnL and deposits/withdrawals (time-weighted returns)</li>
+                        <li><strong>Price level</strong>: Prices or NAV per unit; each row's return is P<sub>t</sub> / P<sub>t-1</sub> - 1 (simple) or ln(P<sub>t</sub> / P<sub>t-1</sub>) (log), so the first row is only the base and yields no return</li>
+                        <li><strong>Cumulative equity</strong>: Account equity, converted like prices; with a starting equity the first row's return is measured against it instead of being dropped</li>
+                        <li><strong>Auto</strong>: Format is inferred from data magnitude; strictly positive values whose median row-to-row change is under 10% are read as price levels</li>
                       </ul>
                       <p className="text-sm mt-2">
                         For absolute returns without a portfolio value, ratios are calculated directly, but results may not align with standard benchmarks.
                       </p>
                     </div>
                     
+                    {result.tradeStats && (
+                      <div className="bg-muted/40 rounded-md p-4">
+                        <h4 className="font-medium mb-2">Trade Ledger</h4>
+                        <p className="text-sm mb-3">
+                          Each ledger row is a round-trip trade. Its realized PnL is the price move times the signed quantity, less fees
+                          (a short side makes the quantity negative):
+                        </p>
+                        <div className="bg-white p-3 rounded-md border text-sm font-mono">
+                          PnL = (Exit Price - Entry Price) × Quantity - Fees
+                        </div>
+                        <p className="text-sm mt-2">
+                          Trade PnL is summed by exit date into daily PnL, with zero PnL on business days without exits, and analyzed as
+                          absolute PnL against the portfolio value. Win rate, profit factor (gross profit / gross loss), average win and
+                          loss, expectancy (mean PnL per trade) and streaks are computed per trade, in the order trades were closed;
+                          break-even trades count as neither wins nor losses.
+                        </p>
+                      </div>
+                    )}
+
+                    {result.cashFlow && (
+                      <div className="bg-muted/40 rounded-md p-4">
+                        <h4 className="font-medium mb-2">Deposits, Withdrawals and Time-Weighted Returns</h4>
+                        <p className="text-sm mb-3">
+                          NAV is rebuilt from the starting capital: NAV<sub>t</sub> = NAV<sub>t-1</sub> + flow<sub>t</sub> + PnL<sub>t</sub>.
+                          A flow on a row arrives at the start of that period, so each return is measured on the capital at work:
+                        </p>
+                        <div className="bg-white p-3 rounded-md border text-sm font-mono">
+                          r<sub>t</sub> = PnL<sub>t</sub> / (NAV<sub>t-1</sub> + flow<sub>t</sub>)
+                        </div>
+                        <p className="text-sm mt-2">
+                          These time-weighted returns replace PnL / portfolio value in every metric, so deposits and withdrawals do not
+                          distort Sharpe, Sortino or drawdowns. The money-weighted return is the IRR of the investor's flows (starting
+                          capital, deposits, withdrawals and the final NAV), annualized; unlike the time-weighted return it rewards
+                          having more capital invested when returns are high.
+                        </p>
+                      </div>
+                    )}
+
+                    {params.riskFreeRates && (
+                      <div className="bg-muted/40 rounded-md p-4">
+                        <h4 className="font-medium mb-2">Time-Varying Risk-Free Rate</h4>
+                        <p className="text-sm mb-3">
+                          Each return is paired with the annual yield in force on its date (the latest quote on or before it; earlier
+                          returns take the first quote). Every yield is converted to a per-period rate with the compound formula below,
+                          and excess returns are taken row by row:
+                        </p>
+                        <div className="bg-white p-3 rounded-md border text-sm font-mono">
+                          Sharpe = mean(r<sub>t</sub> - rf<sub>t</sub>) / stdev(r<sub>t</sub> - rf<sub>t</sub>) × √(Trading Periods)
+                        </div>
+                        <p className="text-sm mt-2">
+                          Without a fixed target, Sortino measures shortfall below each period's own rate. PSR and the Lo adjustment use the
+                          excess returns. Benchmark alpha, the bootstrap and the Omega threshold use the average yield
+                          ({params.riskFreeRate.toFixed(2)}%).
+                        </p>
+                      </div>
+                    )}
+
+                    <div className="bg-muted/40 rounded-md p-4">
+                      <h4 className="font-medium mb-2">Simple vs Log Returns</h4>
+                      <p className="text-sm mb-3">
+                        This analysis computes Sharpe and Sortino on <strong>{params.sharpeReturns === 'log' ? 'log returns' : 'simple returns'}</strong>
+                        {dataFormat === 'log' ? ', from log returns in the input' : ''}. Log returns are ln(1 + r); for the log basis the
+                        periodic risk-free rate and target are converted the same way, ln(1 + r<sub>f</sub>).
+                      </p>
+                      <p className="text-sm">
+                        The mean, standard deviation, downside deviation, PSR, Lo adjustment, rolling and bootstrap figures follow the
+                        same choice. The geometric mean, annualized return, equity curve, drawdowns, tail risk and partial moments always
+                        compound simple returns, so they do not depend on it. Log returns have a lower mean than simple returns
+                        (by about σ²/2), so a log-basis Sharpe is usually slightly lower.
+                      </p>
+                    </div>
+
                     <div className="bg-muted/40 rounded-md p-4">
                       <h4 className="font-medium mb-2">Risk-Free Rate Conversion</h4>
                       <p className="text-sm mb-3">
@@ -0,0 +1,163 @@
+import React, { useMemo } from 'react';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import {
+  CalculationParams,
+  formatPercent,
+  toFractionalReturns,
+  toPeriodicRiskFreeRates,
+} from '@/utils/calculationUtils';
+import { calculateExcessPath } from '@/utils/riskFreeUtils';
+import { ReturnsSeries, getPeriodLabel, hasTimestamps } from '@/utils/seriesUtils';
+
+// Register Chart.js components
+ChartJS.register(
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface RiskFreeChartProps {
+  series: ReturnsSeries;
+  params: CalculationParams;
+}
+
+const RiskFreeChart: React.FC<RiskFreeChartProps> = ({ series, params }) => {
+  const dated = hasTimestamps(series);
+  const annualRates = useMemo(
+    () => params.riskFreeRates ?? series.values.map(() => params.riskFreeRate),
+    [params, series.values]
+  );
+  const path = useMemo(
+    () => calculateExcessPath(
+      toFractionalReturns(series.values, params),
+      toPeriodicRiskFreeRates(params, series.values.length),
+      annualRates
+    ),
+    [series.values, params, annualRates]
+  );
+
+  const lowest = Math.min(...annualRates);
+  const highest = Math.max(...annualRates);
+  const last = path[path.length - 1];
+
+  const chartData = {
+    datasets: [
+      {
+        label: 'Cumulative Return',
+        data: path.map(point => ({ x: point.index + 1, y: point.cumulativeReturn * 100 })),
+        borderColor: 'rgb(148, 163, 184)',
+        backgroundColor: 'rgb(148, 163, 184)',
+        borderWidth: 1.5,
+        pointRadius: 0,
+        yAxisID: 'y',
+      },
+      {
+        label: 'Cumulative Excess Return',
+        data: path.map(point => ({ x: point.index + 1, y: point.cumulativeExcess * 100 })),
+        borderColor: 'rgb(59, 130, 246)',
+        backgroundColor: 'rgb(59, 130, 246)',
+        borderWidth: 1.5,
+        pointRadius: 0,
+        yAxisID: 'y',
+      },
+      {
+        label: 'Risk-Free Rate (annual)',
+        data: path.map(point => ({ x: point.index + 1, y: point.riskFreeRate })),
+        borderColor: 'rgb(234, 179, 8)',
+        backgroundColor: 'rgb(234, 179, 8)',
+        borderWidth: 1.5,
+        borderDash: [4, 4],
+        pointRadius: 0,
+        stepped: true,
+        yAxisID: 'rate',
+      },
+    ],
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: true,
+      },
+      tooltip: {
+        callbacks: {
+          title: (items: { parsed: { x: number } }[]) => getPeriodLabel(series, (items[0]?.parsed.x ?? 1) - 1),
+          label: (context: { dataset: { label?: string }; parsed: { y: number } }) =>
+            `${context.dataset.label}: ${context.parsed.y.toFixed(2)}%`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        title: {
+          display: true,
+          text: dated ? 'Date' : 'Period',
+        },
+        ticks: {
+          callback: (value: number | string) =>
+            Number.isInteger(Number(value)) ? getPeriodLabel(series, Number(value) - 1) : '',
+        },
+      },
+      y: {
+        position: 'left' as const,
+        title: {
+          display: true,
+          text: 'Cumulative (%)',
+        },
+      },
+      rate: {
+        position: 'right' as const,
+        grid: {
+          drawOnChartArea: false,
+        },
+        title: {
+          display: true,
+          text: 'Risk-Free Yield (%)',
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+        <div className="rounded-md border p-3">
+          <div className="text-muted-foreground">Risk-Free Yield Range</div>
+          <div className="font-medium">{lowest.toFixed(2)}% – {highest.toFixed(2)}%</div>
+        </div>
+        <div className="rounded-md border p-3">
+          <div className="text-muted-foreground">Average Yield</div>
+          <div className="font-medium">{params.riskFreeRate.toFixed(2)}%</div>
+        </div>
+        <div className="rounded-md border p-3">
+          <div className="text-muted-foreground">Cumulative Excess Return</div>
+          <div className="font-medium">{last ? formatPercent(last.cumulativeExcess, 2) : '—'}</div>
+        </div>
+      </div>
+      <div className="h-[320px] bg-white p-4 rounded-md shadow-subtle">
+        <Line data={chartData} options={chartOptions} />
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Each return is measured against the yield in force on its date, converted to a per-period rate.
+        Cumulative excess return is the strategy's growth relative to rolling the risk-free asset.
+      </p>
+    </div>
+  );
+};
+
+export default RiskFreeChart;
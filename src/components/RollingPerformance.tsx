@@ -0,0 +1,184 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { CalculationParams, formatNumber, formatPercent } from '@/utils/calculationUtils';
+import { DEFAULT_ROLLING_WINDOWS, calculateRollingMetrics } from '@/utils/rollingUtils';
+import { ReturnsSeries, getPeriodLabel, hasTimestamps } from '@/utils/seriesUtils';
+
+// Register Chart.js components
+ChartJS.register(
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+type RollingMetric = 'sharpe' | 'sortino' | 'volatility';
+
+const METRIC_LABELS: Record<RollingMetric, string> = {
+  sharpe: 'Sharpe Ratio',
+  sortino: 'Sortino Ratio',
+  volatility: 'Volatility (annualized)',
+};
+
+// One colour per default window, shortest to longest
+const WINDOW_COLORS = ['rgb(59, 130, 246)', 'rgb(34, 197, 94)', 'rgb(234, 179, 8)', 'rgb(239, 68, 68)'];
+
+interface RollingPerformanceProps {
+  series: ReturnsSeries;
+  params: CalculationParams;
+}
+
+const RollingPerformance: React.FC<RollingPerformanceProps> = ({ series, params }) => {
+  const returnValues = series.values;
+  const dated = hasTimestamps(series);
+  const [selectedWindows, setSelectedWindows] = useState<number[]>(
+    DEFAULT_ROLLING_WINDOWS.filter(w => w <= returnValues.length)
+  );
+  const [step, setStep] = useState<string>('1');
+  const [metric, setMetric] = useState<RollingMetric>('sharpe');
+
+  const rollingSeries = useMemo(
+    () => calculateRollingMetrics(returnValues, params, {
+      windows: selectedWindows,
+      step: parseInt(step),
+    }),
+    [returnValues, params, selectedWindows, step]
+  );
+
+  const toggleWindow = (window: number) => {
+    setSelectedWindows(prev =>
+      prev.includes(window)
+        ? prev.filter(w => w !== window)
+        : [...prev, window].sort((a, b) => a - b)
+    );
+  };
+
+  const chartData = {
+    datasets: rollingSeries.map(series => {
+      const color = WINDOW_COLORS[DEFAULT_ROLLING_WINDOWS.indexOf(series.window)] ?? 'rgb(100, 116, 139)';
+      return {
+        label: `${series.window}-period`,
+        data: series.points.map(point => ({ x: point.index + 1, y: point[metric] })),
+        borderColor: color,
+        backgroundColor: color,
+        borderWidth: 1.5,
+        pointRadius: 0,
+      };
+    }),
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: true,
+      },
+      tooltip: {
+        callbacks: {
+          title: (items: { parsed: { x: number } }[]) => getPeriodLabel(series, (items[0]?.parsed.x ?? 1) - 1),
+          label: (context: { dataset: { label?: string }; parsed: { y: number } }) =>
+            `${context.dataset.label}: ${metric === 'volatility'
+              ? formatPercent(context.parsed.y)
+              : formatNumber(context.parsed.y, 2)}`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        title: {
+          display: true,
+          text: dated ? 'Window End Date' : 'Period',
+        },
+        ticks: {
+          callback: (value: number | string) =>
+            Number.isInteger(Number(value)) ? getPeriodLabel(series, Number(value) - 1) : '',
+        },
+      },
+      y: {
+        title: {
+          display: true,
+          text: METRIC_LABELS[metric],
+        },
+      },
+    },
+  };
+
+  const hasPoints = rollingSeries.some(series => series.points.length > 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label>Windows (periods)</Label>
+          <div className="flex gap-2">
+            {DEFAULT_ROLLING_WINDOWS.map(window => (
+              <Button
+                key={window}
+                variant={selectedWindows.includes(window) ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => toggleWindow(window)}
+                disabled={window > returnValues.length}
+              >
+                {window}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rolling-step">Step</Label>
+          <Select value={step} onValueChange={setStep}>
+            <SelectTrigger id="rolling-step" className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {['1', '5', '21'].map(value => (
+                <SelectItem key={value} value={value}>{value} period{value === '1' ? '' : 's'}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rolling-metric">Metric</Label>
+          <Select value={metric} onValueChange={(value) => setMetric(value as RollingMetric)}>
+            <SelectTrigger id="rolling-metric" className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(METRIC_LABELS) as RollingMetric[]).map(key => (
+                <SelectItem key={key} value={key}>{METRIC_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {hasPoints ? (
+        <div className="h-[300px] bg-white p-4 rounded-md shadow-subtle">
+          <Line data={chartData} options={chartOptions} />
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Not enough data points for the selected windows. The shortest window needs {DEFAULT_ROLLING_WINDOWS[0]} periods.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RollingPerformance;
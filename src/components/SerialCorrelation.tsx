@@ -0,0 +1,124 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { formatNumber } from '@/utils/calculationUtils';
+import { SerialCorrelationResult } from '@/utils/serialCorrelationUtils';
+
+// Register Chart.js components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface SerialCorrelationProps {
+  serialCorrelation: SerialCorrelationResult;
+}
+
+const SerialCorrelation: React.FC<SerialCorrelationProps> = ({ serialCorrelation }) => {
+  const { confidenceBound } = serialCorrelation;
+
+  // Bars outside the ±1.96/√n band are highlighted
+  const prepareCorrelogramData = (values: number[], label: string) => ({
+    labels: values.map((_, i) => String(i + 1)),
+    datasets: [
+      {
+        label,
+        data: values,
+        backgroundColor: values.map(v =>
+          Math.abs(v) > confidenceBound ? 'rgba(239, 68, 68, 0.7)' : 'rgba(59, 130, 246, 0.6)'),
+        borderWidth: 0,
+      },
+    ],
+  });
+
+  const correlogramOptions = (title: string) => ({
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: false,
+      },
+      title: {
+        display: true,
+        text: title,
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: { raw: unknown }) => `${formatNumber(context.raw as number, 3)}`,
+        },
+      },
+    },
+    scales: {
+      y: {
+        min: -1,
+        max: 1,
+      },
+      x: {
+        title: {
+          display: true,
+          text: 'Lag',
+        },
+      },
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="h-[220px] bg-white p-4 rounded-md shadow-subtle">
+          <Bar
+            data={prepareCorrelogramData(serialCorrelation.acf, 'ACF')}
+            options={correlogramOptions('Autocorrelation (ACF)')}
+          />
+        </div>
+        <div className="h-[220px] bg-white p-4 rounded-md shadow-subtle">
+          <Bar
+            data={prepareCorrelogramData(serialCorrelation.pacf, 'PACF')}
+            options={correlogramOptions('Partial Autocorrelation (PACF)')}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Red bars fall outside the ±{formatNumber(confidenceBound, 3)} band (95% bound for white noise).
+      </p>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Ljung-Box Test</TableHead>
+            <TableHead className="text-right">Q Statistic</TableHead>
+            <TableHead className="text-right">p-value</TableHead>
+            <TableHead className="text-right">Serial Correlation at 5%</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {serialCorrelation.ljungBox.map(test => (
+            <TableRow key={test.lag}>
+              <TableCell>Lags 1–{test.lag}</TableCell>
+              <TableCell className="text-right font-medium">{formatNumber(test.statistic, 2)}</TableCell>
+              <TableCell className="text-right font-medium">{formatNumber(test.pValue, 4)}</TableCell>
+              <TableCell className={`text-right ${test.pValue < 0.05 ? 'text-destructive' : ''}`}>
+                {test.pValue < 0.05 ? 'Yes' : 'No'}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default SerialCorrelation;
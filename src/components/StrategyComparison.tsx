@@ -0,0 +1,183 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { formatNumber, formatPercent } from '@/utils/calculationUtils';
+import { ComparisonResult } from '@/utils/comparisonUtils';
+import { formatDate } from '@/utils/seriesUtils';
+
+// Register Chart.js components
+ChartJS.register(
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface StrategyComparisonProps {
+  comparison: ComparisonResult;
+}
+
+const LINE_COLORS = [
+  'rgb(59, 130, 246)',
+  'rgb(234, 88, 12)',
+  'rgb(22, 163, 74)',
+  'rgb(147, 51, 234)',
+  'rgb(219, 39, 119)',
+  'rgb(14, 165, 233)',
+  'rgb(202, 138, 4)',
+  'rgb(100, 116, 139)',
+];
+
+const formatPValue = (p: number): string => (p < 0.001 ? '< 0.001' : p.toFixed(3));
+
+const StrategyComparison: React.FC<StrategyComparisonProps> = ({ comparison }) => {
+  const { timestamps, strategies, tests, confidence } = comparison;
+  // Equity point k sits after the k-th return; point 0 is the start
+  const pointLabel = (index: number): string => (index === 0 ? 'Start' : formatDate(timestamps[index - 1]));
+
+  const chartData = {
+    datasets: strategies.map((strategy, i) => ({
+      label: strategy.name,
+      data: strategy.equityCurve.map((value, index) => ({ x: index, y: value })),
+      borderColor: LINE_COLORS[i % LINE_COLORS.length],
+      backgroundColor: LINE_COLORS[i % LINE_COLORS.length],
+      borderWidth: 1.5,
+      pointRadius: 0,
+    })),
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      mode: 'index' as const,
+      intersect: false,
+    },
+    plugins: {
+      legend: {
+        display: true,
+      },
+      tooltip: {
+        callbacks: {
+          title: (items: { parsed: { x: number } }[]) => pointLabel(items[0]?.parsed.x ?? 0),
+          label: (context: { dataset: { label?: string }; parsed: { y: number } }) =>
+            `${context.dataset.label}: ${context.parsed.y.toFixed(3)}`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        title: {
+          display: true,
+          text: 'Date',
+        },
+        ticks: {
+          callback: (value: number | string) =>
+            Number.isInteger(Number(value)) ? pointLabel(Number(value)) : '',
+        },
+      },
+      y: {
+        title: {
+          display: true,
+          text: 'Growth of 1',
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        {timestamps.length} dates shared by all {strategies.length} series,
+        {' '}{formatDate(timestamps[0])} to {formatDate(timestamps[timestamps.length - 1])}. Dates missing from any
+        series are left out of every series.
+      </p>
+
+      <div className="h-[350px] bg-white p-4 rounded-md shadow-subtle">
+        <Line data={chartData} options={chartOptions} />
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Series</TableHead>
+            <TableHead className="text-right">Sharpe</TableHead>
+            <TableHead className="text-right">Annualized Return</TableHead>
+            <TableHead className="text-right">Volatility</TableHead>
+            <TableHead className="text-right">Max Drawdown</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {strategies.map(strategy => (
+            <TableRow key={strategy.name}>
+              <TableCell className="font-medium">{strategy.name}</TableCell>
+              <TableCell className="text-right">{formatNumber(strategy.sharpeRatio, 2)}</TableCell>
+              <TableCell className="text-right">{formatPercent(strategy.annualizedReturn, 2)}</TableCell>
+              <TableCell className="text-right">{formatPercent(strategy.volatility, 2)}</TableCell>
+              <TableCell className="text-right">{formatPercent(strategy.maxDrawdown, 2)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div className="space-y-2">
+        <h3 className="text-base font-semibold">Sharpe Ratio Difference Tests</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Pair</TableHead>
+              <TableHead className="text-right">Difference</TableHead>
+              <TableHead className="text-right">Correlation</TableHead>
+              <TableHead className="text-right">JK-Memmel z</TableHead>
+              <TableHead className="text-right">JK-Memmel p</TableHead>
+              <TableHead className="text-right">Bootstrap p</TableHead>
+              <TableHead className="text-right">{Math.round(confidence * 100)}% Interval</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tests.map(test => {
+              const significant = test.jkmPValue < 1 - confidence && test.bootstrapPValue < 1 - confidence;
+              return (
+                <TableRow key={`${test.first}-${test.second}`}>
+                  <TableCell className="font-medium">
+                    {strategies[test.first].name} vs {strategies[test.second].name}
+                  </TableCell>
+                  <TableCell className={`text-right ${significant ? 'font-semibold text-primary' : ''}`}>
+                    {formatNumber(test.difference, 2)}
+                  </TableCell>
+                  <TableCell className="text-right">{formatNumber(test.correlation, 2)}</TableCell>
+                  <TableCell className="text-right">{formatNumber(test.jkmStatistic, 2)}</TableCell>
+                  <TableCell className="text-right">{formatPValue(test.jkmPValue)}</TableCell>
+                  <TableCell className="text-right">{formatPValue(test.bootstrapPValue)}</TableCell>
+                  <TableCell className="text-right">
+                    {formatNumber(test.bootstrapInterval.lower, 2)} to {formatNumber(test.bootstrapInterval.upper, 2)}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+        <p className="text-sm text-muted-foreground">
+          Differences are in annualized Sharpe. The Jobson-Korkie test with Memmel's correction assumes normal,
+          serially independent returns; the bootstrap resamples both series on the same dates and makes no
+          distributional assumption. Differences significant at the {Math.round((1 - confidence) * 100)}% level in
+          both tests are highlighted. With many pairs, some will look significant by chance.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default StrategyComparison;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatPercent } from '@/utils/calculationUtils';
+import { TAIL_RISK_METHOD_LABELS, TailRiskLevel, TailRiskMethod } from '@/utils/tailRiskUtils';
+
+interface TailRiskCardProps {
+  tailRisk: TailRiskLevel[];
+}
+
+const TailRiskCard: React.FC<TailRiskCardProps> = ({ tailRisk }) => {
+  return (
+    <Card className="overflow-hidden border-t-4 border-t-destructive shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">Tail Risk</CardTitle>
+        <CardDescription>
+          Per-period Value-at-Risk and Expected Shortfall (CVaR), shown as returns
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Method</TableHead>
+              {tailRisk.map(level => (
+                <React.Fragment key={level.confidence}>
+                  <TableHead className="text-right">VaR {formatPercent(level.confidence, 0)}</TableHead>
+                  <TableHead className="text-right">CVaR {formatPercent(level.confidence, 0)}</TableHead>
+                </React.Fragment>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {(Object.keys(TAIL_RISK_METHOD_LABELS) as TailRiskMethod[]).map(method => (
+              <TableRow key={method}>
+                <TableCell>{TAIL_RISK_METHOD_LABELS[method]}</TableCell>
+                {tailRisk.map(level => (
+                  <React.Fragment key={level.confidence}>
+                    <TableCell className="text-right font-medium text-destructive">
+                      {formatPercent(level[method].valueAtRisk, 2)}
+                    </TableCell>
+                    <TableCell className="text-right font-medium text-destructive">
+                      {formatPercent(level[method].expectedShortfall, 2)}
+                    </TableCell>
+                  </React.Fragment>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TailRiskCard;
@@ -0,0 +1,161 @@
+import React, { useMemo } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { formatNumber, formatPercent } from '@/utils/calculationUtils';
+import { Trade, TradeStats } from '@/utils/tradeUtils';
+import { formatDate } from '@/utils/seriesUtils';
+
+// Register Chart.js components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface TradeStatisticsProps {
+  stats: TradeStats;
+  trades: Trade[];
+}
+
+const formatMoney = (value: number): string =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const TradeStatistics: React.FC<TradeStatisticsProps> = ({ stats, trades }) => {
+  // Trades in the order they were closed
+  const ordered = useMemo(
+    () => [...trades].sort((a, b) => a.exitTime - b.exitTime || a.sourceRow - b.sourceRow),
+    [trades]
+  );
+
+  const chartData = {
+    labels: ordered.map((_, i) => String(i + 1)),
+    datasets: [
+      {
+        label: 'Trade PnL',
+        data: ordered.map(trade => trade.pnl),
+        backgroundColor: ordered.map(trade => trade.pnl < 0 ? 'rgba(239, 68, 68, 0.7)' : 'rgba(34, 197, 94, 0.7)'),
+      },
+    ],
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: false,
+      },
+      tooltip: {
+        callbacks: {
+          title: (items: { dataIndex: number }[]) => {
+            const trade = ordered[items[0]?.dataIndex ?? 0];
+            return trade ? `${trade.symbol || 'Trade'} · closed ${formatDate(trade.exitTime)} · row ${trade.sourceRow}` : '';
+          },
+          label: (context: { parsed: { y: number } }) => formatMoney(context.parsed.y),
+        },
+      },
+    },
+    scales: {
+      x: {
+        title: {
+          display: true,
+          text: 'Trade (in order closed)',
+        },
+      },
+      y: {
+        title: {
+          display: true,
+          text: 'Realized PnL ($)',
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Metric</TableHead>
+            <TableHead className="text-right">Value</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          <TableRow>
+            <TableCell>Trades (wins / losses)</TableCell>
+            <TableCell className="text-right font-medium">
+              {stats.totalTrades} ({stats.winningTrades} / {stats.losingTrades})
+            </TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Win Rate</TableCell>
+            <TableCell className="text-right font-medium">{formatPercent(stats.winRate, 1)}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Profit Factor</TableCell>
+            <TableCell className="text-right font-medium">
+              {stats.profitFactor === null ? 'N/A' : formatNumber(stats.profitFactor, 2)}
+            </TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Average Win / Average Loss</TableCell>
+            <TableCell className="text-right font-medium">
+              {formatMoney(stats.averageWin)} / {formatMoney(stats.averageLoss)}
+            </TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Payoff Ratio</TableCell>
+            <TableCell className="text-right font-medium">
+              {stats.payoffRatio === null ? 'N/A' : formatNumber(stats.payoffRatio, 2)}
+            </TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Expectancy (per trade)</TableCell>
+            <TableCell className="text-right font-medium">{formatMoney(stats.expectancy)}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Longest Winning / Losing Streak</TableCell>
+            <TableCell className="text-right font-medium">
+              {stats.longestWinningStreak} / {stats.longestLosingStreak} trades
+            </TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Gross Profit / Gross Loss</TableCell>
+            <TableCell className="text-right font-medium">
+              {formatMoney(stats.grossProfit)} / {formatMoney(stats.grossLoss)}
+            </TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Total Fees</TableCell>
+            <TableCell className="text-right font-medium">{formatMoney(stats.totalFees)}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Net PnL ({stats.symbols} {stats.symbols === 1 ? 'symbol' : 'symbols'})</TableCell>
+            <TableCell className="text-right font-medium">{formatMoney(stats.netPnl)}</TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+
+      <div className="h-[300px] bg-white p-4 rounded-md shadow-subtle">
+        <Bar data={chartData} options={chartOptions} />
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Realized PnL per trade after fees. The ratio analysis runs on these trades summed by exit date.
+      </p>
+    </div>
+  );
+};
+
+export default TradeStatistics;
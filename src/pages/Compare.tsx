@@ -0,0 +1,332 @@
+import React, { useRef, useState } from 'react';
+import Header from '@/components/Header';
+import StrategyComparison from '@/components/StrategyComparison';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Calculator, RefreshCw, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  ParsedData,
+  detectDateColumn,
+  extractReturnsSeries,
+  getFirstRowNumber,
+  parseFile,
+  resolveColumnFormat,
+  validateFileType,
+} from '@/utils/fileUtils';
+import { findNumericColumns, resolveDataFormat } from '@/utils/batchUtils';
+import {
+  ComparisonInput,
+  ComparisonResult,
+  DEFAULT_COMPARISON_OPTIONS,
+  compareStrategies,
+} from '@/utils/comparisonUtils';
+import { detectSamplingFrequency } from '@/utils/seriesUtils';
+
+// A numeric column of an uploaded file that can be compared
+type Candidate = {
+  id: string;
+  name: string;
+  data: ParsedData;
+  columnIndex: number;
+  dateColumnIndex: number;
+};
+
+const Compare = () => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [dataFormat, setDataFormat] = useState<string>('auto');
+  const [riskFreeRate, setRiskFreeRate] = useState<string>('0');
+  const [tradingPeriods, setTradingPeriods] = useState<string>('252');
+  const [portfolioValue, setPortfolioValue] = useState<string>('1000000');
+  const [resamples, setResamples] = useState<string>(String(DEFAULT_COMPARISON_OPTIONS.resamples));
+  const [blockLength, setBlockLength] = useState<string>(String(DEFAULT_COMPARISON_OPTIONS.blockLength));
+  const [comparison, setComparison] = useState<ComparisonResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Every numeric column of each file becomes a candidate; files without a date column cannot be aligned
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsLoading(true);
+    const added: Candidate[] = [];
+    for (const file of files) {
+      if (!validateFileType(file)) {
+        toast.error(`${file.name}: unsupported file type. Please upload CSV, Excel, or TSV files.`);
+        continue;
+      }
+      try {
+        const data = await parseFile(file);
+        if (!data) continue;
+        const dateColumnIndex = detectDateColumn(data);
+        if (dateColumnIndex === -1) {
+          toast.error(`${file.name}: no date column found, so its rows cannot be aligned with other series`);
+          continue;
+        }
+        findNumericColumns(data, [dateColumnIndex]).forEach(columnIndex => {
+          const column = data.headers[columnIndex] || `Column ${columnIndex + 1}`;
+          added.push({
+            id: `${file.name}:${data.sheetName ?? ''}:${columnIndex}`,
+            name: `${file.name} · ${column}`,
+            data,
+            columnIndex,
+            dateColumnIndex,
+          });
+        });
+      } catch (error) {
+        console.error('Error handling file:', error);
+        toast.error(`Failed to process ${file.name}. Please try again.`);
+      }
+    }
+    setIsLoading(false);
+    if (added.length === 0) return;
+
+    const ids = new Set(added.map(candidate => candidate.id));
+    setCandidates(previous => [...previous.filter(candidate => !ids.has(candidate.id)), ...added]);
+    setSelected(previous => [...previous.filter(id => !ids.has(id)), ...added.map(candidate => candidate.id)]);
+    setComparison(null);
+
+    // Suggest an annualization factor from the first new file's dates
+    const first = added[0];
+    const detection = detectSamplingFrequency(extractReturnsSeries(
+      first.data.rows, first.columnIndex, 'auto', first.dateColumnIndex
+    ).series.timestamps);
+    if (detection.periodsPerYear && candidates.length === 0) {
+      setTradingPeriods(String(detection.periodsPerYear));
+    }
+  };
+
+  const toggleCandidate = (id: string) => {
+    setSelected(previous => (previous.includes(id) ? previous.filter(item => item !== id) : [...previous, id]));
+  };
+
+  const handleReset = () => {
+    setCandidates([]);
+    setSelected([]);
+    setComparison(null);
+  };
+
+  const handleCompare = () => {
+    const chosen = candidates.filter(candidate => selected.includes(candidate.id));
+    if (chosen.length < 2) {
+      toast.error('Select at least two series to compare');
+      return;
+    }
+    const periods = parseFloat(tradingPeriods);
+    if (isNaN(periods) || periods <= 0) {
+      toast.error('Please enter a valid number of periods per year');
+      return;
+    }
+
+    const inputs = chosen.map((candidate): ComparisonInput => {
+      const firstRowNumber = getFirstRowNumber(candidate.data);
+      const format = resolveColumnFormat(candidate.data.columnTypes?.[candidate.columnIndex], dataFormat);
+      const { series, detectedFormat } = extractReturnsSeries(
+        candidate.data.rows,
+        candidate.columnIndex,
+        format,
+        candidate.dateColumnIndex,
+        candidate.data.rows.map((_, i) => firstRowNumber + i)
+      );
+      return {
+        name: candidate.name,
+        series,
+        dataFormat: resolveDataFormat(detectedFormat, format, 'simple', series.values).dataFormat,
+      };
+    });
+
+    try {
+      setComparison(compareStrategies(
+        inputs,
+        {
+          riskFreeRate: parseFloat(riskFreeRate) || 0,
+          tradingPeriods: periods,
+          portfolioValue: parseFloat(portfolioValue) || 1000000,
+        },
+        {
+          ...DEFAULT_COMPARISON_OPTIONS,
+          resamples: Math.max(100, parseInt(resamples) || DEFAULT_COMPARISON_OPTIONS.resamples),
+          blockLength: Math.max(1, parseInt(blockLength) || 1),
+        }
+      ));
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <Header />
+
+      <main className="flex-1 container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+        <div className="max-w-2xl mx-auto mb-10 text-center animate-fade-in">
+          <h1 className="text-4xl font-bold tracking-tight mb-4">
+            Compare Strategies
+          </h1>
+          <p className="text-lg text-muted-foreground">
+            Upload two or more dated return series to line them up by date, overlay their equity curves and test
+            whether their Sharpe ratios differ significantly.
+          </p>
+        </div>
+
+        <div className="max-w-4xl mx-auto space-y-6">
+          <Card className="shadow-sm">
+            <CardHeader className="pb-4">
+              <CardTitle className="flex items-center justify-between">
+                <span>Series</span>
+                {candidates.length > 0 && (
+                  <Button variant="ghost" size="sm" onClick={handleReset} className="flex items-center gap-1">
+                    <RefreshCw className="h-4 w-4" />
+                    <span>Start Over</span>
+                  </Button>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex items-center gap-2">
+                <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isLoading}>
+                  <Upload className="h-4 w-4 mr-1" />
+                  {isLoading ? 'Reading files...' : candidates.length > 0 ? 'Add files' : 'Choose files'}
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  CSV, Excel or TSV files with a date column
+                </span>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.xlsx,.xls,.tsv"
+                  multiple
+                  className="hidden"
+                  onChange={handleFiles}
+                />
+              </div>
+
+              {candidates.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Series to compare ({selected.length} selected)</Label>
+                  <div className="space-y-1">
+                    {candidates.map(candidate => (
+                      <label key={candidate.id} className="flex items-center space-x-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={selected.includes(candidate.id)}
+                          onChange={() => toggleCandidate(candidate.id)}
+                          className="h-4 w-4 text-primary"
+                        />
+                        <span>{candidate.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="compare-format">Data Format</Label>
+                  <Select value={dataFormat} onValueChange={setDataFormat}>
+                    <SelectTrigger id="compare-format">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Auto-detect per series</SelectItem>
+                      <SelectItem value="percent">Percent (5 = 5%)</SelectItem>
+                      <SelectItem value="decimal">Decimal (0.05 = 5%)</SelectItem>
+                      <SelectItem value="absolute">Absolute PnL</SelectItem>
+                      <SelectItem value="log">Log returns</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="compare-risk-free">Annual Risk-Free Rate (%)</Label>
+                  <Input
+                    id="compare-risk-free"
+                    type="number"
+                    step="0.01"
+                    value={riskFreeRate}
+                    onChange={(e) => setRiskFreeRate(e.target.value)}
+                    className="input-number-clean"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="compare-periods">Periods per Year</Label>
+                  <Input
+                    id="compare-periods"
+                    type="number"
+                    value={tradingPeriods}
+                    onChange={(e) => setTradingPeriods(e.target.value)}
+                    className="input-number-clean"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="compare-portfolio">Portfolio Value (for absolute PnL)</Label>
+                  <Input
+                    id="compare-portfolio"
+                    type="number"
+                    value={portfolioValue}
+                    onChange={(e) => setPortfolioValue(e.target.value)}
+                    className="input-number-clean"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="compare-resamples">Bootstrap Resamples</Label>
+                  <Input
+                    id="compare-resamples"
+                    type="number"
+                    min="100"
+                    value={resamples}
+                    onChange={(e) => setResamples(e.target.value)}
+                    className="input-number-clean"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="compare-block">Bootstrap Block Length</Label>
+                  <Input
+                    id="compare-block"
+                    type="number"
+                    min="1"
+                    value={blockLength}
+                    onChange={(e) => setBlockLength(e.target.value)}
+                    className="input-number-clean"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Above 1, consecutive periods are resampled together to keep autocorrelation.
+                  </p>
+                </div>
+              </div>
+
+              <Button onClick={handleCompare} disabled={selected.length < 2} className="w-full">
+                <Calculator className="h-4 w-4 mr-2" />
+                Compare {selected.length} Series
+              </Button>
+            </CardContent>
+          </Card>
+
+          {comparison && (
+            <Card className="shadow-sm animate-fade-up">
+              <CardHeader className="pb-4">
+                <CardTitle>Comparison</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <StrategyComparison comparison={comparison} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+      
+      <footer className="py-6 border-t bg-muted/30">
+        <div className="container mx-auto px-4 text-center text-sm text-muted-foreground">
+          Sharpe & Sortino Ratio Calculator • Professional financial analysis tool
+        </div>
+      </footer>
+    </div>
+  );
+};
+
+export default Compare;
@@ -3,14 +3,18 @@ import Header from '@/components/Header';
 import FileUpload from '@/components/FileUpload';
 import DataPreview from '@/components/DataPreview';
 import Results from '@/components/Results';
+import LeagueTable from '@/components/LeagueTable';
 import { ParsedData } from '@/utils/fileUtils';
 import { CalculationParams, CalculationResult, calculateSharpeAndSortino } from '@/utils/calculationUtils';
 import { Separator } from '@/components/ui/separator';
+import { ReturnsSeries, createReturnsSeries } from '@/utils/seriesUtils';
+import { BatchRow, BatchSkip } from '@/utils/batchUtils';
 
 // Application states
 enum AppState {
   UPLOAD = 'UPLOAD',
   PREVIEW = 'PREVIEW',
+  BATCH = 'BATCH',
   RESULTS = 'RESULTS'
 }
 
@@ -20,8 +24,11 @@ const Index = () => {
   const [appState, setAppState] = useState<AppState>(AppState.UPLOAD);
   const [parsedData, setParsedData] = useState<ParsedData | null>(null);
   const [result, setResult] = useState<CalculationResult | null>(null);
-  const [returnValues, setReturnValues] = useState<number[]>([]);
+  const [returnSeries, setReturnSeries] = useState<ReturnsSeries>(createReturnsSeries([]));
   const [dataFormat, setDataFormat] = useState<string>('auto');
+  // League table of a batch run, and the column opened from it
+  const [batch, setBatch] = useState<{ rows: BatchRow[], skipped: BatchSkip[] } | null>(null);
+  const [batchColumn, setBatchColumn] = useState<string | null>(null);
   
   // Handle file upload
   const handleDataParsed = (data: ParsedData) => {
@@ -29,28 +36,53 @@ const Index = () => {
     setAppState(AppState.PREVIEW);
   };
   
+  // Handle switching to another sheet or row range of the workbook
+  const handleDataChange = (data: ParsedData) => {
+    setParsedData(data);
+  };
+  
   // Handle calculation
-  const handleCalculate = (values: number[], params: CalculationParams, format: string) => {
+  const handleCalculate = (series: ReturnsSeries, params: CalculationParams, format: string, benchmarkValues?: number[]) => {
     // Save params for downstream features (e.g., Excel export)
     const paramsWithFormat = {
       ...params,
       dataFormat: format
     };
     
-    const calculationResult = calculateSharpeAndSortino(values, paramsWithFormat);
-    setReturnValues(values);
+    const calculationResult = calculateSharpeAndSortino(series, paramsWithFormat, benchmarkValues);
+    setReturnSeries(series);
     setResult(calculationResult);
     setDataFormat(format);
     setAppState(AppState.RESULTS);
     setCalculationParams(paramsWithFormat);
+    setBatch(null);
+    setBatchColumn(null);
+  };
+
+  // Handle a batch run over every numeric column
+  const handleCalculateBatch = (rows: BatchRow[], skipped: BatchSkip[]) => {
+    setBatch({ rows, skipped });
+    setAppState(AppState.BATCH);
+  };
+
+  // Drill down from the league table to one column's full results
+  const handleSelectBatchRow = (row: BatchRow) => {
+    setReturnSeries(row.series);
+    setResult(row.result);
+    setDataFormat(row.dataFormat);
+    setCalculationParams(row.params);
+    setBatchColumn(row.column);
+    setAppState(AppState.RESULTS);
   };
   
   // Reset and start over
   const handleReset = () => {
     setParsedData(null);
     setResult(null);
-    setReturnValues([]);
+    setReturnSeries(createReturnsSeries([]));
     setDataFormat('auto');
+    setBatch(null);
+    setBatchColumn(null);
     setAppState(AppState.UPLOAD);
   };
   
@@ -134,19 +166,34 @@ const Index = () => {
           
           {appState === AppState.PREVIEW && parsedData && (
             <DataPreview 
+              // Column choices are re-derived for each sheet and row range
+              key={`${parsedData.sheetName}:${parsedData.rowRange?.headerRow}:${parsedData.rowRange?.lastDataRow}`}
               data={parsedData} 
               onProceed={handleCalculate}
               onReset={handleReset}
+              onDataChange={handleDataChange}
+              onProceedBatch={handleCalculateBatch}
+            />
+          )}
+          
+          {appState === AppState.BATCH && batch && (
+            <LeagueTable
+              rows={batch.rows}
+              skipped={batch.skipped}
+              onSelect={handleSelectBatchRow}
+              onReset={handleReset}
             />
           )}
           
           {appState === AppState.RESULTS && result && (
             <Results 
               result={result} 
-              returnValues={returnValues}
+              series={returnSeries}
               onReset={handleReset}
               dataFormat={dataFormat}
               params={calculationParams!} // non-null since only in RESULTS state
+              title={batchColumn ?? undefined}
+              onBack={batch ? () => setAppState(AppState.BATCH) : undefined}
             />
           )}
         </div>
@@ -0,0 +1,212 @@
+// Batch analysis: every numeric column of a file run through the same parameters, ranked in a league table.
+
+import {
+  CalculationParams,
+  CalculationResult,
+  calculateSharpeAndSortino,
+} from '@/utils/calculationUtils';
+import {
+  ParsedData,
+  cleanNumericValue,
+  extractReturnsSeries,
+  isLevelFormat,
+  suggestDataFormat,
+} from '@/utils/fileUtils';
+import {
+  DEFAULT_QUALITY_OPTIONS,
+  QualityTreatment,
+  applyQualityTreatment,
+  assessDataQuality,
+  isSimpleReturnsFormat,
+} from '@/utils/dataQualityUtils';
+import { ResampleFrequency, resampleSeries } from '@/utils/resampleUtils';
+import { ReturnsSeries, hasTimestamps } from '@/utils/seriesUtils';
+
+export type BatchOptions = {
+  dataFormat: string;                 // format of untyped columns, or 'auto' to detect it per column
+  levelMethod: 'simple' | 'log';      // how price or equity levels become returns
+  dateColumnIndex: number;            // -1 for none
+  rowNumbers?: number[];              // spreadsheet row number of each data row
+  resampleFrequency: ResampleFrequency;
+  qualityTreatment: QualityTreatment; // applied to each column's flagged rows
+  madThreshold: number;
+};
+
+export type BatchRow = {
+  columnIndex: number;
+  column: string;
+  series: ReturnsSeries;
+  params: CalculationParams; // shared parameters with this column's effective data format
+  dataFormat: string;
+  result: CalculationResult;
+};
+
+export type BatchSkip = {
+  column: string;
+  reason: string;
+};
+
+export type BatchMetric = 'sharpeRatio' | 'sortinoRatio' | 'volatility' | 'maxDrawdown' | 'annualizedReturn';
+
+export const BATCH_METRIC_LABELS: Record<BatchMetric, string> = {
+  sharpeRatio: 'Sharpe',
+  sortinoRatio: 'Sortino',
+  volatility: 'Volatility',
+  maxDrawdown: 'Max Drawdown',
+  annualizedReturn: 'Annualized Return',
+};
+
+// Fewest periods a column needs, as in the single-column flow
+const MIN_PERIODS = 10;
+
+/**
+ * Columns to analyze in a batch: numeric, percent and currency columns, or mostly numeric ones without column types
+ * @param data Parsed file
+ * @param excluded Columns to leave out, e.g. the date column
+ * @returns Column indexes in sheet order
+ */
+export const findNumericColumns = (data: ParsedData, excluded: number[] = []): number[] =>
+  data.headers
+    .map((_, index) => index)
+    .filter(index => {
+      if (excluded.includes(index)) return false;
+      if (data.columnTypes) return ['numeric', 'percent', 'currency'].includes(data.columnTypes[index]);
+      const cells = data.rows.map(row => row[index]).filter(cell => cell !== '' && cell !== undefined);
+      const numbers = cells.filter(cell => cleanNumericValue(cell) !== null).length;
+      return cells.length > 0 && numbers / cells.length >= 0.8;
+    });
+
+/**
+ * A league-table metric of one analyzed column
+ * Volatility is annualized like the Sharpe ratio; max drawdown is negative, so higher is better for every metric.
+ * @param row Analyzed column
+ * @param metric Metric to read
+ */
+export const getBatchMetric = (row: BatchRow, metric: BatchMetric): number => {
+  switch (metric) {
+    case 'volatility':
+      return row.result.stdDeviation * Math.sqrt(row.params.tradingPeriods);
+    case 'maxDrawdown':
+      return row.result.drawdown.maxDrawdown;
+    default:
+      return row.result[metric];
+  }
+};
+
+/**
+ * Orders analyzed columns by a metric; values that are not numbers go last either way
+ * @param rows Analyzed columns
+ * @param metric Metric to sort by
+ * @param descending Highest first
+ */
+export const sortBatchRows = (rows: BatchRow[], metric: BatchMetric, descending: boolean = true): BatchRow[] =>
+  [...rows].sort((a, b) => {
+    const x = getBatchMetric(a, metric);
+    const y = getBatchMetric(b, metric);
+    if (isNaN(x) || isNaN(y)) return Number(isNaN(x)) - Number(isNaN(y));
+    return descending ? y - x : x - y;
+  });
+
+/**
+ * Format the engine calculates a column in, as in the single-column flow
+ * Returns derived from price or equity levels are simple (decimal) or log returns; otherwise the chosen format, or
+ * the detected one for 'auto'. Any value above 1,000 in size makes the column absolute PnL.
+ * @param detectedFormat Format reported by extractReturnsSeries
+ * @param dataFormat Format chosen by the user
+ * @param levelMethod How levels became returns
+ * @param values Extracted values
+ * @returns Effective format, and 'price' or 'equity' when the returns were derived from levels
+ */
+export const resolveDataFormat = (
+  detectedFormat: string,
+  dataFormat: string,
+  levelMethod: 'simple' | 'log',
+  values: number[]
+): { dataFormat: string, sourceFormat?: string } => {
+  if (isLevelFormat(detectedFormat)) {
+    return { dataFormat: levelMethod === 'log' ? 'log' : 'decimal', sourceFormat: detectedFormat };
+  }
+  if (Math.max(...values.map(Math.abs)) > 1000) return { dataFormat: 'absolute' };
+  return { dataFormat: dataFormat === 'auto' ? detectedFormat : dataFormat };
+};
+
+/**
+ * Analyzes each column with the same parameters
+ * Each column is extracted, checked and resampled the way the single-column flow does it. Percent and currency
+ * columns use the format their type suggests; other columns use the shared format, detected per column when it is
+ * 'auto' (see resolveDataFormat).
+ * @param data Parsed file
+ * @param columns Columns to analyze
+ * @param params Shared calculation parameters
+ * @param options Extraction options shared by every column
+ * @returns Analyzed columns in the order given, and the columns that could not be analyzed with the reason
+ */
+export const runBatchAnalysis = (
+  data: ParsedData,
+  columns: number[],
+  params: CalculationParams,
+  options: BatchOptions
+): { rows: BatchRow[], skipped: BatchSkip[] } => {
+  const rows: BatchRow[] = [];
+  const skipped: BatchSkip[] = [];
+
+  columns.forEach(columnIndex => {
+    const column = data.headers[columnIndex] || `Column ${columnIndex + 1}`;
+    // Percent and currency columns carry their own format, as when the column is picked on its own
+    const columnFormat = suggestDataFormat(data.columnTypes?.[columnIndex]) ?? options.dataFormat;
+    const { series: extracted, detectedFormat } = extractReturnsSeries(
+      data.rows,
+      columnIndex,
+      columnFormat,
+      options.dateColumnIndex,
+      options.rowNumbers,
+      { method: options.levelMethod }
+    );
+    if (extracted.values.length === 0) {
+      skipped.push({ column, reason: 'No numeric values' });
+      return;
+    }
+
+    const { dataFormat, sourceFormat } = resolveDataFormat(
+      detectedFormat, columnFormat, options.levelMethod, extracted.values
+    );
+
+    const isReturns = isSimpleReturnsFormat(detectedFormat, options.levelMethod, extracted.values);
+    let series = options.qualityTreatment === 'keep'
+      ? extracted
+      : applyQualityTreatment(
+        extracted,
+        assessDataQuality(extracted, [], { ...DEFAULT_QUALITY_OPTIONS, madThreshold: options.madThreshold, isReturns }),
+        options.qualityTreatment,
+        isReturns
+      );
+
+    if (options.resampleFrequency !== 'none') {
+      if (!hasTimestamps(series)) {
+        skipped.push({ column, reason: 'Rows without a readable date cannot be resampled' });
+        return;
+      }
+      series = resampleSeries(series, options.resampleFrequency, dataFormat);
+    }
+    if (series.values.length < MIN_PERIODS) {
+      skipped.push({ column, reason: `Only ${series.values.length} periods (minimum ${MIN_PERIODS})` });
+      return;
+    }
+
+    const columnParams: CalculationParams = { ...params, dataFormat, sourceFormat };
+    try {
+      rows.push({
+        columnIndex,
+        column,
+        series,
+        params: columnParams,
+        dataFormat,
+        result: calculateSharpeAndSortino(series, columnParams),
+      });
+    } catch (error) {
+      skipped.push({ column, reason: (error as Error).message });
+    }
+  });
+
+  return { rows, skipped };
+};
@@ -0,0 +1,178 @@
+import { ResampleFrequency, getBucketKey } from '@/utils/resampleUtils';
+import { ReturnsSeries, hasTimestamps } from '@/utils/seriesUtils';
+import { mean } from '@/utils/statsUtils';
+
+// How a benchmark from another file is matched to the returns: on exact dates, or on the most recent observations
+// when either series has no dates
+export type BenchmarkAlignment = 'date' | 'tail';
+
+export type AlignedBenchmark = {
+  values: number[];   // one benchmark return per strategy return, NaN where the benchmark has none
+  unmatched: number;  // strategy returns without a benchmark return
+  unused: number;     // benchmark returns matched to no strategy return
+};
+
+export type BenchmarkResult = {
+  beta: number;
+  alpha: number;            // Jensen's alpha, annualized (per-period alpha × trading periods)
+  trackingError: number;    // annualized standard deviation of active returns
+  informationRatio: number; // annualized mean active return / tracking error
+  upCapture: number;        // mean strategy return / mean benchmark return, periods where benchmark > 0
+  downCapture: number;      // same for periods where benchmark < 0
+  correlation: number;
+  observations: number;     // number of aligned pairs used
+  strategyReturns: number[];
+  benchmarkReturns: number[];
+};
+
+// Sample covariance (n-1)
+const covariance = (a: number[], b: number[]): number => {
+  const meanA = mean(a);
+  const meanB = mean(b);
+  return a.reduce((sum, v, i) => sum + (v - meanA) * (b[i] - meanB), 0) / (a.length - 1);
+};
+
+/**
+ * Aligns two return series on their most recent observations
+ * Pairs where either return is not a number (see alignBenchmark) are then left out.
+ * @param strategy Strategy returns
+ * @param benchmark Benchmark returns
+ * @returns Equal-length arrays holding the overlapping tail of both series
+ */
+export const alignReturnSeries = (
+  strategy: number[],
+  benchmark: number[]
+): { strategy: number[], benchmark: number[] } => {
+  const length = Math.min(strategy.length, benchmark.length);
+  const pairs = strategy
+    .slice(strategy.length - length)
+    .map((r, i) => [r, benchmark[benchmark.length - length + i]])
+    .filter(([r, b]) => !isNaN(r) && !isNaN(b));
+  return {
+    strategy: pairs.map(([r]) => r),
+    benchmark: pairs.map(([, b]) => b),
+  };
+};
+
+/**
+ * Picks the alignment for a benchmark from another file
+ * @param series Returns series
+ * @param benchmark Benchmark returns
+ */
+export const chooseBenchmarkAlignment = (series: ReturnsSeries, benchmark: ReturnsSeries): BenchmarkAlignment =>
+  hasTimestamps(series) && hasTimestamps(benchmark) ? 'date' : 'tail';
+
+/**
+ * Matches a benchmark from another file to the returns
+ * 'date' pairs returns on the same date (the first benchmark row of a repeated date), or in the same calendar period
+ * when both series were resampled, since period-end dates differ across holiday calendars. 'tail' pairs the most
+ * recent observations.
+ * @param series Returns series
+ * @param benchmark Benchmark returns
+ * @param alignment How observations are matched
+ * @param frequency Frequency both series were resampled to, if any
+ * @returns One benchmark return per strategy return, and the counts left unpaired on either side
+ */
+export const alignBenchmark = (
+  series: ReturnsSeries,
+  benchmark: ReturnsSeries,
+  alignment: BenchmarkAlignment,
+  frequency: ResampleFrequency = 'none'
+): AlignedBenchmark => {
+  const count = series.values.length;
+  // slice(-0) would keep the whole benchmark
+  if (count <= 0) {
+    return { values: [], unmatched: 0, unused: benchmark.values.length };
+  }
+  if (alignment === 'tail') {
+    const recent = benchmark.values.slice(-count);
+    return {
+      values: [...new Array(count - recent.length).fill(NaN), ...recent],
+      unmatched: count - recent.length,
+      unused: benchmark.values.length - recent.length,
+    };
+  }
+
+  const keyOf = (timestamp: number): string | number =>
+    frequency === 'none' ? timestamp : getBucketKey(timestamp, frequency);
+  const byDate = new Map<string | number, number>();
+  benchmark.timestamps.forEach((timestamp, i) => {
+    const key = keyOf(timestamp as number);
+    if (!byDate.has(key)) byDate.set(key, benchmark.values[i]);
+  });
+  const used = new Set<string | number>();
+  const values = series.timestamps.map(timestamp => {
+    const key = keyOf(timestamp as number);
+    if (!byDate.has(key)) return NaN;
+    used.add(key);
+    return byDate.get(key) as number;
+  });
+  return {
+    values,
+    unmatched: values.filter(value => isNaN(value)).length,
+    unused: benchmark.values.length - used.size,
+  };
+};
+
+/**
+ * Calculates benchmark-relative statistics for fractional returns
+ * @param strategyReturns Fractional strategy returns
+ * @param benchmarkReturns Fractional benchmark returns (aligned on the most recent observations if lengths differ; NaN
+ *   where there is none)
+ * @param periodicRiskFreeRate Per-period risk-free rate
+ * @param tradingPeriods Number of periods per year
+ * @returns Beta, alpha, tracking error, information ratio, capture ratios and correlation
+ */
+export const calculateBenchmarkMetrics = (
+  strategyReturns: number[],
+  benchmarkReturns: number[],
+  periodicRiskFreeRate: number,
+  tradingPeriods: number
+): BenchmarkResult => {
+  const { strategy, benchmark } = alignReturnSeries(strategyReturns, benchmarkReturns);
+  if (strategy.length < 2) {
+    throw new Error('At least two overlapping observations are required for benchmark metrics');
+  }
+
+  const EPSILON = 1e-12;
+
+  const benchmarkVariance = covariance(benchmark, benchmark);
+  const strategyVariance = covariance(strategy, strategy);
+  const cov = covariance(strategy, benchmark);
+  const beta = benchmarkVariance > EPSILON ? cov / benchmarkVariance : 0;
+  const correlation = benchmarkVariance > EPSILON && strategyVariance > EPSILON
+    ? cov / Math.sqrt(benchmarkVariance * strategyVariance)
+    : 0;
+
+  // Jensen's alpha: excess return not explained by beta exposure to the benchmark
+  const periodicAlpha = (mean(strategy) - periodicRiskFreeRate) - beta * (mean(benchmark) - periodicRiskFreeRate);
+  const alpha = periodicAlpha * tradingPeriods;
+
+  const activeReturns = strategy.map((r, i) => r - benchmark[i]);
+  const activeStd = Math.sqrt(covariance(activeReturns, activeReturns));
+  const trackingError = activeStd * Math.sqrt(tradingPeriods);
+  const informationRatio = activeStd > EPSILON
+    ? (mean(activeReturns) / activeStd) * Math.sqrt(tradingPeriods)
+    : 0;
+
+  const captureRatio = (predicate: (b: number) => boolean): number => {
+    const indices = benchmark.map((b, i) => (predicate(b) ? i : -1)).filter(i => i !== -1);
+    const benchmarkMean = mean(indices.map(i => benchmark[i]));
+    return indices.length > 0 && Math.abs(benchmarkMean) > EPSILON
+      ? mean(indices.map(i => strategy[i])) / benchmarkMean
+      : 0;
+  };
+
+  return {
+    beta,
+    alpha,
+    trackingError,
+    informationRatio,
+    upCapture: captureRatio(b => b > 0),
+    downCapture: captureRatio(b => b < 0),
+    correlation,
+    observations: strategy.length,
+    strategyReturns: strategy,
+    benchmarkReturns: benchmark,
+  };
+};
@@ -0,0 +1,259 @@
+import {
+  CalculationParams,
+  calculateDownsideDeviation,
+  toFractionalReturns,
+  toPeriodicRate,
+  toPeriodicRiskFreeRates,
+  toPeriodicTarget,
+  toSharpeBasis,
+  toSharpeBasisRate,
+} from '@/utils/calculationUtils';
+import { calculateMaxDrawdown } from '@/utils/drawdownUtils';
+import { mean, normalCdf, normalInverseCdf } from '@/utils/statsUtils';
+
+export type BootstrapMethod = 'iid' | 'stationary' | 'circular';
+
+export type BootstrapMetric = 'sharpe' | 'sortino' | 'mean' | 'volatility' | 'maxDrawdown';
+
+export type BootstrapOptions = {
+  method: BootstrapMethod;
+  resamples: number;
+  seed: number;
+  blockLength?: number; // mean (stationary) or fixed (circular) block length; defaults to n^(1/3)
+  confidence?: number;  // two-sided confidence level (default 0.95)
+};
+
+export type BootstrapInterval = {
+  lower: number;
+  upper: number;
+};
+
+export type BootstrapMetricResult = {
+  estimate: number;       // metric on the original sample
+  distribution: number[]; // metric on each resample, sorted ascending
+  percentile: BootstrapInterval;
+  bca: BootstrapInterval; // bias-corrected and accelerated
+};
+
+export type BootstrapResult = {
+  method: BootstrapMethod;
+  resamples: number;
+  blockLength: number;
+  confidence: number;
+  metrics: Record<BootstrapMetric, BootstrapMetricResult>;
+};
+
+export const BOOTSTRAP_METRICS: BootstrapMetric[] = ['sharpe', 'sortino', 'mean', 'volatility', 'maxDrawdown'];
+
+export const DEFAULT_BOOTSTRAP_CONFIDENCE = 0.95;
+
+/**
+ * Seeded pseudo-random number generator (mulberry32)
+ * @param seed Integer seed
+ * @returns Function returning uniform numbers in [0, 1)
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Draws one resample of the same length as the input
+ * @param returns Original sample
+ * @param method IID, stationary-block (Politis & Romano) or circular-block resampling
+ * @param blockLength Mean block length (stationary) or fixed block length (circular)
+ * @param random Uniform random source
+ */
+export const resample = (
+  returns: number[],
+  method: BootstrapMethod,
+  blockLength: number,
+  random: () => number
+): number[] => {
+  const n = returns.length;
+  const sample: number[] = new Array(n);
+  const randomIndex = () => Math.floor(random() * n);
+
+  if (method === 'iid') {
+    for (let i = 0; i < n; i++) sample[i] = returns[randomIndex()];
+    return sample;
+  }
+
+  // Block methods wrap around the end of the series
+  let index = randomIndex();
+  for (let i = 0; i < n; i++) {
+    if (i > 0) {
+      const startNewBlock = method === 'stationary'
+        ? random() < 1 / blockLength
+        : i % blockLength === 0;
+      index = startNewBlock ? randomIndex() : (index + 1) % n;
+    }
+    sample[i] = returns[index];
+  }
+  return sample;
+};
+
+// Linear-interpolated quantile of an ascending-sorted array
+const quantile = (sorted: number[], p: number): number => {
+  const position = Math.min(Math.max(p, 0), 1) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+/**
+ * Calculates the headline metrics on a fractional returns sample
+ * @param returns Fractional returns
+ * @param periodicRiskFreeRate Per-period risk-free rate, on the Sharpe basis
+ * @param targetReturn Per-period Sortino target, on the Sharpe basis
+ * @param params Calculation parameters (trading periods, Sharpe basis and whether a target was given)
+ * @param periodicRiskFreeRates Per-row risk-free rates on the Sharpe basis, paired with the returns, when the rate varies
+ */
+const calculateMetrics = (
+  returns: number[],
+  periodicRiskFreeRate: number,
+  targetReturn: number,
+  params: CalculationParams,
+  periodicRiskFreeRates: number[] | null = null
+): Record<BootstrapMetric, number> => {
+  const EPSILON = 1e-8;
+  const { tradingPeriods } = params;
+  // Ratios, mean and volatility on the chosen Sharpe basis; drawdowns always compound simple returns
+  const ratioReturns = toSharpeBasis(returns, params);
+  const m = mean(ratioReturns);
+  const std = Math.sqrt(ratioReturns.reduce((sum, r) => sum + Math.pow(r - m, 2), 0) / (ratioReturns.length - 1));
+  // A time-varying risk-free rate is subtracted row by row, and is the downside target unless one was given
+  const excessReturns = periodicRiskFreeRates ? ratioReturns.map((r, i) => r - periodicRiskFreeRates[i]) : null;
+  const excessReturn = excessReturns ? mean(excessReturns) : m - periodicRiskFreeRate;
+  const excessStd = excessReturns
+    ? Math.sqrt(excessReturns.reduce((sum, r) => sum + Math.pow(r - excessReturn, 2), 0) / (excessReturns.length - 1))
+    : std;
+  const downsideDeviation = excessReturns && params.targetReturn === undefined
+    ? calculateDownsideDeviation(excessReturns, 0)
+    : calculateDownsideDeviation(ratioReturns, targetReturn);
+  const annualizationFactor = Math.sqrt(tradingPeriods);
+  return {
+    sharpe: excessStd > EPSILON ? (excessReturn / excessStd) * annualizationFactor : 0,
+    sortino: downsideDeviation > EPSILON ? (excessReturn / downsideDeviation) * annualizationFactor : 0,
+    mean: m,
+    volatility: std * annualizationFactor,
+    maxDrawdown: calculateMaxDrawdown(returns),
+  };
+};
+
+/**
+ * Bias-corrected and accelerated interval (Efron 1987)
+ * @param sorted Bootstrap distribution, ascending
+ * @param estimate Metric on the original sample
+ * @param jackknife Leave-one-out estimates
+ * @param confidence Two-sided confidence level
+ */
+const bcaInterval = (
+  sorted: number[],
+  estimate: number,
+  jackknife: number[],
+  confidence: number
+): BootstrapInterval => {
+  const alpha = (1 - confidence) / 2;
+  const below = sorted.filter(v => v < estimate).length;
+  const ties = sorted.filter(v => v === estimate).length;
+  const proportion = (below + ties / 2) / sorted.length;
+  // A degenerate distribution cannot be bias-corrected; fall back to the percentile interval
+  if (proportion <= 0 || proportion >= 1) {
+    return { lower: quantile(sorted, alpha), upper: quantile(sorted, 1 - alpha) };
+  }
+
+  const z0 = normalInverseCdf(proportion);
+  const jackMean = mean(jackknife);
+  const sumSquares = jackknife.reduce((sum, v) => sum + Math.pow(jackMean - v, 2), 0);
+  const sumCubes = jackknife.reduce((sum, v) => sum + Math.pow(jackMean - v, 3), 0);
+  const acceleration = sumSquares > 0 ? sumCubes / (6 * Math.pow(sumSquares, 1.5)) : 0;
+
+  const adjust = (z: number) => normalCdf(z0 + (z0 + z) / (1 - acceleration * (z0 + z)));
+  return {
+    lower: quantile(sorted, adjust(normalInverseCdf(alpha))),
+    upper: quantile(sorted, adjust(normalInverseCdf(1 - alpha))),
+  };
+};
+
+/**
+ * Bootstraps Sharpe, Sortino, mean, volatility and max drawdown
+ * @param returns Returns as extracted from the file (converted the same way as calculateSharpeAndSortino)
+ * @param params Calculation parameters
+ * @param options Resampling method, number of resamples, seed, block length and confidence
+ * @returns Percentile and BCa intervals with the bootstrap distribution of each metric
+ */
+export const runBootstrap = (
+  returns: number[],
+  params: CalculationParams,
+  options: BootstrapOptions
+): BootstrapResult => {
+  const fractionalReturns = toFractionalReturns(returns, params);
+  const n = fractionalReturns.length;
+  if (n < 3) {
+    throw new Error('At least three returns are required for bootstrap intervals');
+  }
+
+  const confidence = options.confidence ?? DEFAULT_BOOTSTRAP_CONFIDENCE;
+  const blockLength = Math.max(1, Math.round(options.blockLength ?? Math.cbrt(n)));
+  const resamples = Math.max(1, Math.floor(options.resamples));
+  const periodicRiskFreeRate = toSharpeBasisRate(toPeriodicRate(params.riskFreeRate, params.tradingPeriods), params);
+  const targetReturn = toSharpeBasisRate(toPeriodicTarget(params), params);
+  const periodicRiskFreeRates = params.riskFreeRates
+    ? toPeriodicRiskFreeRates(params, n).map(rate => toSharpeBasisRate(rate, params))
+    : null;
+  // Row indexes are resampled so each return stays paired with its risk-free rate
+  const indexes = fractionalReturns.map((_, i) => i);
+  const metricsOf = (sample: number[]) => calculateMetrics(
+    sample.map(i => fractionalReturns[i]),
+    periodicRiskFreeRate,
+    targetReturn,
+    params,
+    periodicRiskFreeRates && sample.map(i => periodicRiskFreeRates[i])
+  );
+
+  const estimates = metricsOf(indexes);
+  const random = createSeededRandom(options.seed);
+  const distributions = Object.fromEntries(
+    BOOTSTRAP_METRICS.map(metric => [metric, [] as number[]])
+  ) as Record<BootstrapMetric, number[]>;
+
+  for (let b = 0; b < resamples; b++) {
+    const values = metricsOf(resample(indexes, options.method, blockLength, random));
+    BOOTSTRAP_METRICS.forEach(metric => distributions[metric].push(values[metric]));
+  }
+
+  // Leave-one-out estimates for the BCa acceleration constant
+  const jackknife = Object.fromEntries(
+    BOOTSTRAP_METRICS.map(metric => [metric, [] as number[]])
+  ) as Record<BootstrapMetric, number[]>;
+  for (let i = 0; i < n; i++) {
+    const values = metricsOf([...indexes.slice(0, i), ...indexes.slice(i + 1)]);
+    BOOTSTRAP_METRICS.forEach(metric => jackknife[metric].push(values[metric]));
+  }
+
+  const alpha = (1 - confidence) / 2;
+  const metrics = Object.fromEntries(BOOTSTRAP_METRICS.map(metric => {
+    const sorted = [...distributions[metric]].sort((a, b) => a - b);
+    return [metric, {
+      estimate: estimates[metric],
+      distribution: sorted,
+      percentile: { lower: quantile(sorted, alpha), upper: quantile(sorted, 1 - alpha) },
+      bca: bcaInterval(sorted, estimates[metric], jackknife[metric], confidence),
+    }];
+  })) as Record<BootstrapMetric, BootstrapMetricResult>;
+
+  return {
+    method: options.method,
+    resamples,
+    blockLength,
+    confidence,
+    metrics,
+  };
+};
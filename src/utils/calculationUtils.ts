@@ -1,17 +1,40 @@
+import { DrawdownRatios, DrawdownResult, calculateDrawdownRatios, calculateDrawdowns } from '@/utils/drawdownUtils';
+import { BenchmarkResult, calculateBenchmarkMetrics } from '@/utils/benchmarkUtils';
+import { ProbabilisticSharpeResult, calculateProbabilisticSharpe } from '@/utils/probabilisticSharpeUtils';
+import { SerialCorrelationResult, calculateSerialCorrelation } from '@/utils/serialCorrelationUtils';
+import { TailRiskLevel, calculateTailRisk } from '@/utils/tailRiskUtils';
+import { NormalityTest, jarqueBeraTest, shapiroWilkTest } from '@/utils/normalityUtils';
+import { mean, sampleExcessKurtosis, sampleSkewness } from '@/utils/statsUtils';
+import { PartialMomentRatios, calculatePartialMomentRatios } from '@/utils/partialMomentUtils';
+import { ResampleFrequency } from '@/utils/resampleUtils';
+import { CashFlowResult, calculateCashFlowMetrics, calculateTimeWeightedReturns } from '@/utils/cashFlowUtils';
+import { Trade, TradeStats, calculateTradeStats } from '@/utils/tradeUtils';
+import { ReturnsSeries, SeriesGap, detectGaps, hasTimestamps, toReturnsSeries } from '@/utils/seriesUtils';
+
 export type CalculationParams = {
   riskFreeRate: number;
   tradingPeriods: number;
   targetReturn?: number;
   dataFormat?: string;
   portfolioValue?: number; // Optional portfolio value for converting absolute returns to fractional
+  benchmarkSharpe?: number; // Annualized Sharpe the Probabilistic Sharpe Ratio is tested against (default 0)
+  numberOfTrials?: number;  // Strategy variants tried, for the Deflated Sharpe Ratio (default 1)
+  resampleFrequency?: ResampleFrequency; // Calendar frequency the returns were aggregated to before analysis
+  sourceFormat?: string;    // 'price' or 'equity' when the returns were derived from levels
+  sharpeReturns?: SharpeReturnBasis; // Returns Sharpe and Sortino are computed on (default 'simple')
+  riskFreeRates?: number[]; // Time-varying annual risk-free yields in percent, one per return (overrides riskFreeRate)
+  cashFlows?: number[];     // Deposits (+) and withdrawals (-) per PnL row; portfolioValue is then the starting capital
+  trades?: Trade[];         // Ledger trades the PnL was aggregated from
 };
 
+export type SharpeReturnBasis = 'simple' | 'log';
+
 export type CalculationResult = {
   sharpeRatio: number;
   sortinoRatio: number;
-  meanReturn: number;       // arithmetic mean
+  meanReturn: number;       // arithmetic mean (simple or log returns, per sharpeReturns)
   geoMean: number;          // geometric mean (CAGR base)
-  stdDeviation: number;
+  stdDeviation: number;     // on the same basis as meanReturn
   downsideDeviation: number;
   totalReturns: number;
   positiveReturns: number;
@@ -21,18 +44,44 @@ export type CalculationResult = {
   annualizedReturn: number;
   sharpeSE: number;         // Standard error of Sharpe ratio
   excessReturn: number;     // Mean return minus risk-free rate
+  skewness: number;         // Bias-adjusted sample skewness
+  excessKurtosis: number;   // Bias-adjusted sample excess kurtosis
+  jarqueBera: NormalityTest;  // Jarque-Bera normality test
+  shapiroWilk: NormalityTest; // Shapiro-Wilk normality test (Royston approximation)
+  probabilisticSharpe: ProbabilisticSharpeResult; // PSR, DSR and minimum track record length
+  serialCorrelation: SerialCorrelationResult;     // ACF/PACF, Ljung-Box and Lo (2002) adjusted Sharpe
+  drawdown: DrawdownResult; // Compounded equity curve and drawdown episodes
+  drawdownRatios: DrawdownRatios; // Calmar, Sterling, Burke, Martin and Pain ratios
+  partialMoments: PartialMomentRatios; // Omega, Kappa-3 and Upside Potential at the target return
+  tailRisk: TailRiskLevel[]; // VaR / CVaR at 95% and 99% (historical, Gaussian, Cornish-Fisher)
+  benchmark?: BenchmarkResult; // Only present when benchmark returns were supplied
+  cashFlow?: CashFlowResult;   // NAV and money-weighted return, only present when cash flows were supplied
+  tradeStats?: TradeStats;     // Win rate, profit factor etc., only present for a trade ledger
+  startDate: number | null; // First and last dates, when every observation has one
+  endDate: number | null;
+  gaps: SeriesGap[];        // Missing periods detected from the dates
 };
 
 /**
  * Converts absolute returns to fractional returns if possible
  * @param returns Absolute returns array
  * @param portfolioValue The portfolio value/capital base (if provided)
+ * @param cashFlows Deposits and withdrawals per period; when given, portfolioValue is the starting capital and
+ * returns are time-weighted against the rebuilt NAV
  * @returns Fractional returns array or original array if conversion not possible
  */
 const convertToFractionalReturns = (
   returns: number[],
-  portfolioValue?: number
+  portfolioValue?: number,
+  cashFlows?: number[]
 ): { convertedReturns: number[], wasConverted: boolean } => {
+  // With cash flows the account may start empty and be funded by the first deposit
+  if (cashFlows) {
+    const convertedReturns = calculateTimeWeightedReturns(returns, cashFlows, portfolioValue ?? 0);
+    console.log(`Converted absolute returns to time-weighted returns from starting capital ${portfolioValue} and ${cashFlows.filter(flow => flow !== 0).length} cash flows`);
+    return { convertedReturns, wasConverted: true };
+  }
+
   // If no portfolio value is provided, we can't convert
   if (!portfolioValue || portfolioValue <= 0) {
     console.log('No valid portfolio value provided for conversion to fractional returns');
@@ -47,10 +96,118 @@ const convertToFractionalReturns = (
   return { convertedReturns, wasConverted: true };
 };
 
+/**
+ * Converts an annual rate in percent to the equivalent per-period rate using the compound formula
+ * @param annualRatePercent Annual rate as a percentage (e.g. 2 for 2%)
+ * @param tradingPeriods Number of periods per year
+ * @returns Periodic rate as a fraction
+ */
+export const toPeriodicRate = (annualRatePercent: number, tradingPeriods: number): number => {
+  return Math.pow(1 + annualRatePercent / 100, 1 / tradingPeriods) - 1;
+};
+
+/**
+ * Converts a per-period rate back to an annual rate in percent (inverse of toPeriodicRate)
+ * @param periodicRate Periodic rate as a fraction
+ * @param tradingPeriods Number of periods per year
+ * @returns Annual rate as a percentage
+ */
+export const toAnnualRate = (periodicRate: number, tradingPeriods: number): number => {
+  return (Math.pow(1 + periodicRate, tradingPeriods) - 1) * 100;
+};
+
+/**
+ * Per-period target return used for downside measures
+ * @param params Calculation parameters
+ * @returns Periodic target return, or the periodic risk-free rate when no target is set
+ */
+export const toPeriodicTarget = (params: CalculationParams): number => {
+  return params.targetReturn !== undefined
+    ? toPeriodicRate(params.targetReturn, params.tradingPeriods)
+    : toPeriodicRate(params.riskFreeRate, params.tradingPeriods);
+};
+
+/**
+ * Per-period risk-free rate for every return
+ * @param params Calculation parameters
+ * @param count Number of returns
+ * @returns Each annual yield of the time-varying series converted to a periodic rate, or the constant rate repeated
+ */
+export const toPeriodicRiskFreeRates = (params: CalculationParams, count: number): number[] => {
+  if (!params.riskFreeRates) {
+    return new Array(count).fill(toPeriodicRate(params.riskFreeRate, params.tradingPeriods));
+  }
+  if (params.riskFreeRates.length !== count) {
+    throw new Error(`The risk-free series has ${params.riskFreeRates.length} rates for ${count} returns`);
+  }
+  return params.riskFreeRates.map(rate => toPeriodicRate(rate, params.tradingPeriods));
+};
+
+/**
+ * Returns the fractional returns series the engine actually calculates on
+ * (absolute PnL divided by portfolio value or time-weighted against the NAV with cash flows, log returns mapped
+ * to simple returns, everything else as-is)
+ * @param returns Returns as extracted from the file
+ * @param params Calculation parameters
+ * @returns Fractional returns array
+ */
+export const toFractionalReturns = (returns: number[], params: CalculationParams): number[] => {
+  if (params.dataFormat === 'absolute' && params.cashFlows) {
+    return calculateTimeWeightedReturns(returns, params.cashFlows, params.portfolioValue ?? 0);
+  }
+  if (params.dataFormat === 'absolute' && params.portfolioValue && params.portfolioValue > 0) {
+    return returns.map(r => r / params.portfolioValue);
+  }
+  if (params.dataFormat === 'log') {
+    return returns.map(r => Math.expm1(r));
+  }
+  return returns;
+};
+
+/**
+ * Returns the Sharpe-type ratios are computed on: simple returns, or their log equivalents ln(1 + r)
+ * @param fractionalReturns Simple fractional returns (see toFractionalReturns)
+ * @param params Calculation parameters
+ * @returns Returns on the chosen basis
+ */
+export const toSharpeBasis = (fractionalReturns: number[], params: CalculationParams): number[] => {
+  return params.sharpeReturns === 'log' ? fractionalReturns.map(r => Math.log1p(r)) : fractionalReturns;
+};
+
+/**
+ * Expresses a periodic rate (risk-free or target) on the same basis as toSharpeBasis
+ * @param periodicRate Simple periodic rate
+ * @param params Calculation parameters
+ * @returns The rate itself, or its continuously compounded equivalent for the log basis
+ */
+export const toSharpeBasisRate = (periodicRate: number, params: CalculationParams): number => {
+  return params.sharpeReturns === 'log' ? Math.log1p(periodicRate) : periodicRate;
+};
+
+/**
+ * Sample downside deviation below a target, using the (m-1) denominator
+ * @param returns Fractional returns
+ * @param target Periodic target return
+ * @returns Downside deviation (0 if no returns fall below target)
+ */
+export const calculateDownsideDeviation = (returns: number[], target: number): number => {
+  const negativeDeviations = returns
+    .filter(r => r < target)
+    .map(r => Math.pow(target - r, 2));
+  const downsideVariance = negativeDeviations.length > 0
+    ? negativeDeviations.reduce((sum, val) => sum + val, 0) / ((negativeDeviations.length - 1) || 1)
+    : 0;
+  return Math.sqrt(downsideVariance);
+};
+
 export const calculateSharpeAndSortino = (
-  returns: number[],
-  params: CalculationParams
+  input: number[] | ReturnsSeries, // Bare values, or a series with dates and source rows
+  params: CalculationParams,
+  benchmarkReturns?: number[] // Fractional benchmark returns, aligned on the most recent observations (NaN for none)
 ): CalculationResult => {
+  const series = toReturnsSeries(input);
+  const returns = series.values;
+
   // Log input parameters
   console.log('Calculation parameters:', { 
     returnCount: returns.length,
@@ -59,23 +216,28 @@ export const calculateSharpeAndSortino = (
   });
 
   // 1. Enforce fractional returns for absolute data
-  if (params.dataFormat === 'absolute' && !params.portfolioValue) {
+  if (params.dataFormat === 'absolute' && !params.portfolioValue && !params.cashFlows) {
     throw new Error('Portfolio value is required for absolute returns to calculate ratios accurately');
   }
 
   const isAbsoluteFormat = params.dataFormat === 'absolute';
-  const originalReturns = [...returns];
+  const isLogFormat = params.dataFormat === 'log';
   const { convertedReturns, wasConverted } =
-    isAbsoluteFormat && params.portfolioValue
-      ? convertToFractionalReturns(returns, params.portfolioValue)
+    isAbsoluteFormat && (params.portfolioValue || params.cashFlows)
+      ? convertToFractionalReturns(returns, params.portfolioValue, params.cashFlows)
       : { convertedReturns: returns, wasConverted: false };
 
-  if (isAbsoluteFormat && !params.portfolioValue) {
+  if (isAbsoluteFormat && !wasConverted) {
     console.log('WARNING: Using absolute dollar returns for ratio calculations. For standard financial metrics, consider converting to fractional returns.');
   }
 
-  const returnsForCalculation = convertedReturns;
+  // Log returns are converted to simple returns, exp(r) - 1, so compounding and drawdowns stay exact
+  const returnsForCalculation = isLogFormat
+    ? convertedReturns.map(r => Math.expm1(r))
+    : convertedReturns;
   Object.freeze(returnsForCalculation);
+  // Reporting keeps dollars for absolute PnL, and simple returns for everything else
+  const originalReturns = isLogFormat ? [...returnsForCalculation] : [...returns];
   console.log('Length after conversion', returnsForCalculation.length);
   console.log('First 10 returnsForCalculation', returnsForCalculation.slice(0,10));
   console.log('Arithmetic mean check', returnsForCalculation
@@ -83,27 +245,35 @@ export const calculateSharpeAndSortino = (
   
   const fractionalConverted = wasConverted;
 
-  // Convert annual risk-free rate to periodic using compound formula
-  const periodicRiskFreeRate = Math.pow(1 + params.riskFreeRate / 100, 1 / params.tradingPeriods) - 1;
-  // Target return conversion (if provided)
-  const targetReturn = params.targetReturn !== undefined 
-    ? Math.pow(1 + params.targetReturn / 100, 1 / params.tradingPeriods) - 1
-    : periodicRiskFreeRate;
+  // Convert annual risk-free rate to periodic using compound formula; a time-varying series is converted row by row
+  const hasRiskFreeSeries = params.riskFreeRates !== undefined;
+  const periodicRiskFreeRates = toPeriodicRiskFreeRates(params, returnsForCalculation.length);
+  const periodicRiskFreeRate = hasRiskFreeSeries
+    ? mean(periodicRiskFreeRates)
+    : toPeriodicRate(params.riskFreeRate, params.tradingPeriods);
+  // Target return conversion (falls back to the risk-free rate)
+  const targetReturn = toPeriodicTarget(params);
 
   // 2. Geometric mean (CAGR) for annualisation
-  // Calculate geometric mean of returns: exp(mean(log(1+r))) - 1
+  // Calculate geometric mean of returns: exp(mean(log(1+r))) - 1, using log returns directly when given
+  const logGrowth = isLogFormat ? convertedReturns : returnsForCalculation.map(r => Math.log1p(r));
   const gm = Math.exp(
-    returnsForCalculation.reduce((s, r) => s + Math.log(1 + r), 0) / returnsForCalculation.length
+    logGrowth.reduce((s, r) => s + r, 0) / logGrowth.length
   ) - 1;
   
   // 3. Annualized return using geometric mean only
   const annualizedReturn = Math.pow(1 + gm, params.tradingPeriods) - 1;
 
+  // Sharpe, Sortino and their diagnostics use simple or log returns, with rates on the same basis
+  const ratioReturns = toSharpeBasis(returnsForCalculation, params);
+  const ratioRiskFreeRate = toSharpeBasisRate(periodicRiskFreeRate, params);
+  const ratioTarget = toSharpeBasisRate(targetReturn, params);
+
   // Calculate arithmetic mean (for Sharpe/Sortino and excess return)
-  const meanReturn = returnsForCalculation.reduce((sum, val) => sum + val, 0) / returnsForCalculation.length;
+  const meanReturn = ratioReturns.reduce((sum, val) => sum + val, 0) / ratioReturns.length;
 
   // Standard deviation (sample, n-1)
-  const variance = returnsForCalculation.reduce((sum, val) => sum + Math.pow(val - meanReturn, 2), 0) / (returnsForCalculation.length - 1);
+  const variance = ratioReturns.reduce((sum, val) => sum + Math.pow(val - meanReturn, 2), 0) / (ratioReturns.length - 1);
   const stdDeviation = Math.sqrt(variance);
 
   // Log intermediate calculation values
@@ -118,22 +288,28 @@ export const calculateSharpeAndSortino = (
     annualizedReturn
   });
 
+  // Excess returns row by row against a time-varying risk-free rate, which is also the per-row Sortino target
+  // unless a fixed target was given
+  const excessReturns = ratioReturns.map((r, i) => r - toSharpeBasisRate(periodicRiskFreeRates[i], params));
+  const meanExcess = mean(excessReturns);
+  const excessStdDeviation = hasRiskFreeSeries
+    ? Math.sqrt(excessReturns.reduce((sum, val) => sum + Math.pow(val - meanExcess, 2), 0) / (excessReturns.length - 1))
+    : stdDeviation;
+  // PSR and the Lo adjustment see the excess returns when the rate varies (identical moments when it is constant)
+  const diagnosticReturns = hasRiskFreeSeries ? excessReturns : ratioReturns;
+
   // 3. Downside deviation: use (m-1) denominator, fallback to 1 if only one value
-  const negativeDeviations = returnsForCalculation
-    .filter(r => r < targetReturn)
-    .map(r => Math.pow(targetReturn - r, 2));
-  const downsideVariance = negativeDeviations.length > 0
-    ? negativeDeviations.reduce((sum, val) => sum + val, 0) / ((negativeDeviations.length - 1) || 1)
-    : 0;
-  const downsideDeviation = Math.sqrt(downsideVariance);
+  const downsideDeviation = hasRiskFreeSeries && params.targetReturn === undefined
+    ? calculateDownsideDeviation(excessReturns, 0)
+    : calculateDownsideDeviation(ratioReturns, ratioTarget);
 
   // 4. Calculate Sharpe and Sortino ratios, excess return, and Sharpe SE
-  const excessReturn = meanReturn - periodicRiskFreeRate;
+  const excessReturn = hasRiskFreeSeries ? meanExcess : meanReturn - ratioRiskFreeRate;
   const annualizationFactor = Math.sqrt(params.tradingPeriods);
   const EPSILON = 1e-8;
   let sharpeRatio = 0;
-  if (stdDeviation > EPSILON) {
-    sharpeRatio = (excessReturn / stdDeviation) * annualizationFactor;
+  if (excessStdDeviation > EPSILON) {
+    sharpeRatio = (excessReturn / excessStdDeviation) * annualizationFactor;
     if (isAbsoluteFormat && !fractionalConverted) {
       console.log('NOTE: Sharpe ratio calculated using absolute returns may not be comparable to standard benchmarks.');
     }
@@ -150,12 +326,64 @@ export const calculateSharpeAndSortino = (
     ? Math.sqrt((1 + 0.5 * Math.pow(sharpeRatio, 2)) / (returnsForCalculation.length - 1))
     : 0;
 
+  // Probabilistic and Deflated Sharpe Ratio (skew/kurtosis-aware)
+  const probabilisticSharpe = calculateProbabilisticSharpe(
+    diagnosticReturns,
+    excessReturn,
+    excessStdDeviation,
+    params.tradingPeriods,
+    params.benchmarkSharpe ?? 0,
+    params.numberOfTrials ?? 1
+  );
+
+  // Autocorrelation-adjusted annualization (Lo 2002) and serial-correlation diagnostics
+  const serialCorrelation = calculateSerialCorrelation(
+    diagnosticReturns,
+    excessStdDeviation > EPSILON ? excessReturn / excessStdDeviation : 0,
+    params.tradingPeriods
+  );
+
   // Additional statistics - use original returns for reporting
   const positiveReturns = originalReturns.filter(r => r >= 0).length;
   const negativeReturns = originalReturns.filter(r => r < 0).length;
   const minReturn = Math.min(...originalReturns);
   const maxReturn = Math.max(...originalReturns);
 
+  // Drawdowns from the compounded equity curve of the same fractional returns
+  const drawdown = calculateDrawdowns(returnsForCalculation);
+  const drawdownRatios = calculateDrawdownRatios(drawdown, annualizedReturn);
+
+  // Value-at-Risk and Expected Shortfall from the same fractional returns
+  const tailRisk = calculateTailRisk(returnsForCalculation);
+
+  // Partial-moment ratios at the same periodic target as Sortino
+  const partialMoments = calculatePartialMomentRatios(returnsForCalculation, targetReturn);
+
+  // Higher moments and normality tests
+  const skewness = sampleSkewness(returnsForCalculation);
+  const excessKurtosis = sampleExcessKurtosis(returnsForCalculation);
+  const jarqueBera = jarqueBeraTest(returnsForCalculation);
+  const shapiroWilk = shapiroWilkTest(returnsForCalculation);
+
+  // Benchmark-relative metrics (optional); a time-varying risk-free rate enters through its average
+  const benchmark = benchmarkReturns && benchmarkReturns.length > 0
+    ? calculateBenchmarkMetrics(returnsForCalculation, benchmarkReturns, periodicRiskFreeRate, params.tradingPeriods)
+    : undefined;
+
+  // NAV and money-weighted return when deposits and withdrawals were supplied with absolute PnL
+  const cashFlow = isAbsoluteFormat && params.cashFlows
+    ? calculateCashFlowMetrics(returns, params.cashFlows, params.portfolioValue ?? 0, params.tradingPeriods)
+    : undefined;
+
+  // Trade-level statistics when the PnL came from a trade ledger
+  const tradeStats = params.trades ? calculateTradeStats(params.trades) : undefined;
+
+  // Date range and gaps (dated series only)
+  const dated = hasTimestamps(series);
+  const startDate = dated ? series.timestamps[0] : null;
+  const endDate = dated ? series.timestamps[series.timestamps.length - 1] : null;
+  const gaps = detectGaps(series);
+
   // Log the final results
   console.log('Final calculation results:', {
     sharpeRatio,
@@ -171,7 +399,20 @@ export const calculateSharpeAndSortino = (
     maxReturn,
     annualizedReturn,
     sharpeSE,
-    excessReturn
+    excessReturn,
+    skewness,
+    excessKurtosis,
+    jarqueBeraPValue: jarqueBera.pValue,
+    shapiroWilkPValue: shapiroWilk.pValue,
+    psr: probabilisticSharpe.psr,
+    dsr: probabilisticSharpe.dsr,
+    loSharpeRatio: serialCorrelation.loSharpeRatio,
+    maxDrawdown: drawdown.maxDrawdown,
+    calmarRatio: drawdownRatios.calmarRatio,
+    omegaRatio: partialMoments.omegaRatio,
+    historicalVaR95: tailRisk[0].historical.valueAtRisk,
+    beta: benchmark?.beta,
+    gaps: gaps.length
   });
 
   return {
@@ -188,7 +429,23 @@ export const calculateSharpeAndSortino = (
     maxReturn,
     annualizedReturn,
     sharpeSE,
-    excessReturn
+    excessReturn,
+    skewness,
+    excessKurtosis,
+    jarqueBera,
+    shapiroWilk,
+    probabilisticSharpe,
+    serialCorrelation,
+    drawdown,
+    drawdownRatios,
+    partialMoments,
+    tailRisk,
+    benchmark,
+    cashFlow,
+    tradeStats,
+    startDate,
+    endDate,
+    gaps
   };
 };
 
@@ -0,0 +1,118 @@
+// Deposits and withdrawals for absolute PnL: rebuilt NAV, time-weighted returns and the money-weighted IRR.
+// A cash flow on a row is taken to arrive at the start of that period, so it is invested for the period's PnL.
+
+export type CashFlowResult = {
+  nav: number[];                      // NAV after each period, starting capital first
+  totalDeposits: number;
+  totalWithdrawals: number;           // positive amount
+  netProfit: number;                  // final NAV - starting capital - net flows (= total PnL)
+  moneyWeightedReturn: number | null; // annualized IRR, null when it has no solution
+  timeWeightedReturn: number;         // annualized, from chaining the period returns
+};
+
+/**
+ * Rebuilds NAV from PnL and cash flows
+ * @param pnl PnL per period
+ * @param cashFlows Deposits (+) and withdrawals (-) per period, one per PnL value
+ * @param startingCapital Capital before the first period
+ * @returns NAV after each period, with the starting capital at index 0
+ */
+export const rebuildNav = (pnl: number[], cashFlows: number[], startingCapital: number): number[] => {
+  if (cashFlows.length !== pnl.length) {
+    throw new Error(`Cash flows have ${cashFlows.length} values for ${pnl.length} PnL rows`);
+  }
+  const nav = [startingCapital];
+  pnl.forEach((value, i) => nav.push(nav[i] + cashFlows[i] + value));
+  return nav;
+};
+
+/**
+ * Time-weighted returns: each period's PnL over the capital at work, r = PnL / (NAV before + flow)
+ * @param pnl PnL per period
+ * @param cashFlows Deposits (+) and withdrawals (-) per period
+ * @param startingCapital Capital before the first period
+ * @returns One fractional return per period
+ */
+export const calculateTimeWeightedReturns = (
+  pnl: number[],
+  cashFlows: number[],
+  startingCapital: number
+): number[] => {
+  const nav = rebuildNav(pnl, cashFlows, startingCapital);
+  return pnl.map((value, i) => {
+    const capital = nav[i] + cashFlows[i];
+    if (capital <= 0) {
+      throw new Error(`Capital at work is zero or negative in period ${i + 1}; check the starting capital and cash flows`);
+    }
+    return value / capital;
+  });
+};
+
+/**
+ * Net present value of the investor's flows at a periodic rate
+ * Starting capital at time 0, each flow at the start of its period, the final NAV received at the end.
+ */
+const investorNpv = (rate: number, cashFlows: number[], startingCapital: number, finalNav: number): number => {
+  const discount = (periods: number) => Math.pow(1 + rate, -periods);
+  return -startingCapital
+    - cashFlows.reduce((sum, flow, i) => sum + flow * discount(i), 0)
+    + finalNav * discount(cashFlows.length);
+};
+
+/**
+ * Money-weighted return: the periodic IRR of the investor's flows, found by bisection
+ * @param cashFlows Deposits (+) and withdrawals (-) per period
+ * @param startingCapital Capital before the first period
+ * @param finalNav NAV after the last period
+ * @returns Periodic IRR, or null when the NPV does not change sign on (-100%, 1000%]
+ */
+export const calculateMoneyWeightedIrr = (
+  cashFlows: number[],
+  startingCapital: number,
+  finalNav: number
+): number | null => {
+  const npv = (rate: number) => investorNpv(rate, cashFlows, startingCapital, finalNav);
+  let low = -0.9999;
+  let high = 10;
+  if (npv(low) * npv(high) > 0) return null;
+
+  for (let iteration = 0; iteration < 200 && high - low > 1e-12; iteration++) {
+    const mid = (low + high) / 2;
+    if (npv(low) * npv(mid) <= 0) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return (low + high) / 2;
+};
+
+/**
+ * NAV, flow totals, and time- and money-weighted returns for PnL with deposits and withdrawals
+ * @param pnl PnL per period
+ * @param cashFlows Deposits (+) and withdrawals (-) per period
+ * @param startingCapital Capital before the first period
+ * @param tradingPeriods Number of periods per year
+ */
+export const calculateCashFlowMetrics = (
+  pnl: number[],
+  cashFlows: number[],
+  startingCapital: number,
+  tradingPeriods: number
+): CashFlowResult => {
+  const nav = rebuildNav(pnl, cashFlows, startingCapital);
+  const returns = calculateTimeWeightedReturns(pnl, cashFlows, startingCapital);
+  const growth = returns.reduce((product, r) => product * (1 + r), 1);
+  const irr = calculateMoneyWeightedIrr(cashFlows, startingCapital, nav[nav.length - 1]);
+  const totalDeposits = cashFlows.filter(flow => flow > 0).reduce((sum, flow) => sum + flow, 0);
+  const totalWithdrawals = -cashFlows.filter(flow => flow < 0).reduce((sum, flow) => sum + flow, 0);
+
+  return {
+    nav,
+    totalDeposits,
+    totalWithdrawals,
+    netProfit: nav[nav.length - 1] - startingCapital - totalDeposits + totalWithdrawals,
+    moneyWeightedReturn: irr === null ? null : Math.pow(1 + irr, tradingPeriods) - 1,
+    timeWeightedReturn: Math.pow(growth, tradingPeriods / returns.length) - 1,
+  };
+};
@@ -0,0 +1,213 @@
+// Comparison of strategies on their common dates: equity curves and tests of whether their Sharpe ratios differ.
+
+import { CalculationParams, toFractionalReturns, toPeriodicRate } from '@/utils/calculationUtils';
+import { BootstrapInterval, createSeededRandom, resample } from '@/utils/bootstrapUtils';
+import { calculateEquityCurve, calculateMaxDrawdown } from '@/utils/drawdownUtils';
+import { ReturnsSeries } from '@/utils/seriesUtils';
+import { mean, normalCdf } from '@/utils/statsUtils';
+
+export type ComparisonInput = {
+  name: string;
+  series: ReturnsSeries; // values as extracted, in dataFormat
+  dataFormat: string;    // effective format: 'decimal', 'percent' (already divided by 100), 'log' or 'absolute'
+};
+
+export type ComparisonOptions = {
+  resamples: number;   // bootstrap resamples per pair
+  seed: number;
+  blockLength: number; // circular block length; 1 resamples single periods
+};
+
+export type StrategySummary = {
+  name: string;
+  sharpeRatio: number;      // annualized, on the common dates
+  annualizedReturn: number; // geometric
+  volatility: number;       // annualized
+  maxDrawdown: number;      // negative fraction
+  equityCurve: number[];    // growth of 1, starting value first
+};
+
+export type SharpeDifferenceTest = {
+  first: number;            // index of the first strategy
+  second: number;
+  difference: number;       // annualized Sharpe of the first minus the second
+  correlation: number;      // correlation of their excess returns
+  jkmStatistic: number;     // Jobson-Korkie z with Memmel's correction
+  jkmPValue: number;        // two-sided
+  bootstrapPValue: number;  // two-sided, from the paired bootstrap
+  bootstrapInterval: BootstrapInterval; // percentile interval of the annualized difference
+};
+
+export type ComparisonResult = {
+  timestamps: number[];     // common dates
+  strategies: StrategySummary[];
+  tests: SharpeDifferenceTest[]; // every pair, in input order
+  confidence: number;
+};
+
+export const DEFAULT_COMPARISON_OPTIONS: ComparisonOptions = { resamples: 2000, seed: 42, blockLength: 1 };
+
+const COMPARISON_CONFIDENCE = 0.95;
+
+/**
+ * Aligns series on the dates they all have
+ * Rows without a date are ignored, and only the first row of a repeated date is used.
+ * @param series Series with timestamps
+ * @returns Common dates in ascending order, and each series' values on those dates
+ */
+export const alignByDate = (series: ReturnsSeries[]): { timestamps: number[], values: number[][] } => {
+  const byDate = series.map(item => {
+    const values = new Map<number, number>();
+    item.timestamps.forEach((timestamp, i) => {
+      if (timestamp !== null && !values.has(timestamp)) values.set(timestamp, item.values[i]);
+    });
+    return values;
+  });
+  const timestamps = [...(byDate[0]?.keys() ?? [])]
+    .filter(timestamp => byDate.every(values => values.has(timestamp)))
+    .sort((a, b) => a - b);
+  return { timestamps, values: byDate.map(values => timestamps.map(timestamp => values.get(timestamp) as number)) };
+};
+
+// Per-period Sharpe ratio of excess returns (sample standard deviation)
+const periodicSharpe = (excess: number[]): number => {
+  const m = mean(excess);
+  const std = Math.sqrt(excess.reduce((sum, r) => sum + (r - m) ** 2, 0) / (excess.length - 1));
+  return std > 1e-12 ? m / std : 0;
+};
+
+const correlation = (a: number[], b: number[]): number => {
+  const ma = mean(a);
+  const mb = mean(b);
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  a.forEach((x, i) => {
+    covariance += (x - ma) * (b[i] - mb);
+    varianceA += (x - ma) ** 2;
+    varianceB += (b[i] - mb) ** 2;
+  });
+  return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+};
+
+/**
+ * Jobson-Korkie test of equal Sharpe ratios with Memmel's (2003) correction
+ * Var(SR₁ - SR₂) ≈ [2 - 2ρ + ½(SR₁² + SR₂² - 2·SR₁·SR₂·ρ²)] / T for per-period Sharpe ratios, assuming normal,
+ * serially independent returns.
+ * @param excessA Excess returns of the first strategy
+ * @param excessB Excess returns of the second, on the same dates
+ * @returns z statistic and two-sided p-value
+ */
+export const jobsonKorkieMemmelTest = (excessA: number[], excessB: number[]): { statistic: number, pValue: number } => {
+  const T = excessA.length;
+  const sharpeA = periodicSharpe(excessA);
+  const sharpeB = periodicSharpe(excessB);
+  const rho = correlation(excessA, excessB);
+  const variance = (2 - 2 * rho + 0.5 * (sharpeA ** 2 + sharpeB ** 2 - 2 * sharpeA * sharpeB * rho ** 2)) / T;
+  if (!(variance > 0)) return { statistic: 0, pValue: 1 };
+  const statistic = (sharpeA - sharpeB) / Math.sqrt(variance);
+  return { statistic, pValue: 2 * (1 - normalCdf(Math.abs(statistic))) };
+};
+
+/**
+ * Paired bootstrap of the Sharpe ratio difference
+ * Both strategies are resampled on the same dates (in circular blocks), so their correlation is kept. The p-value
+ * counts resampled differences at least as far from the estimate as the estimate is from zero.
+ * @param excessA Excess returns of the first strategy
+ * @param excessB Excess returns of the second, on the same dates
+ * @param tradingPeriods Periods per year, to annualize the difference
+ * @param options Resamples, seed and block length
+ * @returns Two-sided p-value and percentile interval of the annualized difference
+ */
+export const bootstrapSharpeDifference = (
+  excessA: number[],
+  excessB: number[],
+  tradingPeriods: number,
+  options: ComparisonOptions = DEFAULT_COMPARISON_OPTIONS
+): { pValue: number, interval: BootstrapInterval } => {
+  const annualize = Math.sqrt(tradingPeriods);
+  const estimate = (periodicSharpe(excessA) - periodicSharpe(excessB)) * annualize;
+  const random = createSeededRandom(options.seed);
+  const indexes = excessA.map((_, i) => i);
+  const blockLength = Math.max(1, Math.round(options.blockLength));
+
+  const differences: number[] = [];
+  for (let b = 0; b < options.resamples; b++) {
+    const drawn = resample(indexes, blockLength > 1 ? 'circular' : 'iid', blockLength, random);
+    differences.push(
+      (periodicSharpe(drawn.map(i => excessA[i])) - periodicSharpe(drawn.map(i => excessB[i]))) * annualize
+    );
+  }
+  differences.sort((a, b) => a - b);
+
+  const extreme = differences.filter(difference => Math.abs(difference - estimate) >= Math.abs(estimate)).length;
+  const alpha = (1 - COMPARISON_CONFIDENCE) / 2;
+  const at = (p: number) => differences[Math.min(differences.length - 1, Math.max(0, Math.floor(p * differences.length)))];
+  return {
+    pValue: (extreme + 1) / (options.resamples + 1),
+    interval: { lower: at(alpha), upper: at(1 - alpha) },
+  };
+};
+
+/**
+ * Compares strategies on their common dates
+ * Values are converted to fractional returns the way the single-series analysis does (absolute PnL over the
+ * portfolio value, log returns to simple), then every pair is tested for a difference in Sharpe ratios.
+ * @param inputs Two or more strategies with dated series
+ * @param params Risk-free rate, periods per year and portfolio value shared by every strategy
+ * @param options Bootstrap settings
+ * @returns Common dates, per-strategy summary and pairwise tests
+ */
+export const compareStrategies = (
+  inputs: ComparisonInput[],
+  params: CalculationParams,
+  options: ComparisonOptions = DEFAULT_COMPARISON_OPTIONS
+): ComparisonResult => {
+  if (inputs.length < 2) {
+    throw new Error('Select at least two series to compare');
+  }
+  const { timestamps, values } = alignByDate(inputs.map(input => input.series));
+  if (timestamps.length < 10) {
+    throw new Error(`The series share only ${timestamps.length} dates (minimum 10 required)`);
+  }
+
+  const periodicRiskFree = toPeriodicRate(params.riskFreeRate, params.tradingPeriods);
+  const returns = values.map((raw, i) => toFractionalReturns(raw, { ...params, dataFormat: inputs[i].dataFormat }));
+  const excess = returns.map(series => series.map(r => r - periodicRiskFree));
+  const annualize = Math.sqrt(params.tradingPeriods);
+
+  const strategies = inputs.map((input, i): StrategySummary => {
+    const equityCurve = calculateEquityCurve(returns[i]);
+    const growth = equityCurve[equityCurve.length - 1];
+    const m = mean(returns[i]);
+    const std = Math.sqrt(returns[i].reduce((sum, r) => sum + (r - m) ** 2, 0) / (returns[i].length - 1));
+    return {
+      name: input.name,
+      sharpeRatio: periodicSharpe(excess[i]) * annualize,
+      annualizedReturn: growth > 0 ? Math.pow(growth, params.tradingPeriods / returns[i].length) - 1 : -1,
+      volatility: std * annualize,
+      maxDrawdown: calculateMaxDrawdown(returns[i]),
+      equityCurve,
+    };
+  });
+
+  const tests: SharpeDifferenceTest[] = [];
+  for (let first = 0; first < inputs.length; first++) {
+    for (let second = first + 1; second < inputs.length; second++) {
+      const jkm = jobsonKorkieMemmelTest(excess[first], excess[second]);
+      const bootstrap = bootstrapSharpeDifference(excess[first], excess[second], params.tradingPeriods, options);
+      tests.push({
+        first,
+        second,
+        difference: strategies[first].sharpeRatio - strategies[second].sharpeRatio,
+        correlation: correlation(excess[first], excess[second]),
+        jkmStatistic: jkm.statistic,
+        jkmPValue: jkm.pValue,
+        bootstrapPValue: bootstrap.pValue,
+        bootstrapInterval: bootstrap.interval,
+      });
+    }
+  }
+
+  return { timestamps, strategies, tests, confidence: COMPARISON_CONFIDENCE };
+};
@@ -0,0 +1,205 @@
+// Checks run on a column before calculation, and what to do with the observations they flag.
+
+import { cleanNumericValue, isLevelFormat } from '@/utils/fileUtils';
+import { ReturnsSeries, createReturnsSeries, detectGaps, formatDate } from '@/utils/seriesUtils';
+
+export type QualityIssueKind = 'dropped' | 'duplicateDate' | 'gap' | 'outlier' | 'stale' | 'impossibleReturn';
+
+export type QualityIssue = {
+  kind: QualityIssueKind;
+  rowNumber: number; // 1-based spreadsheet row; for gaps, the first row after the gap
+  index: number;     // observation in the series, -1 for rows that never made it into the series
+  detail: string;
+};
+
+export type DataQualityReport = {
+  issues: QualityIssue[];
+  flaggedIndexes: number[]; // observations that can be excluded: duplicates, outliers, stale and impossible values
+  bounds: { lower: number; upper: number } | null; // median ± N MADs, null when the MAD is zero
+};
+
+export type QualityOptions = {
+  madThreshold: number;  // distance from the median, in median absolute deviations, beyond which a value is an outlier
+  staleRun: number;      // identical non-zero consecutive values from which the repeats are stale
+  isReturns: boolean;    // values are simple returns in decimal form, so below -100% is impossible
+};
+
+export type QualityTreatment = 'keep' | 'exclude' | 'winsorize';
+
+export const QUALITY_ISSUE_LABELS: Record<QualityIssueKind, string> = {
+  dropped: 'Dropped rows',
+  duplicateDate: 'Duplicate dates',
+  gap: 'Calendar gaps',
+  outlier: 'Outliers',
+  stale: 'Stale values',
+  impossibleReturn: 'Returns below -100%',
+};
+
+export const QUALITY_TREATMENT_LABELS: Record<QualityTreatment, string> = {
+  keep: 'Keep flagged rows',
+  exclude: 'Exclude flagged rows',
+  winsorize: 'Winsorize to the outlier bounds',
+};
+
+export const DEFAULT_QUALITY_OPTIONS: QualityOptions = { madThreshold: 5, staleRun: 3, isReturns: false };
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * True when extracted values are simple returns in decimal form (not PnL or log returns), so none can be below -100%
+ * @param detectedFormat Format the values were extracted with
+ * @param levelMethod How price or equity levels became returns
+ * @param values Extracted values; any above 1,000 in size are PnL, as in the single-column flow
+ */
+export const isSimpleReturnsFormat = (detectedFormat: string, levelMethod: 'simple' | 'log', values: number[]): boolean =>
+  isLevelFormat(detectedFormat)
+    ? levelMethod === 'simple'
+    : ['decimal', 'percent'].includes(detectedFormat) && values.every(value => Math.abs(value) <= 1000);
+
+/**
+ * Rows of a column that hold no number, with the reason each is left out
+ * @param rows Data rows (without the header)
+ * @param columnIndex Returns/PnL column
+ * @param rowNumbers Spreadsheet row number of each row; defaults to a header row followed by the rows
+ * @returns One dropped-row issue per row
+ */
+export const findDroppedRows = (
+  rows: (string | number)[][],
+  columnIndex: number,
+  rowNumbers?: number[]
+): QualityIssue[] =>
+  rows.flatMap((row, i) => {
+    const cell = row[columnIndex];
+    if (cleanNumericValue(cell) !== null) return [];
+    const blank = cell === undefined || cell === null || String(cell).trim() === '';
+    return [{
+      kind: 'dropped' as const,
+      rowNumber: rowNumbers ? rowNumbers[i] : i + 2,
+      index: -1,
+      detail: blank ? 'Empty cell' : `Not a number: "${String(cell).trim()}"`,
+    }];
+  });
+
+/**
+ * Checks a series for duplicate dates, calendar gaps, outliers, stale values and impossible returns
+ * Repeated zeros are not stale: zero PnL or returns on flat or non-trading days are real observations.
+ * Outliers lie more than N median absolute deviations from the median, which a few extreme values cannot inflate
+ * the way they inflate a standard deviation. Gaps follow detectGaps, so weekends in daily data are not gaps.
+ * @param series Series as extracted from the column
+ * @param dropped Rows left out of the series, reported first
+ * @param options Outlier threshold, stale run length, and whether the values are returns
+ * @returns Issues in row order within each check, and the observations they flag
+ */
+export const assessDataQuality = (
+  series: ReturnsSeries,
+  dropped: QualityIssue[] = [],
+  options: QualityOptions = DEFAULT_QUALITY_OPTIONS
+): DataQualityReport => {
+  const { values, timestamps, sourceRows } = series;
+  const issues: QualityIssue[] = [...dropped];
+  const issue = (kind: QualityIssueKind, index: number, detail: string) =>
+    issues.push({ kind, rowNumber: sourceRows[index], index, detail });
+
+  const seen = new Map<number, number>();
+  timestamps.forEach((timestamp, i) => {
+    if (timestamp === null) return;
+    const first = seen.get(timestamp);
+    if (first === undefined) {
+      seen.set(timestamp, i);
+    } else {
+      issue('duplicateDate', i, `${formatDate(timestamp)} also on row ${sourceRows[first]}`);
+    }
+  });
+
+  detectGaps(series).forEach(gap => issue(
+    'gap',
+    gap.afterIndex + 1,
+    `About ${gap.missingPeriods} missing ${gap.missingPeriods === 1 ? 'period' : 'periods'} between ${formatDate(gap.from)} and ${formatDate(gap.to)}`
+  ));
+
+  let bounds: DataQualityReport['bounds'] = null;
+  if (values.length > 2) {
+    const center = median(values);
+    const mad = median(values.map(value => Math.abs(value - center)));
+    if (mad > 0) {
+      const lower = center - options.madThreshold * mad;
+      const upper = center + options.madThreshold * mad;
+      bounds = { lower, upper };
+      values.forEach((value, i) => {
+        if (value < lower || value > upper) {
+          issue('outlier', i, `${value} is ${(Math.abs(value - center) / mad).toFixed(1)} MADs from the median ${center}`);
+        }
+      });
+    }
+  }
+
+  // Runs of zero are flat or non-trading days, not a feed stuck on a value
+  let runStart = 0;
+  values.forEach((value, i) => {
+    if (i > 0 && value !== values[i - 1]) runStart = i;
+    if (value !== 0 && i - runStart + 1 >= options.staleRun) {
+      issue('stale', i, `${value} repeated for ${i - runStart + 1} periods since row ${sourceRows[runStart]}`);
+    }
+  });
+
+  if (options.isReturns) {
+    values.forEach((value, i) => {
+      if (value < -1) issue('impossibleReturn', i, `${(value * 100).toFixed(2)}% would lose more than everything`);
+    });
+  }
+
+  const flagged = issues.filter(candidate => candidate.index >= 0 && candidate.kind !== 'gap');
+  return {
+    issues,
+    flaggedIndexes: [...new Set(flagged.map(candidate => candidate.index))].sort((a, b) => a - b),
+    bounds,
+  };
+};
+
+/**
+ * Applies the chosen treatment to the flagged observations
+ * Exclusion drops every flagged observation. Winsorizing clips values to the outlier bounds (and returns to no less
+ * than -100%) and keeps duplicates and stale values, which have no value to correct.
+ * @param series Series the report was made for
+ * @param report Data-quality report
+ * @param treatment Keep, exclude or winsorize
+ * @param isReturns Values are simple returns in decimal form
+ * @returns Treated series
+ */
+export const applyQualityTreatment = (
+  series: ReturnsSeries,
+  report: DataQualityReport,
+  treatment: QualityTreatment,
+  isReturns: boolean = false
+): ReturnsSeries => {
+  if (treatment === 'exclude') {
+    const flagged = new Set(report.flaggedIndexes);
+    const keep = (_: unknown, i: number) => !flagged.has(i);
+    return createReturnsSeries(
+      series.values.filter(keep),
+      series.timestamps.filter(keep),
+      series.sourceRows.filter(keep)
+    );
+  }
+  if (treatment === 'winsorize') {
+    const lower = Math.max(report.bounds?.lower ?? -Infinity, isReturns ? -1 : -Infinity);
+    const upper = report.bounds?.upper ?? Infinity;
+    return { ...series, values: series.values.map(value => Math.min(Math.max(value, lower), upper)) };
+  }
+  return series;
+};
+
+/**
+ * Keeps the observations of a series whose spreadsheet rows are in a list, e.g. a same-file benchmark after exclusion
+ * @param series Series to filter
+ * @param sourceRows Rows to keep
+ */
+export const keepSourceRows = (series: ReturnsSeries, sourceRows: number[]): ReturnsSeries => {
+  const rows = new Set(sourceRows);
+  const keep = (_: unknown, i: number) => rows.has(series.sourceRows[i]);
+  return createReturnsSeries(series.values.filter(keep), series.timestamps.filter(keep), series.sourceRows.filter(keep));
+};
@@ -0,0 +1,163 @@
+// Equity-curve indices: 0 is the starting capital, k is the equity after the k-th return.
+
+export type DrawdownEpisode = {
+  peakIndex: number;
+  troughIndex: number;
+  recoveryIndex: number | null; // null while still underwater at the end of the data
+  depth: number;                // drawdown at the trough, as a negative fraction (e.g. -0.25)
+  duration: number;             // periods from peak to recovery (or to the last period)
+};
+
+export type DrawdownResult = {
+  equityCurve: number[];        // compounded growth of 1, length = returns + 1
+  underwater: number[];         // equity / running peak - 1, same length as equityCurve
+  maxDrawdown: number;          // deepest drawdown as a negative fraction (0 if never underwater)
+  peakIndex: number;
+  troughIndex: number;
+  recoveryIndex: number | null;
+  longestUnderwater: number;    // longest peak-to-recovery span in periods
+  episodes: DrawdownEpisode[];  // deepest episodes first
+};
+
+export const DEFAULT_TOP_DRAWDOWNS = 5;
+
+/**
+ * Compounds fractional returns into an equity curve starting at 1
+ * @param returns Fractional returns
+ * @returns Equity curve including the starting value
+ */
+export const calculateEquityCurve = (returns: number[]): number[] => {
+  const equityCurve = [1];
+  returns.forEach(r => equityCurve.push(equityCurve[equityCurve.length - 1] * (1 + r)));
+  return equityCurve;
+};
+
+/**
+ * Deepest drawdown of the compounded equity curve, without building the full curve
+ * @param returns Fractional returns
+ * @returns Max drawdown as a negative fraction (0 if never underwater)
+ */
+export const calculateMaxDrawdown = (returns: number[]): number => {
+  let equity = 1;
+  let peak = 1;
+  let maxDrawdown = 0;
+  for (const r of returns) {
+    equity *= 1 + r;
+    if (equity > peak) {
+      peak = equity;
+    } else {
+      maxDrawdown = Math.min(maxDrawdown, equity / peak - 1);
+    }
+  }
+  return maxDrawdown;
+};
+
+/**
+ * Derives drawdown statistics from fractional returns
+ * @param returns Fractional returns (the same array the ratios are calculated on)
+ * @param topN Number of deepest episodes to keep
+ * @returns Underwater curve, max drawdown and the top-N drawdown episodes
+ */
+export const calculateDrawdowns = (
+  returns: number[],
+  topN: number = DEFAULT_TOP_DRAWDOWNS
+): DrawdownResult => {
+  const equityCurve = calculateEquityCurve(returns);
+  const underwater: number[] = [];
+  const allEpisodes: DrawdownEpisode[] = [];
+
+  let peak = equityCurve[0];
+  let peakIndex = 0;
+  let current: DrawdownEpisode | null = null;
+
+  equityCurve.forEach((equity, i) => {
+    if (equity >= peak) {
+      // New high (or full recovery) closes any open episode
+      if (current) {
+        current.recoveryIndex = i;
+        current.duration = i - current.peakIndex;
+        allEpisodes.push(current);
+        current = null;
+      }
+      peak = equity;
+      peakIndex = i;
+      underwater.push(0);
+      return;
+    }
+
+    const drawdown = equity / peak - 1;
+    underwater.push(drawdown);
+    if (!current) {
+      current = { peakIndex, troughIndex: i, recoveryIndex: null, depth: drawdown, duration: 0 };
+    } else if (drawdown < current.depth) {
+      current.depth = drawdown;
+      current.troughIndex = i;
+    }
+  });
+
+  if (current) {
+    current.duration = equityCurve.length - 1 - current.peakIndex;
+    allEpisodes.push(current);
+  }
+
+  const episodes = [...allEpisodes].sort((a, b) => a.depth - b.depth);
+  const deepest = episodes[0];
+
+  return {
+    equityCurve,
+    underwater,
+    maxDrawdown: deepest ? deepest.depth : 0,
+    peakIndex: deepest ? deepest.peakIndex : 0,
+    troughIndex: deepest ? deepest.troughIndex : 0,
+    recoveryIndex: deepest ? deepest.recoveryIndex : null,
+    longestUnderwater: allEpisodes.reduce((max, e) => Math.max(max, e.duration), 0),
+    episodes: episodes.slice(0, topN),
+  };
+};
+
+export type DrawdownRatios = {
+  ulcerIndex: number;     // root-mean-square drawdown over all periods
+  painIndex: number;      // mean absolute drawdown over all periods
+  calmarRatio: number;    // annualized return / |max drawdown|
+  sterlingRatio: number;  // annualized return / mean |depth| of the top drawdown episodes
+  burkeRatio: number;     // annualized return / √(Σ depth²) of the top drawdown episodes
+  martinRatio: number;    // annualized return / Ulcer Index (Ulcer Performance Index)
+  painRatio: number;      // annualized return / Pain Index
+};
+
+/**
+ * Drawdown-based performance ratios; a ratio is 0 when its drawdown measure is (near) zero
+ * @param drawdown Result of calculateDrawdowns
+ * @param annualizedReturn Annualized geometric return used as the numerator
+ * @returns Ulcer and Pain indices with Calmar, Sterling, Burke, Martin and Pain ratios
+ */
+export const calculateDrawdownRatios = (
+  drawdown: DrawdownResult,
+  annualizedReturn: number
+): DrawdownRatios => {
+  const EPSILON = 1e-8;
+  const ratio = (denominator: number) => (denominator > EPSILON ? annualizedReturn / denominator : 0);
+
+  // Period 0 is the starting capital, so only the periods after each return count
+  const periods = drawdown.underwater.slice(1);
+  const ulcerIndex = periods.length > 0
+    ? Math.sqrt(periods.reduce((sum, d) => sum + d * d, 0) / periods.length)
+    : 0;
+  const painIndex = periods.length > 0
+    ? periods.reduce((sum, d) => sum - d, 0) / periods.length
+    : 0;
+
+  const depths = drawdown.episodes.map(e => e.depth);
+  const averageDepth = depths.length > 0 ? -depths.reduce((sum, d) => sum + d, 0) / depths.length : 0;
+  const rootSquaredDepth = Math.sqrt(depths.reduce((sum, d) => sum + d * d, 0));
+
+  return {
+    ulcerIndex,
+    painIndex,
+    calmarRatio: ratio(-drawdown.maxDrawdown),
+    sterlingRatio: ratio(averageDepth),
+    burkeRatio: ratio(rootSquaredDepth),
+    martinRatio: ratio(ulcerIndex),
+    painRatio: ratio(painIndex),
+  };
+};
@@ -1,5 +1,6 @@
 import * as XLSX from 'xlsx';
-import { CalculationResult, CalculationParams } from '@/utils/calculationUtils';
+import { CalculationResult, CalculationParams, toFractionalReturns } from '@/utils/calculationUtils';
+import { ReturnsSeries, formatDate } from '@/utils/seriesUtils';
 
 // Utility to safely quote sheet names for Excel formulas
 function quoteSheetName(name) {
@@ -12,15 +13,17 @@ function quoteSheetName(name) {
 
 export function exportAnalysisToXLSX(
   result: CalculationResult,
-  returnValues: number[],
+  series: ReturnsSeries,
   params: CalculationParams
 ) {
   // --- Prepare data ---
+  const returnValues = series.values;
   const rawReturns = [...returnValues];
   const fracReturns =
-    params.dataFormat === 'absolute' && params.portfolioValue
-      ? returnValues.map(r => r / params.portfolioValue)
+    (params.dataFormat === 'absolute' && params.portfolioValue) || params.dataFormat === 'log'
+      ? toFractionalReturns(returnValues, params)
       : [];
+  const logBasis = params.sharpeReturns === 'log';
   const N = rawReturns.length;
 
   // Compute core metrics in JS (for Breakdown sheet)
@@ -46,10 +49,13 @@ export function exportAnalysisToXLSX(
   );
 
   // --- Sheet 1: Inputs & Summary ---
-  // Table: Index | Raw Return | Frac Return
+  // Table: Index | Raw Return | Frac Return | Date | Source Row
   const tableAoA = [
-    ['Index', 'Raw Return', 'Frac Return'],
-    ...rawReturns.map((r, i) => [i + 1, r, fracReturns[i] ?? ''])
+    ['Index', 'Raw Return', 'Frac Return', 'Date', 'Source Row'],
+    ...rawReturns.map((r, i) => {
+      const timestamp = series.timestamps[i];
+      return [i + 1, r, fracReturns[i] ?? '', timestamp !== null ? formatDate(timestamp) : '', series.sourceRows[i]];
+    })
   ];
   const wsInputs = XLSX.utils.aoa_to_sheet(tableAoA);
 
@@ -66,6 +72,7 @@ export function exportAnalysisToXLSX(
   if (params.portfolioValue) {
     paramBlock.push(['Portfolio Value', params.portfolioValue]);
   }
+  paramBlock.push(['Sharpe Computed On', logBasis ? 'Log returns' : 'Simple returns']);
   XLSX.utils.sheet_add_aoa(wsInputs, paramBlock, { origin: { r: 0, c: 5 } });
 
   // Named cell references for formulas
@@ -77,22 +84,32 @@ export function exportAnalysisToXLSX(
   const startRow = 2;
   const endRow = N + 1;
 
-  // Summary block (below parameters)
+  // Summary block (below parameters); on the log basis the returns enter as LN(1+Frac), which COUNTIF cannot take
   const summaryStartRow = paramBlock.length + 2;
+  const fracRange = `${quotedSheet}!${fracCol}${startRow}:${fracCol}${endRow}`;
+  const ratioRange = logBasis ? `LN(1+${fracRange})` : fracRange;
+  const belowTarget = logBasis
+    ? `SUMPRODUCT(--(${ratioRange} < ${quotedSheet}!$${paramCol}$3))`
+    : `COUNTIF(${fracRange},"<"&${quotedSheet}!$${paramCol}$3)`;
   const summaryMetrics = [
-    { label: 'Mean', formula: `AVERAGE(${quotedSheet}!${fracCol}${startRow}:${fracCol}${endRow})` },
-    { label: 'Std Dev', formula: `STDEV.S(${quotedSheet}!${fracCol}${startRow}:${fracCol}${endRow})` },
+    { label: 'Mean', formula: `AVERAGE(${ratioRange})` },
+    { label: 'Std Dev', formula: `STDEV.S(${ratioRange})` },
     {
       label: 'Downside Dev',
-      formula: `SQRT(SUMPRODUCT(( ${quotedSheet}!${fracCol}${startRow}:${fracCol}${endRow} < ${quotedSheet}!$${paramCol}$3 ) * ( (${quotedSheet}!${fracCol}${startRow}:${fracCol}${endRow} - ${quotedSheet}!$${paramCol}$3 )^2 )) / COUNTIF(${quotedSheet}!${fracCol}${startRow}:${fracCol}${endRow},"<"&${quotedSheet}!$${paramCol}$3))`,
+      formula: `SQRT(SUMPRODUCT(( ${ratioRange} < ${quotedSheet}!$${paramCol}$3 ) * ( (${ratioRange} - ${quotedSheet}!$${paramCol}$3 )^2 )) / ${belowTarget})`,
     },
     {
       label: 'Sharpe Ratio',
-      formula: `(AVERAGE(${quotedSheet}!${fracCol}${startRow}:${fracCol}${endRow}) - ${quotedSheet}!$${paramCol}$2) / STDEV.S(${quotedSheet}!${fracCol}${startRow}:${fracCol}${endRow}) * SQRT(${quotedSheet}!$${paramCol}$4)`,
+      formula: `(AVERAGE(${ratioRange}) - ${quotedSheet}!$${paramCol}$2) / STDEV.S(${ratioRange}) * SQRT(${quotedSheet}!$${paramCol}$4)`,
+    },
+    {
+      // Swaps √q in the Sharpe cell above for Lo's η(q), which depends on the autocorrelations
+      label: 'Sharpe Ratio (Lo-adjusted)',
+      formula: `${paramCol}${summaryStartRow + 4} / SQRT(${quotedSheet}!$${paramCol}$4) * ${result.serialCorrelation.loScalingFactor}`,
     },
     {
       label: 'Sortino Ratio',
-      formula: `(AVERAGE(${quotedSheet}!${fracCol}${startRow}:${fracCol}${endRow}) - ${quotedSheet}!$${paramCol}$2) / SQRT(SUMPRODUCT(( ${quotedSheet}!${fracCol}${startRow}:${fracCol}${endRow} < ${quotedSheet}!$${paramCol}$3 ) * ( (${quotedSheet}!${fracCol}${startRow}:${fracCol}${endRow} - ${quotedSheet}!$${paramCol}$3 )^2 )) / COUNTIF(${quotedSheet}!${fracCol}${startRow}:${fracCol}${endRow},"<"&${quotedSheet}!$${paramCol}$3)) * SQRT(${quotedSheet}!$${paramCol}$4)`,
+      formula: `(AVERAGE(${ratioRange}) - ${quotedSheet}!$${paramCol}$2) / SQRT(SUMPRODUCT(( ${ratioRange} < ${quotedSheet}!$${paramCol}$3 ) * ( (${ratioRange} - ${quotedSheet}!$${paramCol}$3 )^2 )) / ${belowTarget}) * SQRT(${quotedSheet}!$${paramCol}$4)`,
     },
   ];
   // Write summary block
@@ -109,8 +126,8 @@ export function exportAnalysisToXLSX(
     { wch: 6 }, // Index
     { wch: 12 }, // Raw
     { wch: 12 }, // Frac
-    { wch: 16 }, // Metric
-    { wch: 16 }, // Value
+    { wch: 12 }, // Date
+    { wch: 11 }, // Source Row
     { wch: 16 }, // Param
     { wch: 16 }, // Param val
   ];
@@ -140,12 +157,196 @@ export function exportAnalysisToXLSX(
     ['Std Dev (calc)', stdDevFrac],
     ['Downside Dev', downsideDev],
     ['Sharpe Ratio', result.sharpeRatio],
+    ['Sharpe Ratio (Lo-adjusted)', result.serialCorrelation.loSharpeRatio],
+    ['Lo Scaling Factor η(q)', result.serialCorrelation.loScalingFactor],
     ['Sortino Ratio', result.sortinoRatio],
+    [],
+    ['Ljung-Box Lag', 'Q Statistic', 'p-value'],
+    ...result.serialCorrelation.ljungBox.map(test => [test.lag, test.statistic, test.pValue]),
   ];
   const wsBreak = XLSX.utils.aoa_to_sheet(breakAoA);
   wsBreak['!outline'] = [{ level: 1, start: 1, end: N }]; // Collapsible group for per-row calcs
 
-  // ----- Sheet 3: Methodology -----
+  // ----- Sheet 3: Drawdown -----
+  // Row 2 is the starting capital (period 0); rows 3.. hold the equity after each return
+  const ddReturns = toFractionalReturns(returnValues, params);
+  const { drawdown } = result;
+  const ddAoA = [
+    ['Period', 'Frac Return', 'Equity', 'Running Peak', 'Drawdown'],
+    ...drawdown.equityCurve.map((equity, i) => [
+      i,
+      i === 0 ? '' : ddReturns[i - 1],
+      equity,
+      equity / (1 + drawdown.underwater[i]),
+      drawdown.underwater[i],
+    ]),
+  ];
+  const wsDrawdown = XLSX.utils.aoa_to_sheet(ddAoA);
+  const ddFirstRow = 2;
+  const ddLastRow = drawdown.equityCurve.length + 1;
+  for (let row = ddFirstRow; row <= ddLastRow; row++) {
+    const equityFormula = row === ddFirstRow ? '1' : `C${row - 1}*(1+B${row})`;
+    const peakFormula = row === ddFirstRow ? `C${row}` : `MAX(D${row - 1},C${row})`;
+    wsDrawdown[`C${row}`] = { t: 'n', v: wsDrawdown[`C${row}`].v, f: equityFormula };
+    wsDrawdown[`D${row}`] = { t: 'n', v: wsDrawdown[`D${row}`].v, f: peakFormula };
+    wsDrawdown[`E${row}`] = { t: 'n', v: wsDrawdown[`E${row}`].v, f: `C${row}/D${row}-1` };
+  }
+
+  // Summary and top episodes (right of table)
+  const ddSummary = [
+    ['Drawdown Metric', 'Value'],
+    ['Max Drawdown', drawdown.maxDrawdown],
+    ['Peak Period', drawdown.peakIndex],
+    ['Trough Period', drawdown.troughIndex],
+    ['Recovery Period', drawdown.recoveryIndex ?? 'Not recovered'],
+    ['Longest Underwater (periods)', drawdown.longestUnderwater],
+    [],
+    ['Episode', 'Depth', 'Peak', 'Trough', 'Recovery', 'Duration'],
+    ...drawdown.episodes.map((e, i) => [
+      i + 1, e.depth, e.peakIndex, e.troughIndex, e.recoveryIndex ?? 'Not recovered', e.duration,
+    ]),
+  ];
+  XLSX.utils.sheet_add_aoa(wsDrawdown, ddSummary, { origin: { r: 0, c: 6 } });
+  wsDrawdown['H2'] = { t: 'n', v: drawdown.maxDrawdown, f: `MIN(E${ddFirstRow}:E${ddLastRow})` };
+
+  // More ratios (below the episodes): annualized return from the final equity, drawdown measures from column E
+  const { drawdownRatios } = result;
+  const periodCount = ddLastRow - ddFirstRow;
+  const episodeFirstRow = 9;
+  const episodeLastRow = episodeFirstRow + drawdown.episodes.length - 1;
+  const ratioStartRow = episodeLastRow + 3;
+  const underwaterRange = `E${ddFirstRow + 1}:E${ddLastRow}`;
+  const depthRange = `H${episodeFirstRow}:H${episodeLastRow}`;
+  const hasEpisodes = drawdown.episodes.length > 0;
+  const ratioCell = (row: number) => `H${ratioStartRow + row}`;
+  const guardedRatio = (denominator: string) => `IF(${denominator}>1E-8,${ratioCell(1)}/(${denominator}),0)`;
+  const ratioRows = [
+    { label: 'Annualized Return', value: result.annualizedReturn, formula: `C${ddLastRow}^(${quotedSheet}!$${paramCol}$4/${periodCount})-1` },
+    { label: 'Ulcer Index', value: drawdownRatios.ulcerIndex, formula: `SQRT(SUMSQ(${underwaterRange})/${periodCount})` },
+    { label: 'Pain Index', value: drawdownRatios.painIndex, formula: `-SUM(${underwaterRange})/${periodCount}` },
+    { label: 'Calmar Ratio', value: drawdownRatios.calmarRatio, formula: guardedRatio('-H2') },
+    {
+      label: 'Sterling Ratio (top episodes)',
+      value: drawdownRatios.sterlingRatio,
+      formula: hasEpisodes ? guardedRatio(`-AVERAGE(${depthRange})`) : undefined,
+    },
+    {
+      label: 'Burke Ratio (top episodes)',
+      value: drawdownRatios.burkeRatio,
+      formula: hasEpisodes ? guardedRatio(`SQRT(SUMSQ(${depthRange}))`) : undefined,
+    },
+    { label: 'Martin Ratio (UPI)', value: drawdownRatios.martinRatio, formula: guardedRatio(ratioCell(2)) },
+    { label: 'Pain Ratio', value: drawdownRatios.painRatio, formula: guardedRatio(ratioCell(3)) },
+  ];
+  wsDrawdown[`G${ratioStartRow}`] = { t: 's', v: 'More Ratios' };
+  wsDrawdown[`H${ratioStartRow}`] = { t: 's', v: 'Value' };
+  ratioRows.forEach((item, idx) => {
+    wsDrawdown[`G${ratioStartRow + idx + 1}`] = { t: 's', v: item.label };
+    wsDrawdown[ratioCell(idx + 1)] = item.formula
+      ? { t: 'n', v: item.value, f: item.formula }
+      : { t: 'n', v: item.value };
+  });
+  const ddRange = XLSX.utils.decode_range(wsDrawdown['!ref'] as string);
+  ddRange.e.r = Math.max(ddRange.e.r, ratioStartRow + ratioRows.length - 1);
+  wsDrawdown['!ref'] = XLSX.utils.encode_range(ddRange);
+  wsDrawdown['!cols'] = [
+    { wch: 8 }, { wch: 12 }, { wch: 12 }, { wch: 14 }, { wch: 12 }, { wch: 4 }, { wch: 28 }, { wch: 14 },
+  ];
+
+  // ----- Optional sheet: Risk-Free (time-varying rate) -----
+  // Periodic rates are converted from each annual yield; excess returns are taken row by row
+  let wsRiskFree: XLSX.WorkSheet | null = null;
+  if (params.riskFreeRates) {
+    const rfReturns = toFractionalReturns(returnValues, params);
+    const rfAoA = [
+      ['Period', 'Date', 'Annual Yield (%)', 'Periodic Rate', 'Frac Return', 'Excess Return'],
+      ...params.riskFreeRates.map((rate, i) => {
+        const timestamp = series.timestamps[i];
+        const periodic = Math.pow(1 + rate / 100, 1 / params.tradingPeriods) - 1;
+        const excess = logBasis ? Math.log1p(rfReturns[i]) - Math.log1p(periodic) : rfReturns[i] - periodic;
+        return [i + 1, timestamp !== null ? formatDate(timestamp) : '', rate, periodic, rfReturns[i], excess];
+      }),
+    ];
+    wsRiskFree = XLSX.utils.aoa_to_sheet(rfAoA);
+    const rfLastRow = params.riskFreeRates.length + 1;
+    for (let row = 2; row <= rfLastRow; row++) {
+      wsRiskFree[`D${row}`] = { t: 'n', v: wsRiskFree[`D${row}`].v, f: `(1+C${row}/100)^(1/${quotedSheet}!$${paramCol}$4)-1` };
+      wsRiskFree[`F${row}`] = {
+        t: 'n',
+        v: wsRiskFree[`F${row}`].v,
+        f: logBasis ? `LN(1+E${row})-LN(1+D${row})` : `E${row}-D${row}`,
+      };
+    }
+    XLSX.utils.sheet_add_aoa(wsRiskFree, [
+      ['Risk-Free Metric', 'Value'],
+      ['Average Yield (%)', params.riskFreeRate],
+      ['Mean Excess Return', result.excessReturn],
+      ['Sharpe Ratio', result.sharpeRatio],
+    ], { origin: { r: 0, c: 7 } });
+    wsRiskFree['I2'] = { t: 'n', v: params.riskFreeRate, f: `AVERAGE(C2:C${rfLastRow})` };
+    wsRiskFree['I3'] = { t: 'n', v: result.excessReturn, f: `AVERAGE(F2:F${rfLastRow})` };
+    wsRiskFree['I4'] = {
+      t: 'n',
+      v: result.sharpeRatio,
+      f: `AVERAGE(F2:F${rfLastRow})/STDEV.S(F2:F${rfLastRow})*SQRT(${quotedSheet}!$${paramCol}$4)`,
+    };
+    wsRiskFree['!cols'] = [{ wch: 8 }, { wch: 12 }, { wch: 16 }, { wch: 14 }, { wch: 12 }, { wch: 14 }, { wch: 4 }, { wch: 20 }, { wch: 14 }];
+  }
+
+  // ----- Optional sheet: Trades (trade ledger) -----
+  // Each trade's PnL is a live formula; the summary counts and sums the PnL column
+  let wsTrades: XLSX.WorkSheet | null = null;
+  if (params.trades && result.tradeStats) {
+    const stats = result.tradeStats;
+    const tradesAoA = [
+      ['Row', 'Symbol', 'Entry Date', 'Exit Date', 'Quantity', 'Entry Price', 'Exit Price', 'Fees', 'PnL'],
+      ...params.trades.map(trade => [
+        trade.sourceRow,
+        trade.symbol,
+        trade.entryTime !== null ? formatDate(trade.entryTime) : '',
+        formatDate(trade.exitTime),
+        trade.quantity,
+        trade.entryPrice,
+        trade.exitPrice,
+        trade.fees,
+        trade.pnl,
+      ]),
+    ];
+    wsTrades = XLSX.utils.aoa_to_sheet(tradesAoA);
+    const tradeLastRow = params.trades.length + 1;
+    for (let row = 2; row <= tradeLastRow; row++) {
+      wsTrades[`I${row}`] = { t: 'n', v: wsTrades[`I${row}`].v, f: `(G${row}-F${row})*E${row}-ABS(H${row})` };
+    }
+    const pnlRange = `I2:I${tradeLastRow}`;
+    XLSX.utils.sheet_add_aoa(wsTrades, [
+      ['Trade Metric', 'Value'],
+      ['Total Trades', stats.totalTrades],
+      ['Win Rate', stats.winRate],
+      ['Profit Factor', stats.profitFactor ?? 'N/A'],
+      ['Average Win', stats.averageWin],
+      ['Average Loss', stats.averageLoss],
+      ['Expectancy', stats.expectancy],
+      ['Longest Losing Streak', stats.longestLosingStreak],
+    ], { origin: { r: 0, c: 10 } });
+    wsTrades['L2'] = { t: 'n', v: stats.totalTrades, f: `COUNT(${pnlRange})` };
+    wsTrades['L3'] = { t: 'n', v: stats.winRate, f: `COUNTIF(${pnlRange},">0")/COUNT(${pnlRange})` };
+    if (stats.profitFactor !== null) {
+      wsTrades['L4'] = { t: 'n', v: stats.profitFactor, f: `SUMIF(${pnlRange},">0")/-SUMIF(${pnlRange},"<0")` };
+    }
+    if (stats.winningTrades > 0) {
+      wsTrades['L5'] = { t: 'n', v: stats.averageWin, f: `AVERAGEIF(${pnlRange},">0")` };
+    }
+    if (stats.losingTrades > 0) {
+      wsTrades['L6'] = { t: 'n', v: stats.averageLoss, f: `AVERAGEIF(${pnlRange},"<0")` };
+    }
+    wsTrades['L7'] = { t: 'n', v: stats.expectancy, f: `AVERAGE(${pnlRange})` };
+    wsTrades['!cols'] = [
+      { wch: 6 }, { wch: 10 }, { wch: 12 }, { wch: 12 }, { wch: 10 }, { wch: 12 }, { wch: 12 }, { wch: 10 }, { wch: 12 },
+      { wch: 4 }, { wch: 22 }, { wch: 14 },
+    ];
+  }
+
+  // ----- Sheet 4: Methodology -----
   const methodAoA = [
     ['Metric', 'Explanation'],
     ['Mean', 'Average of fractional returns'],
@@ -153,7 +354,40 @@ export function exportAnalysisToXLSX(
     ['Downside Dev', 'Sample std dev of returns below target (risk-free if unspecified)'],
     ['Sharpe Ratio', '=(Mean - Risk Free) / Std Dev * SQRT(Trading Periods)'],
     ['Sortino Ratio', '=(Mean - Risk Free) / Downside Dev * SQRT(Trading Periods)'],
+    ['Sharpe Ratio (Lo-adjusted)', 'Per-period Sharpe × q / SQRT(q + 2 × Σ (q - k) × ρk), k = 1 … q-1, lags beyond n/4 treated as zero'],
+    ['Drawdown', '=Equity / Running Peak - 1, with Equity compounded from Frac Return starting at 1'],
+    ['Calmar Ratio', '=Annualized Return / |Max Drawdown|, Annualized Return = Final Equity ^ (Trading Periods / N) - 1'],
+    ['Sterling Ratio', '=Annualized Return / average |depth| of the top drawdown episodes'],
+    ['Burke Ratio', '=Annualized Return / SQRT(Σ depth²) over the top drawdown episodes'],
+    ['Ulcer Index', '=SQRT(mean of squared drawdowns over all periods)'],
+    ['Martin Ratio (UPI)', '=Annualized Return / Ulcer Index'],
+    ['Pain Ratio', '=Annualized Return / Pain Index, Pain Index = mean |drawdown| over all periods'],
     ['Data Format', 'Raw = $; Frac = return/portfolio if provided; all metrics use Frac'],
+    ...(params.cashFlows
+      ? [[
+        'Cash Flows',
+        'Frac = PnL / (previous NAV + flow), NAV rebuilt from the starting capital (Portfolio Value), PnL and deposits/withdrawals',
+      ]]
+      : []),
+    ...(params.trades
+      ? [[
+        'Trade Ledger',
+        'Raw = trade PnL summed by exit date (zero on business days without exits); see the Trades sheet, PnL = (Exit - Entry) × Quantity - Fees',
+      ]]
+      : []),
+    ...(params.riskFreeRates
+      ? [[
+        'Risk-Free Rate',
+        'Time-varying: see the Risk-Free sheet; each annual yield becomes (1 + yield)^(1 / Trading Periods) - 1 and is subtracted row by row. Risk Free Rate in the parameter block is the average yield',
+      ]]
+      : []),
+    ['Log Returns', 'Log-return input: Frac = EXP(Raw) - 1; the geometric mean is EXP(AVERAGE(Raw)) - 1'],
+    [
+      'Sharpe Computed On',
+      logBasis
+        ? 'Log returns: Mean, Std Dev, Downside Dev, Sharpe and Sortino use LN(1 + Frac); equity and drawdowns compound Frac'
+        : 'Simple returns: Mean, Std Dev, Downside Dev, Sharpe and Sortino use Frac directly',
+    ],
     ['All formulas are live and reference the parameter block in Inputs & Summary.'],
   ];
   const wsMethod = XLSX.utils.aoa_to_sheet(methodAoA);
@@ -162,6 +396,13 @@ export function exportAnalysisToXLSX(
   const wb = XLSX.utils.book_new();
   XLSX.utils.book_append_sheet(wb, wsInputs, sheetName);
   XLSX.utils.book_append_sheet(wb, wsBreak, 'Breakdown');
+  XLSX.utils.book_append_sheet(wb, wsDrawdown, 'Drawdown');
+  if (wsRiskFree) {
+    XLSX.utils.book_append_sheet(wb, wsRiskFree, 'Risk-Free');
+  }
+  if (wsTrades) {
+    XLSX.utils.book_append_sheet(wb, wsTrades, 'Trades');
+  }
   XLSX.utils.book_append_sheet(wb, wsMethod, 'Methodology');
 
   // --- Write file with timestamp to avoid caching issues ---
@@ -1,10 +1,72 @@
 import * as XLSX from 'xlsx';
 import { toast } from 'sonner';
+import { ReturnsSeries, createReturnsSeries, formatDate } from '@/utils/seriesUtils';
+import { Trade, calculateTradePnl } from '@/utils/tradeUtils';
 
 export type ParsedData = {
   headers: string[];
   rows: (string | number)[][];
   originalData: any[];
+  sheetName?: string;    // sheet the headers and rows come from
+  sheets?: SheetData[];  // every non-empty sheet of the workbook
+  rowRange?: RowRange;   // header and last data row used; rows outside it are left out of the analysis
+  columnTypes?: ColumnType[];   // type each column's cells were converted with
+  inferredTypes?: ColumnType[]; // types inferred from the sheet, before any override
+  localeSetting?: LocaleSetting;    // number and date spelling chosen for the file (auto-detected by default)
+  columnLocales?: ParsingLocale[];  // spelling each column was read with
+};
+
+export type SheetData = {
+  name: string;
+  headers: string[];          // for the detected row range
+  rows: (string | number)[][];
+  originalData: unknown[];    // every row of the sheet as read
+  cellFormats: CellFormat[][]; // display format of each cell, aligned with originalData
+  detectedRange: RowRange;
+};
+
+export type ColumnType = 'date' | 'numeric' | 'percent' | 'currency' | 'text';
+
+export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  date: 'Date',
+  numeric: 'Number',
+  percent: 'Percent',
+  currency: 'Currency',
+  text: 'Text',
+};
+
+// What a cell's number format in the workbook says about its value ('' for general numbers and text)
+export type CellFormat = 'date' | 'percent' | 'currency' | '';
+
+// How text cells spell numbers and dates. Spaces and apostrophes are always thousands separators; the other of
+// '.' and ',' is the thousands separator for the chosen decimal separator.
+export type ParsingLocale = {
+  decimalSeparator: '.' | ',';
+  dateOrder: DateOrder; // order of day and month in dates that do not start with the year
+};
+
+export type DateOrder = 'ymd' | 'mdy' | 'dmy';
+
+// Parsing setting chosen in the preview; 'auto' parts are detected per column
+export type LocaleSetting = {
+  decimalSeparator: ParsingLocale['decimalSeparator'] | 'auto';
+  dateOrder: DateOrder | 'auto';
+};
+
+export const DEFAULT_PARSING_LOCALE: ParsingLocale = { decimalSeparator: '.', dateOrder: 'mdy' };
+
+export const AUTO_LOCALE_SETTING: LocaleSetting = { decimalSeparator: 'auto', dateOrder: 'auto' };
+
+export const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  ymd: 'ISO (YYYY-MM-DD)',
+  mdy: 'US (MM/DD/YYYY)',
+  dmy: 'EU (DD/MM/YYYY)',
+};
+
+// Header row and last data row, 0-based indexes into the sheet's rows
+export type RowRange = {
+  headerRow: number;
+  lastDataRow: number; // inclusive
 };
 
 export const supportedFileTypes = [
@@ -44,43 +106,465 @@ export const formatExcelDate = (excelDate: number): string => {
   return `${date.y}-${String(date.m).padStart(2, '0')}-${String(date.d).padStart(2, '0')}`;
 };
 
+// Header names that suggest a date column
+const DATE_HEADER_PATTERN = /date|time|day|month|period/i;
+
+/**
+ * Parses a cell as a calendar date
+ * Accepts ISO strings (YYYY-MM-DD, optionally with a time), day/month/year strings separated by '/', '.' or '-' in the
+ * given order, other strings Date.parse understands, and Excel serial numbers.
+ * @param value Cell value
+ * @param dateOrder Order of day and month when the year comes last (US month first unless 'dmy')
+ * @returns UTC midnight of the date in ms since epoch, or null if the cell is not a date
+ */
+export const parseDateValue = (value: unknown, dateOrder: DateOrder = DEFAULT_PARSING_LOCALE.dateOrder): number | null => {
+  if (typeof value === 'number') {
+    if (!isExcelDate(value)) return null;
+    const date = XLSX.SSF.parse_date_code(value);
+    return Date.UTC(date.y, date.m - 1, date.d);
+  }
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const text = value.trim();
+
+  const iso = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T\s].*)?$/);
+  if (iso) return Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+
+  const dayMonth = text.match(/^(\d{1,2})([/.-])(\d{1,2})\2(\d{4})(?:[T\s].*)?$/);
+  if (dayMonth) {
+    const [day, month] = dateOrder === 'dmy'
+      ? [Number(dayMonth[1]), Number(dayMonth[3])]
+      : [Number(dayMonth[3]), Number(dayMonth[1])];
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    return Date.UTC(Number(dayMonth[4]), month - 1, day);
+  }
+
+  // Plain numbers in text form are values, not dates
+  if (/^[-+]?[\d.,]+%?$/.test(text)) return null;
+  const parsed = new Date(text);
+  return isNaN(parsed.getTime())
+    ? null
+    : Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate());
+};
+
+/**
+ * Finds the column holding dates, preferring date-like header names
+ * @param data Parsed file
+ * @returns Column index, or -1 when no column is mostly dates
+ */
+export const detectDateColumn = (data: ParsedData): number => {
+  const sample = data.rows.slice(0, 100);
+  const candidates = data.headers
+    // With inferred column types only date columns qualify, so numbers in the Excel serial range are not dates
+    .map((header, index) => {
+      const cells = sample.map(row => row[index]).filter(cell => cell !== '' && cell !== undefined);
+      const dates = cells.filter(cell => parseDateValue(cell) !== null).length;
+      return { index, header, ratio: cells.length > 0 ? dates / cells.length : 0 };
+    })
+    .filter(candidate => candidate.ratio >= 0.8 && (!data.columnTypes || data.columnTypes[candidate.index] === 'date'));
+
+  const named = candidates.find(candidate => DATE_HEADER_PATTERN.test(candidate.header));
+  return (named ?? candidates[0])?.index ?? -1;
+};
+
+// Remembers the sheet last analyzed for each workbook structure (its list of sheet names)
+const LAST_SHEET_STORAGE_KEY = 'sharpe-calculator:last-sheet';
+
+// Rows searched for the header, and the label of a summary row at the bottom of a table
+const HEADER_SCAN_ROWS = 30;
+const SUMMARY_ROW_PATTERN = /^(grand\s+|sub-?)?totals?\b|^(sum|average|avg)\b/i;
+
+const isBlankCell = (cell: unknown): boolean => cell === '' || cell === null || cell === undefined;
+
+// Header labels contain letters; values are numbers or numeric text
+const isLabelCell = (cell: unknown): boolean => typeof cell === 'string' && /[a-z]/i.test(cell);
+const isValueCell = (cell: unknown, locale: ParsingLocale = DEFAULT_PARSING_LOCALE): boolean =>
+  typeof cell === 'number' || (typeof cell === 'string' && !isLabelCell(cell) && cleanNumericValue(cell, locale) !== null);
+
+const filledCells = (row: unknown): unknown[] => (Array.isArray(row) ? row : []).filter(cell => !isBlankCell(cell));
+
+/**
+ * Finds the header row and the last data row of a sheet
+ * The header is the first row, within the top rows, made only of labels, as wide as at least half the table and
+ * followed by a row with values, which skips title blocks above it. From the bottom, blank rows, rows labelled
+ * Total, Subtotal, Sum or Average, and single text notes are left out.
+ * @param rawData Sheet rows as read, header included
+ * @returns Row range, 0-based indexes into the sheet rows
+ */
+export const detectRowRange = (rawData: unknown[][]): RowRange => {
+  const width = Math.max(0, ...rawData.slice(0, 200).map(row => filledCells(row).length));
+  const detectedHeader = rawData.slice(0, HEADER_SCAN_ROWS).findIndex((row, i) => {
+    const cells = filledCells(row);
+    if (cells.length === 0 || cells.length < Math.ceil(width / 2) || !cells.every(isLabelCell)) return false;
+    const next = rawData.slice(i + 1).find(candidate => filledCells(candidate).length > 0);
+    return next !== undefined && filledCells(next).some(cell => isValueCell(cell));
+  });
+  const headerRow = Math.max(detectedHeader, 0);
+
+  let lastDataRow = rawData.length - 1;
+  while (lastDataRow > headerRow + 1) {
+    const cells = filledCells(rawData[lastDataRow]);
+    const isFooter = cells.length === 0
+      || (typeof cells[0] === 'string' && SUMMARY_ROW_PATTERN.test(cells[0].trim()))
+      || (cells.length === 1 && !isValueCell(cells[0]));
+    if (!isFooter) break;
+    lastDataRow--;
+  }
+
+  return { headerRow, lastDataRow };
+};
+
+/**
+ * Index of the last sheet row with any value
+ * @param rawData Sheet rows as read
+ */
+export const getLastFilledRow = (rawData: unknown[][]): number => {
+  let last = rawData.length - 1;
+  while (last > 0 && filledCells(rawData[last]).length === 0) last--;
+  return last;
+};
+
+/**
+ * Keeps a row range within the sheet, with at least one data row below the header
+ */
+const clampRowRange = (range: RowRange, rowCount: number): RowRange => {
+  const headerRow = Math.min(Math.max(Math.round(range.headerRow), 0), Math.max(rowCount - 2, 0));
+  const lastDataRow = Math.min(Math.max(Math.round(range.lastDataRow), headerRow + 1), rowCount - 1);
+  return { headerRow, lastDataRow };
+};
+
+// Share of a column's filled cells that must agree on a type
+const COLUMN_TYPE_SHARE = 0.8;
+// Headers of value columns, whose numbers are never read as Excel date serials without a date format
+const VALUE_HEADER_PATTERN = /pnl|p&l|profit|loss|return|price|amount|value|equity|nav|balance|fee|commission|qty|quantity|size|volume/i;
+const CURRENCY_PATTERN = /[$£€¥]|^\(.*\)$/;
+// Rows sampled to detect how numbers and dates are written
+const LOCALE_SAMPLE_ROWS = 200;
+
+/**
+ * Detects the decimal separator and date order of text cells
+ * Each number or date votes when it is unambiguous: "1.234,56", "0,35" and "1.234.567" point to a decimal comma,
+ * "1,234.56" and "0.35" to a decimal point; "15/03/2024" is day first and "03/15/2024" month first. "1,234" and
+ * "05/03/2024" do not vote. When day-first and month-first dates tie, dates with dots ("05.03.2024") are read day
+ * first, and a column whose dates all start with the year is ISO.
+ * @param values Cells to sample; numbers are ignored
+ * @param fallback Locale for the parts with no votes
+ * @returns Detected locale
+ */
+export const detectParsingLocale = (
+  values: unknown[],
+  fallback: ParsingLocale = DEFAULT_PARSING_LOCALE
+): ParsingLocale => {
+  const votes = { point: 0, comma: 0, dmy: 0, mdy: 0, dotted: 0, iso: 0, dayMonth: 0 };
+
+  values.forEach(value => {
+    if (typeof value !== 'string') return;
+    const text = value.trim();
+
+    const date = text.match(/^(\d{1,2})([/.-])(\d{1,2})\2\d{4}(?:[T\s].*)?$/);
+    if (date) {
+      votes.dayMonth++;
+      if (date[2] === '.') votes.dotted++;
+      if (Number(date[1]) > 12) votes.dmy++;
+      else if (Number(date[3]) > 12) votes.mdy++;
+      return;
+    }
+    if (/^\d{4}[-/]\d{1,2}[-/]\d{1,2}(?:[T\s].*)?$/.test(text)) {
+      votes.iso++;
+      return;
+    }
+
+    const digits = text.replace(/[$£€¥%'’()+-]|\s/g, '');
+    if (!/^\d[\d.,]*$/.test(digits)) return;
+    const lastPoint = digits.lastIndexOf('.');
+    const lastComma = digits.lastIndexOf(',');
+    if (lastPoint >= 0 && lastComma >= 0) {
+      votes[lastComma > lastPoint ? 'comma' : 'point']++;
+    } else if (lastPoint >= 0 || lastComma >= 0) {
+      const separator = lastPoint >= 0 ? '.' : ',';
+      const groups = digits.split(separator);
+      // One separator followed by three digits could be either; repeated separators are thousands
+      if (groups.length > 2) votes[separator === '.' ? 'comma' : 'point']++;
+      else if (groups[1].length !== 3) votes[separator === '.' ? 'point' : 'comma']++;
+    }
+  });
+
+  const decimalSeparator = votes.comma > votes.point ? ','
+    : votes.point > votes.comma ? '.'
+    : fallback.decimalSeparator;
+  let dateOrder: DateOrder = fallback.dateOrder;
+  if (votes.dmy > votes.mdy) dateOrder = 'dmy';
+  else if (votes.mdy > votes.dmy) dateOrder = 'mdy';
+  else if (votes.dayMonth > 0 && votes.dotted * 2 > votes.dayMonth) dateOrder = 'dmy';
+  else if (votes.dayMonth === 0 && votes.iso > 0) dateOrder = 'ymd';
+  return { decimalSeparator, dateOrder };
+};
+
+/**
+ * Parsing locale for a setting, taking detected values for its 'auto' parts
+ * @param setting Setting chosen in the preview
+ * @param detected Locale detected from the data
+ */
+export const resolveParsingLocale = (setting: LocaleSetting, detected: ParsingLocale): ParsingLocale => ({
+  decimalSeparator: setting.decimalSeparator === 'auto' ? detected.decimalSeparator : setting.decimalSeparator,
+  dateOrder: setting.dateOrder === 'auto' ? detected.dateOrder : setting.dateOrder,
+});
+
+/**
+ * Reads what a cell's number format says about its value
+ * @param cell Worksheet cell, read with number formats
+ */
+const getCellFormat = (cell: XLSX.CellObject | undefined): CellFormat => {
+  if (!cell) return '';
+  if (cell.t === 'd') return 'date';
+  if (cell.t !== 'n') return '';
+  const format = cell.z && cell.z !== 'General' ? String(cell.z) : '';
+  if (format && XLSX.SSF.is_date(format)) return 'date';
+  const shown = format || cell.w || '';
+  if (shown.includes('%')) return 'percent';
+  return CURRENCY_PATTERN.test(shown) ? 'currency' : '';
+};
+
+/**
+ * Infers a column's type from the workbook's cell formats, its header and its values
+ * Cell formats decide first. Text cells are then read as dates, percent strings ("5%") or currency strings
+ * ("$1,200", "(300)"). Plain numbers are numeric; they are only taken for Excel date serials when the header names a
+ * date and not a value, so a PnL of 42,000 stays a number.
+ * @param header Column header
+ * @param values The column's data cells
+ * @param formats Cell formats, aligned with values
+ * @param locale How the column's text spells numbers and dates
+ * @returns Column type
+ */
+export const inferColumnType = (
+  header: string,
+  values: unknown[],
+  formats: CellFormat[] = [],
+  locale: ParsingLocale = DEFAULT_PARSING_LOCALE
+): ColumnType => {
+  const cells = values
+    .map((value, i) => ({ value, format: formats[i] ?? '' }))
+    .filter(cell => !isBlankCell(cell.value));
+  if (cells.length === 0) return 'text';
+  const mostly = (test: (cell: { value: unknown, format: CellFormat }) => boolean) =>
+    cells.filter(test).length / cells.length >= COLUMN_TYPE_SHARE;
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : null);
+
+  for (const format of ['date', 'percent', 'currency'] as const) {
+    if (mostly(cell => cell.format === format)) return format;
+  }
+  if (mostly(cell => /^[-+(]?[\d.,\s'’]+-?\s?%\)?$/.test(text(cell.value) ?? ''))) return 'percent';
+  if (mostly(cell => CURRENCY_PATTERN.test(text(cell.value) ?? '') && cleanNumericValue(cell.value, locale) !== null)) {
+    return 'currency';
+  }
+  if (mostly(cell => typeof cell.value === 'string' && parseDateValue(cell.value, locale.dateOrder) !== null)) return 'date';
+  if (DATE_HEADER_PATTERN.test(header) && !VALUE_HEADER_PATTERN.test(header)
+    && mostly(cell => typeof cell.value === 'number' && isExcelDate(cell.value))) return 'date';
+  if (mostly(cell => isValueCell(cell.value, locale))) return 'numeric';
+  return 'text';
+};
+
+/**
+ * Converts a cell for its column's type
+ * Date serials and date text become YYYY-MM-DD strings; numeric, currency and percent text becomes numbers (percent
+ * strings as fractions, "5%" → 0.05, matching percent-formatted cells); text columns keep every cell as text.
+ */
+const convertCell = (cell: string | number, type: ColumnType, locale: ParsingLocale): string | number => {
+  if (isBlankCell(cell)) return cell;
+  switch (type) {
+    case 'date': {
+      if (typeof cell === 'number') return cell > 0 ? formatExcelDate(cell) : cell;
+      const timestamp = parseDateValue(cell, locale.dateOrder);
+      return timestamp === null ? cell : formatDate(timestamp);
+    }
+    case 'text':
+      return String(cell);
+    case 'percent':
+      if (typeof cell === 'string' && cell.includes('%')) {
+        const value = cleanNumericValue(cell, locale);
+        return value === null ? cell : value / 100;
+      }
+      return typeof cell === 'number' ? cell : cleanNumericValue(cell, locale) ?? cell;
+    default:
+      return typeof cell === 'number' ? cell : cleanNumericValue(cell, locale) ?? cell;
+  }
+};
+
+/**
+ * Headers, data rows, column types and parsing locales of a sheet for a row range
+ * Each column's 'auto' locale parts are detected from its own cells, falling back to the whole sheet's.
+ * @param sheet Sheet as read
+ * @param range Header and last data row
+ * @param columnTypes Types to convert with; inferred when omitted or not one per column
+ * @param localeSetting Number and date spelling; detected when 'auto'
+ */
+const readRowRange = (
+  sheet: Pick<SheetData, 'originalData' | 'cellFormats'>,
+  range: RowRange,
+  columnTypes?: ColumnType[],
+  localeSetting: LocaleSetting = AUTO_LOCALE_SETTING
+): Pick<ParsedData, 'headers' | 'rows' | 'columnTypes' | 'inferredTypes' | 'columnLocales'> => {
+  const rawData = sheet.originalData as (string | number)[][];
+  const headers = (rawData[range.headerRow] ?? []).map((h, i) => (isBlankCell(h) ? `Column ${i + 1}` : String(h)));
+  const rawRows = rawData.slice(range.headerRow + 1, range.lastDataRow + 1);
+  const formats = sheet.cellFormats.slice(range.headerRow + 1, range.lastDataRow + 1);
+
+  const sample = rawRows.slice(0, LOCALE_SAMPLE_ROWS);
+  const sheetLocale = detectParsingLocale(sample.flat());
+  const columnLocales = headers.map((_, c) =>
+    resolveParsingLocale(localeSetting, detectParsingLocale(sample.map(row => row[c]), sheetLocale))
+  );
+  const inferredTypes = headers.map((header, c) =>
+    inferColumnType(header, rawRows.map(row => row[c]), formats.map(row => row?.[c] ?? ''), columnLocales[c])
+  );
+  const types = columnTypes && columnTypes.length === headers.length ? columnTypes : inferredTypes;
+  const rows = rawRows.map(row =>
+    row.map((cell, c) => convertCell(cell, types[c] ?? 'text', columnLocales[c] ?? DEFAULT_PARSING_LOCALE))
+  );
+  return { headers, rows, columnTypes: types, inferredTypes, columnLocales };
+};
+
+/**
+ * Reads one worksheet, detecting its header row, trailing summary rows and column types
+ * @param worksheet Worksheet, read with number formats
+ * @returns Headers, rows and raw data, or null when the sheet is empty
+ */
+const parseWorksheet = (worksheet: XLSX.WorkSheet): Omit<SheetData, 'name'> | null => {
+  // Convert to JSON
+  const rawData = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '' }) as unknown[][];
+  if (!rawData || !rawData.length) return null;
+
+  // Rows start at the top of the sheet's used range, blank rows included
+  const origin = XLSX.utils.decode_range(worksheet['!ref'] ?? 'A1').s;
+  const cellFormats = rawData.map((row, r) =>
+    row.map((_, c) => getCellFormat(worksheet[XLSX.utils.encode_cell({ r: origin.r + r, c: origin.c + c })]))
+  );
+
+  const detectedRange = clampRowRange(detectRowRange(rawData), rawData.length);
+  const { headers, rows } = readRowRange({ originalData: rawData, cellFormats }, detectedRange);
+  return { headers, rows, originalData: rawData, cellFormats, detectedRange };
+};
+
+/**
+ * Reads every non-empty sheet of a workbook
+ * @param workbook Workbook read by XLSX
+ * @returns Sheets in workbook order
+ */
+export const parseWorkbook = (workbook: XLSX.WorkBook): SheetData[] =>
+  workbook.SheetNames.flatMap(name => {
+    const sheet = parseWorksheet(workbook.Sheets[name]);
+    return sheet ? [{ name, ...sheet }] : [];
+  });
+
+/**
+ * Makes one sheet of a parsed file, and a row range of it, the active data
+ * @param data Parsed file
+ * @param sheetName Sheet to analyze
+ * @param rowRange Header and last data row; the detected range when omitted
+ * @param columnTypes Column type overrides, one per column; inferred when omitted
+ * @returns The file with that sheet's headers and rows
+ */
+export const selectSheet = (
+  data: ParsedData,
+  sheetName: string,
+  rowRange?: RowRange,
+  columnTypes?: ColumnType[]
+): ParsedData => {
+  const sheet = data.sheets?.find(candidate => candidate.name === sheetName);
+  if (!sheet) return data;
+  const range = rowRange ? clampRowRange(rowRange, sheet.originalData.length) : sheet.detectedRange;
+  const localeSetting = data.localeSetting ?? AUTO_LOCALE_SETTING;
+  return {
+    ...readRowRange(sheet, range, columnTypes, localeSetting),
+    originalData: sheet.originalData,
+    sheetName: sheet.name,
+    sheets: data.sheets,
+    rowRange: range,
+    localeSetting,
+  };
+};
+
+/**
+ * Re-reads one column of the active sheet as another type; headers stay the same
+ * @param data Parsed file
+ * @param columnIndex Column to override
+ * @param type New column type
+ */
+export const setColumnType = (data: ParsedData, columnIndex: number, type: ColumnType): ParsedData => {
+  if (!data.sheetName || !data.columnTypes) return data;
+  const columnTypes = data.columnTypes.map((current, i) => (i === columnIndex ? type : current));
+  return { ...selectSheet(data, data.sheetName, data.rowRange, columnTypes), headers: data.headers };
+};
+
+/**
+ * Re-reads the active sheet with another number and date spelling; headers and type overrides stay the same
+ * Columns whose type was not overridden are inferred again, since a decimal comma can turn text into numbers.
+ * @param data Parsed file
+ * @param localeSetting New setting
+ */
+export const setLocaleSetting = (data: ParsedData, localeSetting: LocaleSetting): ParsedData => {
+  if (!data.sheetName) return data;
+  const reread = selectSheet({ ...data, localeSetting }, data.sheetName, data.rowRange);
+  const columnTypes = reread.columnTypes?.map((type, i) =>
+    data.columnTypes && data.columnTypes[i] !== data.inferredTypes?.[i] ? data.columnTypes[i] : type
+  );
+  return { ...selectSheet({ ...data, localeSetting }, data.sheetName, data.rowRange, columnTypes), headers: data.headers };
+};
+
+/**
+ * Spreadsheet row number of the first data row (row 1 is the top of the sheet)
+ * @param data Parsed file
+ */
+export const getFirstRowNumber = (data: ParsedData): number => (data.rowRange?.headerRow ?? 0) + 2;
+
+// Workbooks with the same sheet names are treated as the same structure
+const workbookSignature = (sheets: SheetData[]): string => sheets.map(sheet => sheet.name).join('\u0000');
+
+/**
+ * Sheet last chosen for a workbook with the same structure
+ * @param sheets Sheets of the workbook
+ * @returns Sheet name, or null when none was remembered or storage is unavailable
+ */
+export const recallSheet = (sheets: SheetData[]): string | null => {
+  try {
+    const remembered = JSON.parse(localStorage.getItem(LAST_SHEET_STORAGE_KEY) ?? '{}');
+    const name = remembered[workbookSignature(sheets)];
+    return sheets.some(sheet => sheet.name === name) ? name : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Remembers the sheet chosen for a workbook, for the next file with the same structure
+ * @param sheets Sheets of the workbook
+ * @param sheetName Chosen sheet
+ */
+export const rememberSheet = (sheets: SheetData[], sheetName: string): void => {
+  try {
+    const remembered = JSON.parse(localStorage.getItem(LAST_SHEET_STORAGE_KEY) ?? '{}');
+    remembered[workbookSignature(sheets)] = sheetName;
+    localStorage.setItem(LAST_SHEET_STORAGE_KEY, JSON.stringify(remembered));
+  } catch {
+    // Storage unavailable (private mode, tests): the first sheet is used next time
+  }
+};
+
 export const parseFile = async (file: File): Promise<ParsedData | null> => {
   try {
     const arrayBuffer = await file.arrayBuffer();
-    const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-    const sheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[sheetName];
-    
-    // Convert to JSON
-    const rawData = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '' });
+    // Text files (CSV) are read as written, so numbers and dates are parsed with the file's locale, not SheetJS's
+    const workbook = XLSX.read(arrayBuffer, { type: 'array', cellNF: true, raw: true });
+    const sheets = parseWorkbook(workbook);
     
     // Ensure we have data
-    if (!rawData || !rawData.length) {
+    if (!sheets.length) {
       toast.error('No data found in the file');
       return null;
     }
     
-    // Extract headers (first row)
-    const headers = (rawData[0] as any[]).map(h => String(h || `Column ${h + 1}`));
-    
-    // Extract data rows
-    const rows = rawData.slice(1) as (string | number)[][];
-    
-    // Convert numeric Excel dates (including fractional dates with times) to readable strings in all cells
-    for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
-      for (let colIndex = 0; colIndex < rows[rowIndex].length; colIndex++) {
-        const value = rows[rowIndex][colIndex];
-        if (typeof value === 'number' && isExcelDate(value)) {
-          rows[rowIndex][colIndex] = formatExcelDate(value);
-        }
-      }
-    }
-    
-    return {
-      headers,
-      rows,
-      originalData: rawData,
-    };
+    // Open the sheet last used for this workbook structure, otherwise the first sheet with data
+    const sheet = sheets.find(candidate => candidate.name === recallSheet(sheets)) ?? sheets[0];
+    return selectSheet({ headers: [], rows: [], originalData: [], sheets }, sheet.name);
   } catch (error) {
     console.error('Error parsing file:', error);
     toast.error('Failed to parse file. Please ensure it\'s a valid spreadsheet.');
@@ -92,7 +576,13 @@ export const validateFileType = (file: File): boolean => {
   return supportedFileTypes.includes(file.type);
 };
 
-export const cleanNumericValue = (value: any): number | null => {
+/**
+ * Reads a number from a cell, ignoring currency symbols and thousands separators
+ * Parentheses and a trailing minus mark negatives; a percent sign is dropped without scaling.
+ * @param value Cell value
+ * @param locale Decimal separator of text numbers (the date order is not used)
+ */
+export const cleanNumericValue = (value: any, locale: ParsingLocale = DEFAULT_PARSING_LOCALE): number | null => {
   if (value === null || value === undefined || value === '') {
     return null;
   }
@@ -105,14 +595,22 @@ export const cleanNumericValue = (value: any): number | null => {
   // Convert to string and clean it
   let strValue = String(value);
   
-  // Remove currency symbols, commas, spaces, and handle parentheses for negative numbers
-  strValue = strValue.replace(/[$£€¥]|\s/g, '')
-                    .replace(/,/g, '');
+  // Remove currency symbols, spaces, apostrophes and the thousands separator, and make the decimal separator a point
+  strValue = strValue.replace(/[$£€¥'’]|\s/g, '');
+  strValue = locale.decimalSeparator === ','
+    ? strValue.replace(/\./g, '').replace(/,/g, '.')
+    : strValue.replace(/,/g, '');
   
   // Handle parentheses for negative numbers
   if (strValue.startsWith('(') && strValue.endsWith(')')) {
     strValue = '-' + strValue.slice(1, -1);
   }
+
+  // Percent suffix (the value stays in percent) and trailing minus, as in "12,50-" or "0,35-%"
+  strValue = strValue.replace(/%$/, '');
+  if (/^[\d.]+-$/.test(strValue)) {
+    strValue = '-' + strValue.slice(0, -1);
+  }
   
   // Convert to number
   const numValue = parseFloat(strValue);
@@ -120,6 +618,73 @@ export const cleanNumericValue = (value: any): number | null => {
   return isNaN(numValue) ? null : numValue;
 };
 
+/**
+ * Data format a column's type suggests: percent columns hold fractions ("5%" is read as 0.05), currency columns PnL
+ * @param type Column type
+ * @returns Suggested format, or null when the type suggests none
+ */
+export const suggestDataFormat = (type?: ColumnType): string | null => {
+  if (type === 'percent') return 'decimal';
+  if (type === 'currency') return 'absolute';
+  return null;
+};
+
+/**
+ * Format a column is read in
+ * Percent columns are already fractions, so reading them as percent, PnL or auto-detected values would scale them
+ * again; they are decimal returns unless given as log returns.
+ * @param type Column type
+ * @param dataFormat Chosen format
+ */
+export const resolveColumnFormat = (type: ColumnType | undefined, dataFormat: string): string =>
+  type === 'percent' && dataFormat !== 'log' ? 'decimal' : dataFormat;
+
+/**
+ * Column analyzed by default: the first whose header reads like returns or PnL, else the first column
+ * @param headers Column headers
+ */
+export const pickDefaultColumn = (headers: string[]): number => {
+  const commonNames = ['return', 'pnl', 'value', 'profit', 'loss'];
+  const bestMatch = headers.findIndex(header => commonNames.some(name => header.toLowerCase().includes(name)));
+  return bestMatch !== -1 ? bestMatch : 0;
+};
+
+// Formats holding levels (prices, NAV, account equity) rather than per-period returns
+export const LEVEL_FORMATS = ['price', 'equity'];
+
+export const isLevelFormat = (dataFormat: string): boolean => LEVEL_FORMATS.includes(dataFormat);
+
+export type LevelConversion = {
+  method: 'simple' | 'log'; // P₁/P₀ - 1 or ln(P₁/P₀)
+  startingValue?: number;   // equity before the first row; without it the first row is only the base
+};
+
+/**
+ * Heuristic for price or NAV levels: strictly positive values that move by small relative steps
+ * @param values Raw values in file order
+ */
+export const looksLikeLevels = (values: number[]): boolean => {
+  // Decimal returns stay below 1, so a level series must reach at least 1
+  if (values.length < 3 || values.some(v => v <= 0) || Math.max(...values) < 1) return false;
+  const changes = values.slice(1).map((v, i) => Math.abs(v / values[i] - 1)).sort((a, b) => a - b);
+  return changes[Math.floor(changes.length / 2)] < 0.1;
+};
+
+/**
+ * Derives per-period returns from consecutive levels
+ * @param levels Prices, NAV or equity values in chronological order
+ * @param conversion Simple or log returns, and an optional starting value
+ * @returns One return per row after the first, or per row when a starting value is given
+ */
+export const convertLevelsToReturns = (levels: number[], conversion: LevelConversion): number[] => {
+  const base = conversion.startingValue && conversion.startingValue > 0
+    ? [conversion.startingValue, ...levels]
+    : levels;
+  return base.slice(1).map((level, i) => (conversion.method === 'log'
+    ? Math.log(level / base[i])
+    : level / base[i] - 1));
+};
+
 export const extractValidNumbers = (
   data: any[],
   columnIndex: number,
@@ -148,6 +713,18 @@ export const extractValidNumbers = (
     // User explicitly specified absolute dollar values - use as-is
     processedValues = values;
     detectedFormat = 'absolute';
+  } else if (dataFormat === 'log') {
+    // User explicitly specified log returns (0.05 means ln(1 + r) = 0.05) - converted to simple returns by the engine
+    processedValues = values;
+    detectedFormat = 'log';
+  } else if (isLevelFormat(dataFormat)) {
+    // Price or equity levels are converted to returns by the caller, row against row
+    processedValues = values;
+    detectedFormat = dataFormat;
+  } else if (looksLikeLevels(values)) {
+    console.log('Auto-detected format: price levels - using as is for conversion to returns');
+    processedValues = values;
+    detectedFormat = 'price';
   } else {
     // Auto-detect format - with more rigorous checks
     // Sample all values for a more accurate assessment
@@ -207,3 +784,250 @@ export const extractValidNumbers = (
 
   return { values: processedValues, detectedFormat };
 };
+
+// Order of a column's dated rows: already oldest first, put in date order, or newest first but left as is because
+// some rows have no date
+export type RowOrder = 'chronological' | 'sorted' | 'descending';
+
+/**
+ * How rows are ordered by date
+ * @param timestamps Date of each row in file order, null for none
+ * @returns 'chronological' when the dates never go back; 'sorted' when they do and every row has a date, so the rows
+ *   can be sorted; 'descending' when rows without a date prevent sorting and the dates mostly run newest first
+ */
+const detectRowOrder = (timestamps: (number | null)[]): RowOrder => {
+  const dates = timestamps.filter((t): t is number => t !== null);
+  const steps = dates.slice(1).map((t, i) => t - dates[i]);
+  if (steps.every(step => step >= 0)) return 'chronological';
+  if (dates.length === timestamps.length) return 'sorted';
+  return steps.filter(step => step < 0).length > steps.filter(step => step > 0).length ? 'descending' : 'chronological';
+};
+
+/**
+ * Extracts a returns series with dates and source row numbers from a column
+ * Rows that all have a date are put in date order first, so newest-first exports convert levels and compound
+ * oldest first; source rows then follow the dates rather than the file.
+ * @param rows Data rows (without the header)
+ * @param columnIndex Returns/PnL column
+ * @param dataFormat Format of the values, or 'auto' to detect it
+ * @param dateColumnIndex Date column, or -1 for none
+ * @param rowNumbers Spreadsheet row number of each row; defaults to a header row followed by the rows
+ * @param levelConversion How price or equity levels become returns (simple returns by default)
+ * @returns Series of rows with a numeric value, the detected format, and how the rows were ordered
+ */
+export const extractReturnsSeries = (
+  rows: (string | number)[][],
+  columnIndex: number,
+  dataFormat: string = 'auto',
+  dateColumnIndex: number = -1,
+  rowNumbers?: number[],
+  levelConversion: LevelConversion = { method: 'simple' }
+): { series: ReturnsSeries, detectedFormat: string, rowOrder: RowOrder } => {
+  const numeric = rows
+    .map((row, i) => ({
+      row,
+      rowNumber: rowNumbers ? rowNumbers[i] : i + 2,
+      timestamp: dateColumnIndex >= 0 ? parseDateValue(row[dateColumnIndex]) : null,
+    }))
+    .filter(({ row }) => cleanNumericValue(row[columnIndex]) !== null);
+  const rowOrder = detectRowOrder(numeric.map(k => k.timestamp));
+  const kept = rowOrder === 'sorted'
+    ? [...numeric].sort((a, b) => (a.timestamp as number) - (b.timestamp as number))
+    : numeric;
+
+  const { values, detectedFormat } = extractValidNumbers(kept.map(k => k.row), columnIndex, dataFormat);
+  const timestamps = kept.map(k => k.timestamp);
+  const sourceRows = kept.map(k => k.rowNumber);
+
+  if (isLevelFormat(detectedFormat)) {
+    // Each return belongs to the row that closes its period; without a starting value the first row is only the base
+    const returns = convertLevelsToReturns(values, levelConversion);
+    const offset = values.length - returns.length;
+    return {
+      series: createReturnsSeries(returns, timestamps.slice(offset), sourceRows.slice(offset)),
+      detectedFormat,
+      rowOrder,
+    };
+  }
+
+  return {
+    series: createReturnsSeries(values, timestamps, sourceRows),
+    detectedFormat,
+    rowOrder,
+  };
+};
+
+/**
+ * Reads a cash-flow column for the rows kept in a series
+ * Blank cells are no flow. Flows on rows without a value carry forward to the next kept row, and flows after the
+ * last kept row are added to it, so none are lost.
+ * @param rows Data rows (row i is spreadsheet row i + firstRowNumber)
+ * @param columnIndex Index of the cash-flow column
+ * @param sourceRows Spreadsheet rows kept in the series, in series order
+ * @param firstRowNumber Spreadsheet row of the first data row
+ * @returns One cash flow per kept row
+ */
+export const extractCashFlows = (
+  rows: (string | number)[][],
+  columnIndex: number,
+  sourceRows: number[],
+  firstRowNumber: number = 2
+): number[] => {
+  // Rows are walked in file order, also when the series was put in date order
+  const order = sourceRows.map((_, i) => i).sort((a, b) => sourceRows[a] - sourceRows[b]);
+  const flows = sourceRows.map(() => 0);
+  let next = 0;
+  let pending = 0;
+  rows.forEach((row, i) => {
+    pending += cleanNumericValue(row[columnIndex]) ?? 0;
+    if (next < order.length && sourceRows[order[next]] === i + firstRowNumber) {
+      flows[order[next++]] = pending;
+      pending = 0;
+    }
+  });
+  if (order.length > 0) flows[order[order.length - 1]] += pending;
+  return flows;
+};
+
+// Trade ledger columns; -1 when a column is not mapped
+export type TradeColumnMapping = {
+  symbol: number;
+  entryTime: number;
+  exitTime: number;   // required
+  quantity: number;   // required
+  entryPrice: number; // required
+  exitPrice: number;  // required
+  fees: number;
+  side: number;       // long/short or buy/sell; overrides the sign of quantity
+};
+
+export const TRADE_COLUMN_LABELS: Record<keyof TradeColumnMapping, string> = {
+  symbol: 'Symbol',
+  entryTime: 'Entry Time',
+  exitTime: 'Exit Time',
+  quantity: 'Quantity',
+  entryPrice: 'Entry Price',
+  exitPrice: 'Exit Price',
+  fees: 'Fees',
+  side: 'Side',
+};
+
+export const REQUIRED_TRADE_COLUMNS: (keyof TradeColumnMapping)[] = ['exitTime', 'quantity', 'entryPrice', 'exitPrice'];
+
+// Header names for each ledger column, checked in this order so price headers are not taken for times
+const TRADE_HEADER_PATTERNS: [keyof TradeColumnMapping, RegExp][] = [
+  ['entryPrice', /(entry|open|buy).*price|avg.*entry/i],
+  ['exitPrice', /(exit|close|sell).*price|avg.*exit/i],
+  ['entryTime', /(entry|open).*(time|date)|^(entry|open)(ed)?$/i],
+  ['exitTime', /(exit|close).*(time|date)|^(exit|close)d?$/i],
+  ['symbol', /symbol|ticker|instrument|asset|contract|market/i],
+  ['quantity', /qty|quantity|size|shares|lots|units/i],
+  ['fees', /fee|commission/i],
+  ['side', /side|direction|long.?short|position/i],
+];
+
+/**
+ * Guesses the ledger columns from header names
+ * @param headers File headers
+ * @returns Mapping with -1 for columns that were not recognised
+ */
+export const detectTradeColumns = (headers: string[]): TradeColumnMapping => {
+  const mapping = Object.fromEntries(
+    Object.keys(TRADE_COLUMN_LABELS).map(key => [key, -1])
+  ) as TradeColumnMapping;
+  const taken = new Set<number>();
+  TRADE_HEADER_PATTERNS.forEach(([key, pattern]) => {
+    const index = headers.findIndex((header, i) => !taken.has(i) && pattern.test(header));
+    if (index !== -1) {
+      mapping[key] = index;
+      taken.add(index);
+    }
+  });
+  return mapping;
+};
+
+/**
+ * True when every required ledger column is mapped
+ */
+export const isTradeMappingComplete = (mapping: TradeColumnMapping): boolean =>
+  REQUIRED_TRADE_COLUMNS.every(key => mapping[key] !== -1);
+
+/**
+ * Reads round-trip trades from ledger rows and computes each trade's realized PnL
+ * @param rows Data rows (row i is spreadsheet row i + firstRowNumber)
+ * @param mapping Ledger columns
+ * @param firstRowNumber Spreadsheet row of the first data row
+ * @returns Trades, and the spreadsheet rows skipped for a missing exit date, quantity or price
+ */
+export const parseTradeLedger = (
+  rows: (string | number)[][],
+  mapping: TradeColumnMapping,
+  firstRowNumber: number = 2
+): { trades: Trade[], skippedRows: number[] } => {
+  const trades: Trade[] = [];
+  const skippedRows: number[] = [];
+
+  rows.forEach((row, i) => {
+    const exitTime = parseDateValue(row[mapping.exitTime]);
+    const quantity = cleanNumericValue(row[mapping.quantity]);
+    const entryPrice = cleanNumericValue(row[mapping.entryPrice]);
+    const exitPrice = cleanNumericValue(row[mapping.exitPrice]);
+    if (exitTime === null || quantity === null || entryPrice === null || exitPrice === null) {
+      // Blank lines are not worth reporting
+      if (row.some(cell => cell !== '' && cell !== null && cell !== undefined)) skippedRows.push(i + firstRowNumber);
+      return;
+    }
+
+    const side = mapping.side !== -1 ? String(row[mapping.side] ?? '') : '';
+    const signedQuantity = /short|sell/i.test(side)
+      ? -Math.abs(quantity)
+      : /long|buy/i.test(side) ? Math.abs(quantity) : quantity;
+    const fees = mapping.fees !== -1 ? Math.abs(cleanNumericValue(row[mapping.fees]) ?? 0) : 0;
+
+    trades.push({
+      symbol: mapping.symbol !== -1 ? String(row[mapping.symbol] ?? '') : '',
+      entryTime: mapping.entryTime !== -1 ? parseDateValue(row[mapping.entryTime]) : null,
+      exitTime,
+      quantity: signedQuantity,
+      entryPrice,
+      exitPrice,
+      fees,
+      pnl: calculateTradePnl(signedQuantity, entryPrice, exitPrice, fees),
+      sourceRow: i + firstRowNumber,
+    });
+  });
+
+  return { trades, skippedRows };
+};
+
+/**
+ * Sums realized trade PnL into daily PnL
+ * Every business day between the first and last exit is kept, with zero PnL on days without exits, so idle days
+ * count towards volatility; weekend days appear only when a trade closed on them. Each day keeps the row of its
+ * last trade (0 on days without trades).
+ * @param trades Trades with exit dates
+ * @returns Daily absolute PnL series
+ */
+export const aggregateTradesToDailyPnl = (trades: Trade[]): ReturnsSeries => {
+  if (trades.length === 0) return createReturnsSeries([]);
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const byDay = new Map<number, { pnl: number, sourceRow: number }>();
+  trades.forEach(trade => {
+    const day = byDay.get(trade.exitTime) ?? { pnl: 0, sourceRow: 0 };
+    byDay.set(trade.exitTime, { pnl: day.pnl + trade.pnl, sourceRow: Math.max(day.sourceRow, trade.sourceRow) });
+  });
+
+  const days = [...byDay.keys()].sort((a, b) => a - b);
+  const values: number[] = [];
+  const timestamps: number[] = [];
+  const sourceRows: number[] = [];
+  for (let day = days[0]; day <= days[days.length - 1]; day += DAY_MS) {
+    const traded = byDay.get(day);
+    const weekend = [0, 6].includes(new Date(day).getUTCDay());
+    if (!traded && weekend) continue;
+    values.push(traded?.pnl ?? 0);
+    timestamps.push(day);
+    sourceRows.push(traded?.sourceRow ?? 0);
+  }
+  return createReturnsSeries(values, timestamps, sourceRows);
+};
@@ -0,0 +1,105 @@
+import { chiSquareCdf, kurtosis, mean, normalCdf, normalInverseCdf, skewness } from '@/utils/statsUtils';
+
+export type NormalityTest = {
+  statistic: number;
+  pValue: number;
+};
+
+// Royston's Shapiro-Wilk approximation is validated up to this sample size
+export const SHAPIRO_WILK_MAX_N = 5000;
+
+/**
+ * Jarque-Bera test of normality from sample skewness and kurtosis
+ * @param values Sample
+ * @returns JB statistic and p-value (chi-square with 2 degrees of freedom)
+ */
+export const jarqueBeraTest = (values: number[]): NormalityTest => {
+  const n = values.length;
+  const s = skewness(values);
+  const k = kurtosis(values) - 3;
+  const statistic = (n / 6) * (s * s + (k * k) / 4);
+  return { statistic, pValue: 1 - chiSquareCdf(statistic, 2) };
+};
+
+// Evaluates c[0] + c[1]x + c[2]x² + ...
+const polynomial = (coefficients: number[], x: number): number =>
+  coefficients.reduce((sum, c, i) => sum + c * Math.pow(x, i), 0);
+
+/**
+ * Shapiro-Wilk test of normality (Royston 1995, algorithm AS R94)
+ * @param values Sample (3 or more values)
+ * @returns W statistic and p-value
+ */
+export const shapiroWilkTest = (values: number[]): NormalityTest => {
+  const n = values.length;
+  if (n < 3) return { statistic: 1, pValue: 1 };
+
+  const x = [...values].sort((a, b) => a - b);
+  const xMean = mean(x);
+  const ssq = x.reduce((sum, v) => sum + Math.pow(v - xMean, 2), 0);
+  if (ssq <= 0) return { statistic: 1, pValue: 1 };
+
+  // Coefficients from expected normal order statistics
+  const m = x.map((_, i) => normalInverseCdf((i + 1 - 0.375) / (n + 0.25)));
+  const mm = m.reduce((sum, v) => sum + v * v, 0);
+  const u = 1 / Math.sqrt(n);
+  const a: number[] = new Array(n).fill(0);
+  const aN = m[n - 1] / Math.sqrt(mm) + polynomial([0, 0.221157, -0.147981, -2.071190, 4.434685, -2.706056], u);
+
+  if (n === 3) {
+    a[0] = -Math.SQRT1_2;
+    a[2] = Math.SQRT1_2;
+  } else if (n > 5) {
+    const aN1 = m[n - 2] / Math.sqrt(mm) + polynomial([0, 0.042981, -0.293762, -1.752461, 5.682633, -3.582633], u);
+    const phi = (mm - 2 * m[n - 1] ** 2 - 2 * m[n - 2] ** 2) / (1 - 2 * aN ** 2 - 2 * aN1 ** 2);
+    for (let i = 2; i < n - 2; i++) a[i] = m[i] / Math.sqrt(phi);
+    a[0] = -aN;
+    a[1] = -aN1;
+    a[n - 2] = aN1;
+    a[n - 1] = aN;
+  } else {
+    const phi = (mm - 2 * m[n - 1] ** 2) / (1 - 2 * aN ** 2);
+    for (let i = 1; i < n - 1; i++) a[i] = m[i] / Math.sqrt(phi);
+    a[0] = -aN;
+    a[n - 1] = aN;
+  }
+
+  const numerator = Math.pow(a.reduce((sum, coefficient, i) => sum + coefficient * x[i], 0), 2);
+  const statistic = Math.min(numerator / ssq, 1);
+
+  // p-value from Royston's normalizing transformations
+  let pValue: number;
+  if (n === 3) {
+    pValue = Math.max(0, (6 / Math.PI) * (Math.asin(Math.sqrt(statistic)) - Math.asin(Math.sqrt(0.75))));
+  } else if (n <= 11) {
+    const gamma = 0.459 * n - 2.273;
+    const w = -Math.log(gamma - Math.log(1 - statistic));
+    const mu = polynomial([0.5440, -0.39978, 0.025054, -0.0006714], n);
+    const sigma = Math.exp(polynomial([1.3822, -0.77857, 0.062767, -0.0020322], n));
+    pValue = 1 - normalCdf((w - mu) / sigma);
+  } else {
+    const logN = Math.log(n);
+    const w = Math.log(1 - statistic);
+    const mu = polynomial([-1.5861, -0.31082, -0.083751, 0.0038915], logN);
+    const sigma = Math.exp(polynomial([-0.4803, -0.082676, 0.0030302], logN));
+    pValue = 1 - normalCdf((w - mu) / sigma);
+  }
+
+  return { statistic, pValue: Math.min(Math.max(pValue, 0), 1) };
+};
+
+/**
+ * Points for a normal QQ plot: theoretical quantiles against standardized sample quantiles
+ * @param values Sample
+ */
+export const calculateQQPoints = (values: number[]): { theoretical: number; sample: number }[] => {
+  const n = values.length;
+  const m = mean(values);
+  const sd = Math.sqrt(values.reduce((sum, v) => sum + Math.pow(v - m, 2), 0) / (n - 1));
+  return [...values]
+    .sort((a, b) => a - b)
+    .map((v, i) => ({
+      theoretical: normalInverseCdf((i + 1 - 0.375) / (n + 0.25)),
+      sample: sd > 0 ? (v - m) / sd : 0,
+    }));
+};
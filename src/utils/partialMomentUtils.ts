@@ -0,0 +1,105 @@
+// Partial moments are population averages over all periods (divided by n), not only the periods beyond the threshold.
+
+export type PartialMomentRatios = {
+  threshold: number;            // per-period threshold the moments are taken around
+  omegaRatio: number;           // UPM1 / LPM1
+  kappa3Ratio: number;          // (mean - threshold) / LPM3^(1/3)
+  upsidePotentialRatio: number; // UPM1 / √LPM2
+};
+
+export type OmegaCurvePoint = {
+  threshold: number;
+  omega: number;
+};
+
+export const DEFAULT_OMEGA_CURVE_STEPS = 100;
+
+const EPSILON = 1e-8;
+
+/**
+ * Lower partial moment: mean of max(threshold - r, 0)^order
+ * @param returns Fractional returns
+ * @param threshold Per-period threshold
+ * @param order Moment order (0 gives the shortfall probability)
+ */
+export const lowerPartialMoment = (returns: number[], threshold: number, order: number): number => {
+  if (returns.length === 0) return 0;
+  const total = returns.reduce((sum, r) => (r < threshold ? sum + Math.pow(threshold - r, order) : sum), 0);
+  return total / returns.length;
+};
+
+/**
+ * Upper partial moment: mean of max(r - threshold, 0)^order
+ * @param returns Fractional returns
+ * @param threshold Per-period threshold
+ * @param order Moment order (0 gives the probability of exceeding the threshold)
+ */
+export const upperPartialMoment = (returns: number[], threshold: number, order: number): number => {
+  if (returns.length === 0) return 0;
+  const total = returns.reduce((sum, r) => (r > threshold ? sum + Math.pow(r - threshold, order) : sum), 0);
+  return total / returns.length;
+};
+
+/**
+ * Omega ratio: probability-weighted gains over losses relative to the threshold
+ * @returns UPM1 / LPM1, or 0 when there are no returns below the threshold
+ */
+export const omegaRatio = (returns: number[], threshold: number): number => {
+  const lpm = lowerPartialMoment(returns, threshold, 1);
+  return lpm > EPSILON ? upperPartialMoment(returns, threshold, 1) / lpm : 0;
+};
+
+/**
+ * Kappa ratio of the given order (Kappa-2 is a per-period Sortino on the LPM)
+ * @returns (mean - threshold) / LPMn^(1/n), or 0 when the LPM is (near) zero
+ */
+export const kappaRatio = (returns: number[], threshold: number, order: number): number => {
+  const lpm = Math.pow(lowerPartialMoment(returns, threshold, order), 1 / order);
+  if (lpm <= EPSILON) return 0;
+  const meanReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  return (meanReturn - threshold) / lpm;
+};
+
+/**
+ * Upside Potential ratio (Sortino, van der Meer and Plantinga)
+ * @returns UPM1 / √LPM2, or 0 when the LPM is (near) zero
+ */
+export const upsidePotentialRatio = (returns: number[], threshold: number): number => {
+  const lpm = Math.sqrt(lowerPartialMoment(returns, threshold, 2));
+  return lpm > EPSILON ? upperPartialMoment(returns, threshold, 1) / lpm : 0;
+};
+
+/**
+ * Omega, Kappa-3 and Upside Potential ratios at a single threshold
+ * @param returns Fractional returns
+ * @param threshold Per-period threshold (usually the periodic target return)
+ */
+export const calculatePartialMomentRatios = (returns: number[], threshold: number): PartialMomentRatios => ({
+  threshold,
+  omegaRatio: omegaRatio(returns, threshold),
+  kappa3Ratio: kappaRatio(returns, threshold, 3),
+  upsidePotentialRatio: upsidePotentialRatio(returns, threshold),
+});
+
+/**
+ * Sweeps the Omega ratio across the observed return range
+ * @param returns Fractional returns
+ * @param steps Number of thresholds (midpoints of equal slices between the min and max return)
+ * @returns Thresholds in ascending order with their Omega ratio
+ */
+export const calculateOmegaCurve = (
+  returns: number[],
+  steps: number = DEFAULT_OMEGA_CURVE_STEPS
+): OmegaCurvePoint[] => {
+  if (returns.length === 0) return [];
+  const min = Math.min(...returns);
+  const max = Math.max(...returns);
+  const width = (max - min) / steps;
+  if (width <= 0) return [];
+
+  // Midpoints keep both ends finite: at the minimum return there are no losses to divide by
+  return Array.from({ length: steps }, (_, i) => {
+    const threshold = min + (i + 0.5) * width;
+    return { threshold, omega: omegaRatio(returns, threshold) };
+  });
+};
@@ -0,0 +1,100 @@
+import { kurtosis, normalCdf, normalInverseCdf, skewness } from '@/utils/statsUtils';
+
+export type ProbabilisticSharpeResult = {
+  benchmarkSharpe: number;          // annualized Sharpe the estimate is tested against
+  psr: number;                      // P(true Sharpe > benchmark Sharpe)
+  numberOfTrials: number;
+  deflatedBenchmarkSharpe: number;  // annualized expected maximum Sharpe under the null across trials
+  dsr: number;                      // PSR against the deflated benchmark
+  minTrackRecordLength: number;     // periods needed for PSR >= confidence (Infinity if Sharpe <= benchmark)
+  confidence: number;
+};
+
+export const DEFAULT_PSR_CONFIDENCE = 0.95;
+
+const EULER_MASCHERONI = 0.5772156649015329;
+
+/**
+ * Variance term of the Sharpe ratio estimator under non-normal returns (Mertens 2002)
+ * @param sharpe Per-period Sharpe ratio
+ * @param skew Skewness of returns
+ * @param kurt Kurtosis of returns (not excess)
+ * @returns 1 - γ3·SR + (γ4 - 1)/4·SR²
+ */
+const sharpeVarianceTerm = (sharpe: number, skew: number, kurt: number): number =>
+  Math.max(1 - skew * sharpe + ((kurt - 1) / 4) * sharpe * sharpe, 1e-12);
+
+/**
+ * Probabilistic Sharpe Ratio (Bailey & López de Prado 2012)
+ * @param sharpe Per-period Sharpe ratio estimate
+ * @param benchmarkSharpe Per-period benchmark Sharpe ratio
+ * @param n Number of observations
+ * @param skew Skewness of returns
+ * @param kurt Kurtosis of returns (not excess)
+ * @returns Probability that the true Sharpe exceeds the benchmark
+ */
+export const probabilisticSharpeRatio = (
+  sharpe: number,
+  benchmarkSharpe: number,
+  n: number,
+  skew: number,
+  kurt: number
+): number => {
+  if (n < 2) return 0.5;
+  const z = ((sharpe - benchmarkSharpe) * Math.sqrt(n - 1)) / Math.sqrt(sharpeVarianceTerm(sharpe, skew, kurt));
+  return normalCdf(z);
+};
+
+/**
+ * Calculates PSR, Deflated Sharpe Ratio and minimum track record length
+ * @param returns Fractional returns
+ * @param periodicExcessReturn Mean return minus the periodic risk-free rate
+ * @param stdDeviation Sample standard deviation of returns
+ * @param tradingPeriods Number of periods per year (used to de-annualize the benchmark Sharpe)
+ * @param benchmarkSharpe Annualized benchmark Sharpe ratio
+ * @param numberOfTrials Number of strategy variants tried before selecting this one
+ * @param confidence Confidence level for the minimum track record length
+ */
+export const calculateProbabilisticSharpe = (
+  returns: number[],
+  periodicExcessReturn: number,
+  stdDeviation: number,
+  tradingPeriods: number,
+  benchmarkSharpe: number = 0,
+  numberOfTrials: number = 1,
+  confidence: number = DEFAULT_PSR_CONFIDENCE
+): ProbabilisticSharpeResult => {
+  const n = returns.length;
+  const sharpe = stdDeviation > 1e-8 ? periodicExcessReturn / stdDeviation : 0;
+  const skew = skewness(returns);
+  const kurt = kurtosis(returns);
+  const annualizationFactor = Math.sqrt(tradingPeriods);
+  const periodicBenchmark = benchmarkSharpe / annualizationFactor;
+
+  const psr = probabilisticSharpeRatio(sharpe, periodicBenchmark, n, skew, kurt);
+
+  // Expected maximum Sharpe of N independent zero-skill trials, using the estimator's own
+  // variance as the cross-trial variance (only one strategy's returns are available)
+  const trials = Math.max(1, Math.floor(numberOfTrials));
+  const sharpeStd = Math.sqrt(sharpeVarianceTerm(sharpe, skew, kurt) / Math.max(n - 1, 1));
+  const expectedMaxSharpe = trials > 1
+    ? sharpeStd * ((1 - EULER_MASCHERONI) * normalInverseCdf(1 - 1 / trials)
+      + EULER_MASCHERONI * normalInverseCdf(1 - 1 / (trials * Math.E)))
+    : 0;
+  const dsr = probabilisticSharpeRatio(sharpe, expectedMaxSharpe, n, skew, kurt);
+
+  const zAlpha = normalInverseCdf(confidence);
+  const minTrackRecordLength = sharpe > periodicBenchmark
+    ? 1 + sharpeVarianceTerm(sharpe, skew, kurt) * Math.pow(zAlpha / (sharpe - periodicBenchmark), 2)
+    : Infinity;
+
+  return {
+    benchmarkSharpe,
+    psr,
+    numberOfTrials: trials,
+    deflatedBenchmarkSharpe: expectedMaxSharpe * annualizationFactor,
+    dsr,
+    minTrackRecordLength,
+    confidence,
+  };
+};
@@ -0,0 +1,97 @@
+import { ReturnsSeries, createReturnsSeries, hasTimestamps } from '@/utils/seriesUtils';
+
+export type ResampleFrequency = 'none' | 'weekly' | 'monthly' | 'quarterly' | 'annual';
+
+export const RESAMPLE_LABELS: Record<ResampleFrequency, string> = {
+  none: 'Original frequency',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  annual: 'Annual',
+};
+
+export const RESAMPLE_PERIODS_PER_YEAR: Record<Exclude<ResampleFrequency, 'none'>, number> = {
+  weekly: 52,
+  monthly: 12,
+  quarterly: 4,
+  annual: 1,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Calendar bucket a date falls into
+ * Weeks start on Monday; months, quarters and years follow the calendar (UTC).
+ * @param timestamp Date in ms since epoch
+ * @param frequency Target frequency
+ * @returns Key shared by all dates in the same bucket
+ */
+export const getBucketKey = (timestamp: number, frequency: Exclude<ResampleFrequency, 'none'>): string => {
+  const date = new Date(timestamp);
+  const year = date.getUTCFullYear();
+  switch (frequency) {
+    case 'weekly': {
+      const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+      return `W${Math.floor(timestamp / DAY_MS) - daysSinceMonday}`;
+    }
+    case 'monthly':
+      return `${year}-${date.getUTCMonth()}`;
+    case 'quarterly':
+      return `${year}-Q${Math.floor(date.getUTCMonth() / 3)}`;
+    case 'annual':
+      return String(year);
+  }
+};
+
+/**
+ * Aggregates a dated series into calendar weeks, months, quarters or years
+ * Fractional returns are compounded; absolute PnL and log returns are summed. Each bucket takes the date and source row of its
+ * last observation, and partial buckets at either end are kept.
+ * @param series Series with a date for every observation; observations out of date order are sorted first
+ * @param frequency Target frequency ('none' returns the series unchanged)
+ * @param dataFormat Format of the values ('absolute' and 'log' sum, anything else compounds)
+ * @returns Resampled series
+ */
+export const resampleSeries = (
+  series: ReturnsSeries,
+  frequency: ResampleFrequency,
+  dataFormat: string
+): ReturnsSeries => {
+  if (frequency === 'none') return series;
+  if (!hasTimestamps(series)) {
+    throw new Error('Resampling needs a date for every observation');
+  }
+
+  const additive = dataFormat === 'absolute' || dataFormat === 'log';
+  const values: number[] = [];
+  const timestamps: number[] = [];
+  const sourceRows: number[] = [];
+  let currentKey: string | null = null;
+
+  // A stable sort keeps same-day observations in their original order
+  const order = series.values
+    .map((_, i) => i)
+    .sort((a, b) => (series.timestamps[a] as number) - (series.timestamps[b] as number));
+
+  order.forEach(i => {
+    const value = series.values[i];
+    const timestamp = series.timestamps[i] as number;
+    const key = getBucketKey(timestamp, frequency);
+    if (key !== currentKey) {
+      currentKey = key;
+      values.push(additive ? 0 : 1);
+      timestamps.push(timestamp);
+      sourceRows.push(series.sourceRows[i]);
+    }
+    const last = values.length - 1;
+    values[last] = additive ? values[last] + value : values[last] * (1 + value);
+    timestamps[last] = timestamp;
+    sourceRows[last] = series.sourceRows[i];
+  });
+
+  return createReturnsSeries(
+    additive ? values : values.map(growth => growth - 1),
+    timestamps,
+    sourceRows
+  );
+};
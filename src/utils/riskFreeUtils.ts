@@ -0,0 +1,114 @@
+import { ColumnType } from '@/utils/fileUtils';
+import { ReturnsSeries, hasTimestamps } from '@/utils/seriesUtils';
+
+// How a risk-free series is matched to the returns: by date, by spreadsheet row (same file), or on the most
+// recent observations when neither is available
+export type RiskFreeAlignment = 'date' | 'row' | 'tail';
+
+export type ExcessReturnPoint = {
+  index: number;           // 0-based observation index
+  riskFreeRate: number;    // annual yield in percent
+  cumulativeReturn: number;
+  cumulativeExcess: number; // growth of the strategy relative to the risk-free asset
+};
+
+/**
+ * Picks the alignment for a risk-free series
+ * @param series Returns series
+ * @param riskFree Risk-free yields
+ * @param sameFile True when the yields come from a column of the uploaded file
+ */
+export const chooseRiskFreeAlignment = (
+  series: ReturnsSeries,
+  riskFree: ReturnsSeries,
+  sameFile: boolean
+): RiskFreeAlignment => {
+  if (hasTimestamps(series) && hasTimestamps(riskFree)) return 'date';
+  return sameFile ? 'row' : 'tail';
+};
+
+/**
+ * Annual yields in percent from a risk-free column
+ * Percent columns hold fractions ("5.25%" and percent-formatted cells are read as 0.0525), so they are scaled back
+ * to percent; other columns are taken to hold percent numbers such as 5.25.
+ * @param yields Yields as extracted from the column
+ * @param type Column type
+ */
+export const toPercentYields = (yields: ReturnsSeries, type?: ColumnType): ReturnsSeries =>
+  type === 'percent' ? { ...yields, values: yields.values.map(value => value * 100) } : yields;
+
+/**
+ * True when every yield is below 1% in size, as fractions (0.0525 for 5.25%) would be
+ * @param yields Annual yields in percent
+ */
+export const looksLikeFractionYields = (yields: number[]): boolean =>
+  yields.length > 0 && yields.some(value => value !== 0) && yields.every(value => Math.abs(value) < 1);
+
+/**
+ * Aligns annual risk-free yields to the returns
+ * Each return takes the latest yield on or before its date (or row), since a yield holds until the next quote;
+ * returns before the first quote take the earliest yield. 'tail' pairs the most recent observations and pads
+ * the start with the earliest yield.
+ * @param series Returns series
+ * @param riskFree Annual yields in percent, in chronological order
+ * @param alignment How observations are matched
+ * @returns One annual yield per return
+ */
+export const alignRiskFree = (
+  series: ReturnsSeries,
+  riskFree: ReturnsSeries,
+  alignment: RiskFreeAlignment
+): number[] => {
+  const count = series.values.length;
+  if (riskFree.values.length === 0) {
+    throw new Error('The risk-free series has no numeric values');
+  }
+
+  if (alignment === 'tail') {
+    const recent = riskFree.values.slice(-count);
+    return [...new Array(count - recent.length).fill(recent[0]), ...recent];
+  }
+
+  const keyOf = (s: ReturnsSeries, i: number) =>
+    alignment === 'date' ? (s.timestamps[i] as number) : s.sourceRows[i];
+  const quotes = riskFree.values
+    .map((value, i) => ({ key: keyOf(riskFree, i), value }))
+    .sort((a, b) => a.key - b.key);
+
+  return series.values.map((_, i) => {
+    const key = keyOf(series, i);
+    let latest = quotes[0].value;
+    for (const quote of quotes) {
+      if (quote.key > key) break;
+      latest = quote.value;
+    }
+    return latest;
+  });
+};
+
+/**
+ * Cumulative return and cumulative excess return over the risk-free asset
+ * Excess growth is the strategy's growth divided by the risk-free growth, Π(1 + r) / Π(1 + rf) - 1.
+ * @param returns Simple fractional returns
+ * @param periodicRates Per-period risk-free rates, one per return
+ * @param annualRates Annual yields in percent, one per return
+ * @returns One point per observation
+ */
+export const calculateExcessPath = (
+  returns: number[],
+  periodicRates: number[],
+  annualRates: number[]
+): ExcessReturnPoint[] => {
+  let growth = 1;
+  let riskFreeGrowth = 1;
+  return returns.map((r, i) => {
+    growth *= 1 + r;
+    riskFreeGrowth *= 1 + periodicRates[i];
+    return {
+      index: i,
+      riskFreeRate: annualRates[i],
+      cumulativeReturn: growth - 1,
+      cumulativeExcess: growth / riskFreeGrowth - 1,
+    };
+  });
+};
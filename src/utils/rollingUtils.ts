@@ -0,0 +1,89 @@
+import {
+  CalculationParams,
+  calculateDownsideDeviation,
+  toFractionalReturns,
+  toPeriodicRate,
+  toPeriodicRiskFreeRates,
+  toPeriodicTarget,
+  toSharpeBasis,
+  toSharpeBasisRate,
+} from '@/utils/calculationUtils';
+
+export type RollingOptions = {
+  windows: number[];  // window lengths in periods, e.g. [21, 63, 126, 252]
+  step?: number;      // number of periods between consecutive windows (default 1)
+};
+
+export type RollingPoint = {
+  index: number;      // index of the last return in the window
+  sharpe: number;
+  sortino: number;
+  volatility: number; // annualized standard deviation
+};
+
+export type RollingSeries = {
+  window: number;
+  points: RollingPoint[];
+};
+
+export const DEFAULT_ROLLING_WINDOWS = [21, 63, 126, 252];
+
+/**
+ * Calculates annualized Sharpe, Sortino and volatility over trailing windows
+ * @param returns Returns as extracted from the file (converted the same way as calculateSharpeAndSortino)
+ * @param params Calculation parameters
+ * @param options Window lengths and step size
+ * @returns One time-indexed series per window; windows longer than the data yield no points
+ */
+export const calculateRollingMetrics = (
+  returns: number[],
+  params: CalculationParams,
+  options: RollingOptions
+): RollingSeries[] => {
+  const fractionalReturns = toSharpeBasis(toFractionalReturns(returns, params), params);
+  const step = Math.max(1, Math.floor(options.step ?? 1));
+  const periodicRiskFreeRate = toSharpeBasisRate(toPeriodicRate(params.riskFreeRate, params.tradingPeriods), params);
+  const periodicRiskFreeRates = toPeriodicRiskFreeRates(params, fractionalReturns.length);
+  const targetReturn = toSharpeBasisRate(toPeriodicTarget(params), params);
+  // A time-varying risk-free rate is subtracted row by row, and is the downside target unless one was given
+  const excessReturns = params.riskFreeRates
+    ? fractionalReturns.map((r, i) => r - toSharpeBasisRate(periodicRiskFreeRates[i], params))
+    : null;
+  const annualizationFactor = Math.sqrt(params.tradingPeriods);
+  const EPSILON = 1e-8;
+
+  return options.windows.map(window => {
+    const points: RollingPoint[] = [];
+    if (window < 2 || window > fractionalReturns.length) {
+      return { window, points };
+    }
+
+    // Anchor windows to the most recent observation so the latest value is always shown
+    const firstEnd = (fractionalReturns.length - window) % step + window - 1;
+    for (let end = firstEnd; end < fractionalReturns.length; end += step) {
+      const slice = fractionalReturns.slice(end - window + 1, end + 1);
+      const mean = slice.reduce((sum, r) => sum + r, 0) / window;
+      const variance = slice.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (window - 1);
+      const stdDeviation = Math.sqrt(variance);
+      const excessSlice = excessReturns?.slice(end - window + 1, end + 1);
+      const excessReturn = excessSlice
+        ? excessSlice.reduce((sum, r) => sum + r, 0) / window
+        : mean - periodicRiskFreeRate;
+      const excessStdDeviation = excessSlice
+        ? Math.sqrt(excessSlice.reduce((sum, r) => sum + Math.pow(r - excessReturn, 2), 0) / (window - 1))
+        : stdDeviation;
+      const downsideDeviation = excessSlice && params.targetReturn === undefined
+        ? calculateDownsideDeviation(excessSlice, 0)
+        : calculateDownsideDeviation(slice, targetReturn);
+
+      points.push({
+        index: end,
+        sharpe: excessStdDeviation > EPSILON ? (excessReturn / excessStdDeviation) * annualizationFactor : 0,
+        sortino: downsideDeviation > EPSILON ? (excessReturn / downsideDeviation) * annualizationFactor : 0,
+        volatility: stdDeviation * annualizationFactor,
+      });
+    }
+
+    return { window, points };
+  });
+};
@@ -0,0 +1,126 @@
+import { chiSquareCdf, mean } from '@/utils/statsUtils';
+
+export type LjungBoxResult = {
+  lag: number;
+  statistic: number;
+  pValue: number;
+};
+
+export type SerialCorrelationResult = {
+  acf: number[];              // autocorrelations at lags 1..acf.length
+  pacf: number[];             // partial autocorrelations at lags 1..pacf.length
+  confidenceBound: number;    // ±1.96/√n band for white noise
+  ljungBox: LjungBoxResult[];
+  loLags: number;             // autocorrelation lags used in the Lo correction
+  loScalingFactor: number;    // η(q) replacing √q in the annualization
+  loSharpeRatio: number;      // autocorrelation-adjusted annualized Sharpe ratio
+};
+
+export const DEFAULT_ACF_LAGS = 20;
+export const LJUNG_BOX_LAGS = [5, 10, 20];
+
+/**
+ * Sample autocorrelations
+ * @param returns Return series
+ * @param maxLag Highest lag to compute
+ * @returns ρ1..ρmaxLag
+ */
+export const calculateAutocorrelations = (returns: number[], maxLag: number): number[] => {
+  const m = mean(returns);
+  const denominator = returns.reduce((sum, r) => sum + Math.pow(r - m, 2), 0);
+  const acf: number[] = [];
+  for (let k = 1; k <= maxLag; k++) {
+    let numerator = 0;
+    for (let t = 0; t + k < returns.length; t++) {
+      numerator += (returns[t] - m) * (returns[t + k] - m);
+    }
+    acf.push(denominator > 0 ? numerator / denominator : 0);
+  }
+  return acf;
+};
+
+/**
+ * Partial autocorrelations from the autocorrelations (Durbin-Levinson recursion)
+ * @param acf Autocorrelations ρ1..ρK
+ * @returns φ11..φKK
+ */
+export const calculatePartialAutocorrelations = (acf: number[]): number[] => {
+  const pacf: number[] = [];
+  let previous: number[] = [];
+  acf.forEach((rho, index) => {
+    const k = index + 1;
+    let numerator = rho;
+    let denominator = 1;
+    for (let j = 1; j < k; j++) {
+      numerator -= previous[j - 1] * acf[k - j - 1];
+      denominator -= previous[j - 1] * acf[j - 1];
+    }
+    const phiKK = Math.abs(denominator) > 1e-12 ? numerator / denominator : 0;
+    const current = previous.map((phi, j) => phi - phiKK * previous[k - j - 2]);
+    current.push(phiKK);
+    previous = current;
+    pacf.push(phiKK);
+  });
+  return pacf;
+};
+
+/**
+ * Ljung-Box portmanteau test for autocorrelation up to a lag
+ * @param acf Autocorrelations ρ1..ρK (K >= lag)
+ * @param n Number of observations
+ * @param lag Number of lags tested
+ */
+export const ljungBoxTest = (acf: number[], n: number, lag: number): LjungBoxResult => {
+  const statistic = n * (n + 2) * acf
+    .slice(0, lag)
+    .reduce((sum, rho, i) => sum + (rho * rho) / (n - (i + 1)), 0);
+  return { lag, statistic, pValue: 1 - chiSquareCdf(statistic, lag) };
+};
+
+/**
+ * Lo (2002) annualization factor for serially correlated returns
+ * @param acf Autocorrelations ρ1..ρ(q-1) (missing lags are treated as zero)
+ * @param q Periods per year
+ * @returns η(q) = q / √(q + 2 Σ (q - k) ρk)
+ */
+export const loScalingFactor = (acf: number[], q: number): number => {
+  let variance = q;
+  for (let k = 1; k < q && k <= acf.length; k++) {
+    variance += 2 * (q - k) * acf[k - 1];
+  }
+  return variance > 0 ? q / Math.sqrt(variance) : Math.sqrt(q);
+};
+
+/**
+ * Serial-correlation diagnostics and the autocorrelation-adjusted Sharpe ratio
+ * @param returns Fractional returns
+ * @param periodicSharpe Per-period (non-annualized) Sharpe ratio
+ * @param tradingPeriods Number of periods per year
+ */
+export const calculateSerialCorrelation = (
+  returns: number[],
+  periodicSharpe: number,
+  tradingPeriods: number
+): SerialCorrelationResult => {
+  const n = returns.length;
+  const q = Math.max(1, Math.round(tradingPeriods));
+  // Autocorrelations beyond n/4 lags are too noisy to correct with, so they are treated as zero
+  const loLags = Math.max(0, Math.min(q - 1, Math.floor(n / 4)));
+  const displayLags = Math.min(DEFAULT_ACF_LAGS, n - 2);
+  const acf = calculateAutocorrelations(returns, Math.max(loLags, displayLags, 0));
+
+  const scaling = loScalingFactor(acf.slice(0, loLags), q);
+  const displayAcf = acf.slice(0, Math.max(displayLags, 0));
+
+  return {
+    acf: displayAcf,
+    pacf: calculatePartialAutocorrelations(displayAcf),
+    confidenceBound: 1.96 / Math.sqrt(n),
+    ljungBox: LJUNG_BOX_LAGS
+      .filter(lag => lag <= displayAcf.length)
+      .map(lag => ljungBoxTest(displayAcf, n, lag)),
+    loLags,
+    loScalingFactor: scaling,
+    loSharpeRatio: periodicSharpe * scaling,
+  };
+};
@@ -0,0 +1,178 @@
+// A returns series keeps each value together with its date and the spreadsheet row it came from.
+
+export type ReturnsSeries = {
+  values: number[];              // returns or PnL in the detected format, one per period
+  timestamps: (number | null)[]; // UTC midnight in ms since epoch, null when the row has no parsable date
+  sourceRows: number[];          // 1-based spreadsheet row numbers (row 1 is the header), 0 for periods without a row
+};
+
+export type SeriesGap = {
+  afterIndex: number;     // index of the last observation before the gap
+  from: number;           // timestamp before the gap
+  to: number;             // timestamp after the gap
+  missingPeriods: number; // estimated number of missing observations
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Builds a series from bare values, e.g. for callers without a date column
+ * @param values Returns or PnL
+ * @param timestamps Optional timestamps aligned with the values
+ * @param sourceRows Optional source row numbers; defaults to a header row followed by the values
+ */
+export const createReturnsSeries = (
+  values: number[],
+  timestamps?: (number | null)[],
+  sourceRows?: number[]
+): ReturnsSeries => ({
+  values,
+  timestamps: timestamps ?? values.map(() => null),
+  sourceRows: sourceRows ?? values.map((_, i) => i + 2),
+});
+
+/**
+ * Accepts either a bare number array or a series and always returns a series
+ */
+export const toReturnsSeries = (input: number[] | ReturnsSeries): ReturnsSeries =>
+  Array.isArray(input) ? createReturnsSeries(input) : input;
+
+/**
+ * True when every observation has a date
+ */
+export const hasTimestamps = (series: ReturnsSeries): boolean =>
+  series.timestamps.length > 0 && series.timestamps.every(t => t !== null);
+
+/**
+ * Formats a timestamp as YYYY-MM-DD (UTC)
+ */
+export const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toISOString().split('T')[0];
+
+/**
+ * Chart and table label for one observation: its date, or its 1-based period number
+ * @param series Returns series
+ * @param index 0-based observation index
+ */
+export const getPeriodLabel = (series: ReturnsSeries, index: number): string => {
+  const timestamp = series.timestamps[index];
+  return timestamp !== null && timestamp !== undefined ? formatDate(timestamp) : String(index + 1);
+};
+
+/**
+ * Detects missing observations from the spacing between dates
+ * A step counts as a gap when it exceeds both 1.5× the median step and the median step plus three days,
+ * so weekends and holidays in daily data are not reported.
+ * @param series Returns series with timestamps
+ * @returns Gaps in order of appearance (empty when the series has no dates)
+ */
+export const detectGaps = (series: ReturnsSeries): SeriesGap[] => {
+  if (!hasTimestamps(series) || series.timestamps.length < 3) return [];
+  const timestamps = series.timestamps as number[];
+
+  const steps = timestamps.slice(1).map((t, i) => Math.abs(t - timestamps[i]));
+  const sorted = [...steps].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  if (median <= 0) return [];
+
+  const threshold = Math.max(1.5 * median, median + 3 * DAY_MS);
+  const gaps: SeriesGap[] = [];
+  steps.forEach((step, i) => {
+    if (step > threshold) {
+      gaps.push({
+        afterIndex: i,
+        from: timestamps[i],
+        to: timestamps[i + 1],
+        missingPeriods: Math.max(1, Math.round(step / median) - 1),
+      });
+    }
+  });
+  return gaps;
+};
+
+export type SamplingFrequency =
+  | 'businessDaily'
+  | 'calendarDaily'
+  | 'weekly'
+  | 'monthly'
+  | 'quarterly'
+  | 'annual'
+  | 'irregular';
+
+export type FrequencyDetection = {
+  frequency: SamplingFrequency;
+  periodsPerYear: number | null; // suggested annualization factor, null when irregular
+  medianStepDays: number;
+};
+
+export const FREQUENCY_LABELS: Record<SamplingFrequency, string> = {
+  businessDaily: 'daily (business days)',
+  calendarDaily: 'daily (calendar days)',
+  weekly: 'weekly',
+  monthly: 'monthly',
+  quarterly: 'quarterly',
+  annual: 'annual',
+  irregular: 'irregular',
+};
+
+export const FREQUENCY_PERIODS_PER_YEAR: Record<SamplingFrequency, number | null> = {
+  businessDaily: 252,
+  calendarDaily: 365,
+  weekly: 52,
+  monthly: 12,
+  quarterly: 4,
+  annual: 1,
+  irregular: null,
+};
+
+// Accepted step lengths in days for each regular frequency; daily steps allow for weekends and holidays
+const FREQUENCY_STEP_DAYS: { frequency: SamplingFrequency; min: number; max: number }[] = [
+  { frequency: 'calendarDaily', min: 1, max: 4 },
+  { frequency: 'weekly', min: 5, max: 9 },
+  { frequency: 'monthly', min: 27, max: 32 },
+  { frequency: 'quarterly', min: 88, max: 93 },
+  { frequency: 'annual', min: 364, max: 367 },
+];
+
+/**
+ * Detects the sampling frequency from the spacing of dates
+ * The median step picks the candidate frequency; at least 80% of steps must fit it (gaps aside), otherwise
+ * the data is irregular. Daily data counts as business days when fewer than 5% of dates fall on a weekend.
+ * @param timestamps Dates in ms since epoch (nulls are ignored)
+ * @returns Detected frequency and suggested periods per year
+ */
+export const detectSamplingFrequency = (timestamps: (number | null)[]): FrequencyDetection => {
+  const dates = timestamps.filter((t): t is number => t !== null);
+  const steps = dates.slice(1).map((t, i) => Math.abs(t - dates[i]) / DAY_MS).filter(step => step > 0);
+  if (steps.length < 2) {
+    return { frequency: 'irregular', periodsPerYear: null, medianStepDays: 0 };
+  }
+
+  const sorted = [...steps].sort((a, b) => a - b);
+  const medianStepDays = sorted[Math.floor(sorted.length / 2)];
+  const candidate = FREQUENCY_STEP_DAYS.find(f => medianStepDays >= f.min && medianStepDays <= f.max);
+
+  // Steps spanning a whole number of periods are gaps, not irregular sampling
+  const fits = candidate
+    ? steps.filter(step => {
+        const periods = Math.max(1, Math.round(step / medianStepDays));
+        return step >= candidate.min * periods && step <= candidate.max * periods;
+      }).length
+    : 0;
+  if (!candidate || fits < 0.8 * steps.length) {
+    return { frequency: 'irregular', periodsPerYear: null, medianStepDays };
+  }
+
+  let frequency = candidate.frequency;
+  if (frequency === 'calendarDaily') {
+    const weekendDates = dates.filter(t => [0, 6].includes(new Date(t).getUTCDay())).length;
+    if (weekendDates < 0.05 * dates.length) frequency = 'businessDaily';
+  }
+  return { frequency, periodsPerYear: FREQUENCY_PERIODS_PER_YEAR[frequency], medianStepDays };
+};
+
+/**
+ * True when the entered annualization factor is more than 10% away from the suggested one
+ */
+export const isTradingPeriodsMismatch = (entered: number, suggested: number | null): boolean =>
+  suggested !== null && Number.isFinite(entered) && Math.abs(entered / suggested - 1) > 0.1;
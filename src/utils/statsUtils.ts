@@ -0,0 +1,175 @@
+// Shared statistical helpers: sample moments and the standard normal distribution.
+
+export const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+/**
+ * Sample skewness (population moments, as used by Bailey & López de Prado)
+ * @param values Sample
+ * @returns Third standardized moment (0 when the sample has no dispersion)
+ */
+export const skewness = (values: number[]): number => {
+  const m = mean(values);
+  const m2 = values.reduce((sum, v) => sum + Math.pow(v - m, 2), 0) / values.length;
+  const m3 = values.reduce((sum, v) => sum + Math.pow(v - m, 3), 0) / values.length;
+  return m2 > 0 ? m3 / Math.pow(m2, 1.5) : 0;
+};
+
+/**
+ * Sample kurtosis (population moments, not excess)
+ * @param values Sample
+ * @returns Fourth standardized moment (3 for a normal distribution)
+ */
+export const kurtosis = (values: number[]): number => {
+  const m = mean(values);
+  const m2 = values.reduce((sum, v) => sum + Math.pow(v - m, 2), 0) / values.length;
+  const m4 = values.reduce((sum, v) => sum + Math.pow(v - m, 4), 0) / values.length;
+  return m2 > 0 ? m4 / Math.pow(m2, 2) : 3;
+};
+
+/**
+ * Bias-adjusted sample skewness (G1, as in Excel's SKEW)
+ * @param values Sample (at least 3 values)
+ */
+export const sampleSkewness = (values: number[]): number => {
+  const n = values.length;
+  return n > 2 ? (Math.sqrt(n * (n - 1)) / (n - 2)) * skewness(values) : 0;
+};
+
+/**
+ * Bias-adjusted sample excess kurtosis (G2, as in Excel's KURT)
+ * @param values Sample (at least 4 values)
+ */
+export const sampleExcessKurtosis = (values: number[]): number => {
+  const n = values.length;
+  return n > 3
+    ? ((n - 1) / ((n - 2) * (n - 3))) * ((n + 1) * (kurtosis(values) - 3) + 6)
+    : 0;
+};
+
+// Complementary error function (Numerical Recipes erfcc, fractional error < 1.2e-7)
+const erfc = (x: number): number => {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const r = t * Math.exp(-z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 +
+    t * (-0.82215223 + t * 0.17087277)))))))));
+  return x >= 0 ? r : 2 - r;
+};
+
+/**
+ * Standard normal probability density function
+ * @param x Quantile
+ */
+export const normalPdf = (x: number): number => Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+
+/**
+ * Standard normal cumulative distribution function
+ * @param x Quantile
+ * @returns P(Z <= x)
+ */
+export const normalCdf = (x: number): number => 0.5 * erfc(-x / Math.SQRT2);
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation, relative error < 1.15e-9)
+ * @param p Probability in (0, 1)
+ * @returns Quantile z with P(Z <= z) = p (±Infinity at 0 and 1)
+ */
+export const normalInverseCdf = (p: number): number => {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02,
+    1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+  const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02,
+    6.680131188771972e+01, -1.328068155288572e+01];
+  const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00,
+    -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+  const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00,
+    3.754408661907416e+00];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+/**
+ * Natural log of the gamma function (Lanczos approximation)
+ * @param x Positive argument
+ */
+export const logGamma = (x: number): number => {
+  const coefficients = [76.18009172947146, -86.50532032941678, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  coefficients.forEach(c => { series += c / ++y; });
+  return -tmp + Math.log(2.5066282746310007 * series / x);
+};
+
+/**
+ * Regularized lower incomplete gamma function P(a, x) (Numerical Recipes gammp)
+ * @param a Shape parameter
+ * @param x Upper integration limit
+ */
+export const regularizedGammaP = (a: number, x: number): number => {
+  if (x <= 0) return 0;
+  const ITMAX = 200;
+  const EPS = 3e-12;
+  const gln = logGamma(a);
+
+  if (x < a + 1) {
+    // Series representation
+    let ap = a;
+    let sum = 1 / a;
+    let del = sum;
+    for (let n = 0; n < ITMAX; n++) {
+      ap++;
+      del *= x / ap;
+      sum += del;
+      if (Math.abs(del) < Math.abs(sum) * EPS) break;
+    }
+    return sum * Math.exp(-x + a * Math.log(x) - gln);
+  }
+
+  // Continued fraction representation of Q(a, x)
+  const FPMIN = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / FPMIN;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i <= ITMAX; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = b + an / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    const del = d * c;
+    h *= del;
+    if (Math.abs(del - 1) < EPS) break;
+  }
+  return 1 - Math.exp(-x + a * Math.log(x) - gln) * h;
+};
+
+/**
+ * Chi-square cumulative distribution function
+ * @param x Statistic
+ * @param degreesOfFreedom Degrees of freedom
+ * @returns P(X <= x)
+ */
+export const chiSquareCdf = (x: number, degreesOfFreedom: number): number =>
+  regularizedGammaP(degreesOfFreedom / 2, x / 2);
@@ -0,0 +1,93 @@
+import { kurtosis, mean, normalInverseCdf, normalPdf, skewness } from '@/utils/statsUtils';
+
+// VaR and CVaR are reported as period returns: -0.02 means a 2% loss.
+
+export type TailRiskEstimate = {
+  valueAtRisk: number;
+  expectedShortfall: number; // CVaR: mean return beyond the VaR
+};
+
+export type TailRiskMethod = 'historical' | 'gaussian' | 'cornishFisher';
+
+export type TailRiskLevel = {
+  confidence: number;
+} & Record<TailRiskMethod, TailRiskEstimate>;
+
+export const TAIL_RISK_CONFIDENCE_LEVELS = [0.95, 0.99];
+
+export const TAIL_RISK_METHOD_LABELS: Record<TailRiskMethod, string> = {
+  historical: 'Historical',
+  gaussian: 'Gaussian',
+  cornishFisher: 'Cornish-Fisher',
+};
+
+/**
+ * Historical VaR/CVaR from the empirical distribution
+ * @param sorted Returns sorted ascending
+ * @param alpha Tail probability (1 - confidence)
+ */
+const historicalTailRisk = (sorted: number[], alpha: number): TailRiskEstimate => {
+  const position = alpha * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const valueAtRisk = sorted[lower] + (sorted[Math.ceil(position)] - sorted[lower]) * (position - lower);
+  const tail = sorted.filter(r => r <= valueAtRisk);
+  return {
+    valueAtRisk,
+    expectedShortfall: tail.length > 0 ? mean(tail) : valueAtRisk,
+  };
+};
+
+/**
+ * Cornish-Fisher expansion of a standard normal quantile
+ * @param z Normal quantile
+ * @param skew Skewness
+ * @param excessKurtosis Excess kurtosis
+ */
+const cornishFisherQuantile = (z: number, skew: number, excessKurtosis: number): number =>
+  z
+  + ((z * z - 1) * skew) / 6
+  + ((z * z * z - 3 * z) * excessKurtosis) / 24
+  - ((2 * z * z * z - 5 * z) * skew * skew) / 36;
+
+/**
+ * Calculates VaR and CVaR with historical, Gaussian and Cornish-Fisher methods
+ * @param returns Fractional returns
+ * @param confidenceLevels Confidence levels (e.g. [0.95, 0.99])
+ * @returns One entry per confidence level
+ */
+export const calculateTailRisk = (
+  returns: number[],
+  confidenceLevels: number[] = TAIL_RISK_CONFIDENCE_LEVELS
+): TailRiskLevel[] => {
+  const sorted = [...returns].sort((a, b) => a - b);
+  const mu = mean(returns);
+  const sigma = Math.sqrt(returns.reduce((sum, r) => sum + Math.pow(r - mu, 2), 0) / (returns.length - 1));
+  const skew = skewness(returns);
+  const excessKurtosis = kurtosis(returns) - 3;
+
+  return confidenceLevels.map(confidence => {
+    const alpha = 1 - confidence;
+    const z = normalInverseCdf(alpha);
+
+    // Cornish-Fisher CVaR: average of the adjusted quantile function over the tail (midpoint rule)
+    const STEPS = 1000;
+    let tailSum = 0;
+    for (let i = 0; i < STEPS; i++) {
+      const p = ((i + 0.5) / STEPS) * alpha;
+      tailSum += cornishFisherQuantile(normalInverseCdf(p), skew, excessKurtosis);
+    }
+
+    return {
+      confidence,
+      historical: historicalTailRisk(sorted, alpha),
+      gaussian: {
+        valueAtRisk: mu + sigma * z,
+        expectedShortfall: mu - (sigma * normalPdf(z)) / alpha,
+      },
+      cornishFisher: {
+        valueAtRisk: mu + sigma * cornishFisherQuantile(z, skew, excessKurtosis),
+        expectedShortfall: mu + sigma * (tailSum / STEPS),
+      },
+    };
+  });
+};
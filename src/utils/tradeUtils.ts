@@ -0,0 +1,92 @@
+// Trades imported from a ledger, and trade-level statistics alongside the periodic analysis.
+
+export type Trade = {
+  symbol: string;
+  entryTime: number | null; // UTC midnight in ms since epoch
+  exitTime: number;         // the trade's PnL is realized on this date
+  quantity: number;         // positive for long, negative for short
+  entryPrice: number;
+  exitPrice: number;
+  fees: number;             // total fees, always a cost
+  pnl: number;              // realized PnL after fees
+  sourceRow: number;        // 1-based spreadsheet row
+};
+
+export type TradeStats = {
+  totalTrades: number;
+  winningTrades: number;
+  losingTrades: number;       // trades with PnL below zero; break-even trades count as neither
+  winRate: number;            // winning trades / all trades
+  grossProfit: number;
+  grossLoss: number;          // positive amount
+  profitFactor: number | null; // gross profit / gross loss, null without losing trades
+  averageWin: number;
+  averageLoss: number;        // negative, 0 without losing trades
+  payoffRatio: number | null; // average win / |average loss|, null without losing trades
+  expectancy: number;         // mean PnL per trade
+  longestWinningStreak: number;
+  longestLosingStreak: number;
+  totalFees: number;
+  netPnl: number;
+  symbols: number;            // distinct symbols traded
+};
+
+/**
+ * Realized PnL of a round-trip trade: (exit - entry) × quantity - fees
+ * @param quantity Signed quantity (negative for short)
+ * @param entryPrice Entry price
+ * @param exitPrice Exit price
+ * @param fees Total fees (sign ignored)
+ */
+export const calculateTradePnl = (quantity: number, entryPrice: number, exitPrice: number, fees: number): number =>
+  (exitPrice - entryPrice) * quantity - Math.abs(fees);
+
+/**
+ * Longest run of consecutive trades matching a condition
+ */
+const longestStreak = (pnl: number[], matches: (value: number) => boolean): number => {
+  let longest = 0;
+  let current = 0;
+  pnl.forEach(value => {
+    current = matches(value) ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  });
+  return longest;
+};
+
+/**
+ * Win rate, profit factor, average win/loss, expectancy and streaks
+ * Streaks follow the order trades were closed (exit date, then ledger row).
+ * @param trades Trades from the ledger
+ * @returns Trade statistics
+ */
+export const calculateTradeStats = (trades: Trade[]): TradeStats => {
+  const ordered = [...trades].sort((a, b) => a.exitTime - b.exitTime || a.sourceRow - b.sourceRow);
+  const pnl = ordered.map(trade => trade.pnl);
+  const wins = pnl.filter(value => value > 0);
+  const losses = pnl.filter(value => value < 0);
+  const grossProfit = wins.reduce((sum, value) => sum + value, 0);
+  const grossLoss = -losses.reduce((sum, value) => sum + value, 0);
+  const averageWin = wins.length > 0 ? grossProfit / wins.length : 0;
+  const averageLoss = losses.length > 0 ? -grossLoss / losses.length : 0;
+  const netPnl = pnl.reduce((sum, value) => sum + value, 0);
+
+  return {
+    totalTrades: trades.length,
+    winningTrades: wins.length,
+    losingTrades: losses.length,
+    winRate: trades.length > 0 ? wins.length / trades.length : 0,
+    grossProfit,
+    grossLoss,
+    profitFactor: losses.length > 0 ? grossProfit / grossLoss : null,
+    averageWin,
+    averageLoss,
+    payoffRatio: losses.length > 0 ? averageWin / -averageLoss : null,
+    expectancy: trades.length > 0 ? netPnl / trades.length : 0,
+    longestWinningStreak: longestStreak(pnl, value => value > 0),
+    longestLosingStreak: longestStreak(pnl, value => value < 0),
+    totalFees: trades.reduce((sum, trade) => sum + trade.fees, 0),
+    netPnl,
+    symbols: new Set(trades.map(trade => trade.symbol)).size,
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { findNumericColumns, getBatchMetric, runBatchAnalysis, sortBatchRows } from '../src/utils/batchUtils';
+import { calculateSharpeAndSortino } from '../src/utils/calculationUtils';
+import { extractReturnsSeries, ParsedData } from '../src/utils/fileUtils';
+
+describe('batchUtils', () => {
+  const steady = [0.01, 0.012, -0.004, 0.009, 0.011, -0.002, 0.008, 0.01, 0.013, -0.001, 0.007, 0.009];
+  const volatile = [0.05, -0.04, 0.06, -0.05, 0.03, -0.02, 0.07, -0.06, 0.04, -0.03, 0.02, 0.01];
+  const data: ParsedData = {
+    headers: ['Date', 'Steady', 'Volatile', 'Short', 'Note'],
+    rows: steady.map((r, i) => [
+      `2024-${String(i + 1).padStart(2, '0')}-28`, r, volatile[i], i < 5 ? 0.01 : '', i % 2 ? 'a' : 'b',
+    ]),
+    originalData: [],
+  };
+  const params = { riskFreeRate: 2, tradingPeriods: 12, portfolioValue: 1000000 };
+  const options = {
+    dataFormat: 'auto', levelMethod: 'simple' as const, dateColumnIndex: 0, resampleFrequency: 'none' as const,
+    qualityTreatment: 'keep' as const, madThreshold: 5,
+  };
+
+  it('analyzes each numeric column the way the single-column flow does', () => {
+    const columns = findNumericColumns(data, [0]);
+    expect(columns).toEqual([1, 2, 3]);
+
+    const { rows, skipped } = runBatchAnalysis(data, columns, params, options);
+    expect(rows.map(row => row.column)).toEqual(['Steady', 'Volatile']);
+    expect(skipped).toEqual([{ column: 'Short', reason: 'Only 5 periods (minimum 10)' }]);
+
+    const { series } = extractReturnsSeries(data.rows, 1, 'auto', 0);
+    const single = calculateSharpeAndSortino(series, { ...params, dataFormat: 'decimal' });
+    expect(rows[0].dataFormat).toBe('decimal');
+    expect(rows[0].result.sharpeRatio).toBeCloseTo(single.sharpeRatio, 12);
+    expect(rows[0].series.timestamps[0]).toBe(Date.UTC(2024, 0, 28));
+  });
+
+  it('sorts the league table by any metric in either direction', () => {
+    const { rows } = runBatchAnalysis(data, [1, 2], params, options);
+    expect(sortBatchRows(rows, 'sharpeRatio').map(row => row.column)).toEqual(['Steady', 'Volatile']);
+    expect(sortBatchRows(rows, 'volatility').map(row => row.column)).toEqual(['Volatile', 'Steady']);
+    expect(sortBatchRows(rows, 'maxDrawdown', false).map(row => row.column)).toEqual(['Volatile', 'Steady']);
+    expect(getBatchMetric(rows[0], 'volatility')).toBeCloseTo(rows[0].result.stdDeviation * Math.sqrt(12), 12);
+  });
+
+  it('reads percent, currency and return columns of a mixed table in their own formats', () => {
+    const pnl = [1200, -300, 800, 450, -150, 900, 300, -600, 1100, 200, 700, 500];
+    const mixed: ParsedData = {
+      headers: ['Date', 'Return', 'Return %', 'PnL'],
+      rows: steady.map((r, i) => [`2024-${String(i + 1).padStart(2, '0')}-28`, r, volatile[i], pnl[i]]),
+      originalData: [],
+      columnTypes: ['date', 'numeric', 'percent', 'currency'],
+    };
+    const formatsWith = (dataFormat: string) =>
+      runBatchAnalysis(mixed, [1, 2, 3], params, { ...options, dataFormat }).rows.map(row => row.dataFormat);
+
+    // Batch runs default to per-column detection for untyped columns
+    expect(formatsWith('auto')).toEqual(['decimal', 'decimal', 'absolute']);
+    // Percent columns hold fractions and currency columns PnL, whatever the shared format
+    expect(formatsWith('absolute')).toEqual(['absolute', 'decimal', 'absolute']);
+
+    const { rows } = runBatchAnalysis(mixed, [2], params, { ...options, dataFormat: 'percent' });
+    const single = calculateSharpeAndSortino(
+      extractReturnsSeries(mixed.rows, 2, 'decimal', 0).series, { ...params, dataFormat: 'decimal' }
+    );
+    expect(rows[0].result.sharpeRatio).toBeCloseTo(single.sharpeRatio, 12);
+  });
+});
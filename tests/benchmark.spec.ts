@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { alignBenchmark, calculateBenchmarkMetrics, chooseBenchmarkAlignment } from '../src/utils/benchmarkUtils';
+import { createReturnsSeries } from '../src/utils/seriesUtils';
+
+const benchmark = [0.01, -0.02, 0.015, 0.005, -0.01, 0.02, -0.005, 0.008];
+
+describe('benchmarkUtils', () => {
+  it('recovers beta and alpha of a levered benchmark', () => {
+    // Strategy = 2 × benchmark + 0.001 per period
+    const strategy = benchmark.map(b => 2 * b + 0.001);
+    const result = calculateBenchmarkMetrics(strategy, benchmark, 0, 12);
+
+    expect(result.beta).toBeCloseTo(2, 10);
+    expect(result.correlation).toBeCloseTo(1, 10);
+    expect(result.alpha).toBeCloseTo(0.001 * 12, 10);
+    expect(result.upCapture).toBeGreaterThan(2);
+    expect(result.downCapture).toBeLessThan(2);
+  });
+
+  it('has zero tracking error against itself', () => {
+    const result = calculateBenchmarkMetrics(benchmark, benchmark, 0, 252);
+    expect(result.trackingError).toBeCloseTo(0, 12);
+    expect(result.informationRatio).toBe(0);
+    expect(result.upCapture).toBeCloseTo(1, 12);
+  });
+
+  it('aligns series of different length on the most recent observations', () => {
+    const longer = [0.5, 0.5, ...benchmark];
+    const result = calculateBenchmarkMetrics(longer, benchmark, 0, 252);
+    expect(result.observations).toBe(benchmark.length);
+    expect(result.beta).toBeCloseTo(1, 10);
+  });
+
+  it('matches a benchmark from another file on dates when the ranges are offset', () => {
+    const day = (d: number) => Date.UTC(2024, 0, d);
+    // Strategy on days 1-8; benchmark on days 3-10 with day 5 missing (a holiday)
+    const strategy = createReturnsSeries(benchmark.map(b => 2 * b), benchmark.map((_, i) => day(i + 1)));
+    const benchmarkDates = [3, 4, 6, 7, 8, 9, 10];
+    const other = createReturnsSeries(benchmarkDates.map(d => benchmark[d - 1]), benchmarkDates.map(day));
+
+    expect(chooseBenchmarkAlignment(strategy, other)).toBe('date');
+    const aligned = alignBenchmark(strategy, other, 'date');
+    expect(aligned.unmatched).toBe(3);
+    expect(aligned.unused).toBe(2);
+    expect(aligned.values.slice(2)).toEqual([benchmark[2], benchmark[3], NaN, benchmark[5], benchmark[6], benchmark[7]]);
+
+    // Every matched pair is the same day, so the strategy is exactly twice the benchmark
+    const result = calculateBenchmarkMetrics(strategy.values, aligned.values, 0, 252);
+    expect(result.observations).toBe(5);
+    expect(result.beta).toBeCloseTo(2, 10);
+    expect(result.correlation).toBeCloseTo(1, 10);
+  });
+
+  it('matches the most recent observations when a series has no dates', () => {
+    const strategy = createReturnsSeries([0.01, 0.02, 0.03]);
+    const other = createReturnsSeries([0.1, 0.2]);
+    expect(chooseBenchmarkAlignment(strategy, other)).toBe('tail');
+    expect(alignBenchmark(strategy, other, 'tail')).toEqual({ values: [NaN, 0.1, 0.2], unmatched: 1, unused: 0 });
+    expect(alignBenchmark(createReturnsSeries([]), other, 'tail')).toEqual({ values: [], unmatched: 0, unused: 2 });
+    expect(alignBenchmark(strategy, createReturnsSeries([]), 'tail')).toEqual({ values: [NaN, NaN, NaN], unmatched: 3, unused: 0 });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRandom, resample, runBootstrap } from '../src/utils/bootstrapUtils';
+import { calculateSharpeAndSortino } from '../src/utils/calculationUtils';
+
+const returns = Array.from({ length: 60 }, (_, i) => 0.004 + 0.02 * Math.sin(i * 2.3) + 0.005 * Math.cos(i * 0.7));
+
+const params = {
+  riskFreeRate: 0,
+  tradingPeriods: 12,
+  dataFormat: 'decimal',
+};
+
+describe('bootstrapUtils', () => {
+  it('is reproducible for a given seed', () => {
+    const options = { method: 'iid' as const, resamples: 200, seed: 7 };
+    const first = runBootstrap(returns, params, options);
+    const second = runBootstrap(returns, params, options);
+    expect(first.metrics.sharpe.distribution).toEqual(second.metrics.sharpe.distribution);
+    expect(first.metrics.sharpe.bca).toEqual(second.metrics.sharpe.bca);
+  });
+
+  it('produces ordered intervals around the sample estimate', () => {
+    const result = runBootstrap(returns, params, { method: 'stationary', resamples: 500, seed: 1 });
+    const { estimate, percentile, bca, distribution } = result.metrics.mean;
+    expect(distribution).toHaveLength(500);
+    expect(percentile.lower).toBeLessThan(estimate);
+    expect(percentile.upper).toBeGreaterThan(estimate);
+    expect(bca.lower).toBeLessThan(bca.upper);
+    expect(result.metrics.maxDrawdown.percentile.upper).toBeLessThanOrEqual(0);
+  });
+
+  it('circular blocks copy consecutive runs of the original series', () => {
+    const series = Array.from({ length: 10 }, (_, i) => i);
+    const sample = resample(series, 'circular', 5, createSeededRandom(3));
+    for (let i = 1; i < 5; i++) {
+      expect(sample[i]).toBe((sample[i - 1] + 1) % 10);
+      expect(sample[5 + i]).toBe((sample[4 + i] + 1) % 10);
+    }
+  });
+
+  it('matches the headline ratios when the risk-free rate varies row by row', () => {
+    const riskFreeRates = returns.map((_, i) => 1 + 4 * i / returns.length);
+    const varying = { ...params, riskFreeRates };
+    const result = calculateSharpeAndSortino(returns, varying);
+    const bootstrap = runBootstrap(returns, varying, { method: 'iid', resamples: 100, seed: 5 });
+    expect(bootstrap.metrics.sharpe.estimate).toBeCloseTo(result.sharpeRatio, 10);
+    expect(bootstrap.metrics.sortino.estimate).toBeCloseTo(result.sortinoRatio, 10);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateCashFlowMetrics,
+  calculateMoneyWeightedIrr,
+  calculateTimeWeightedReturns,
+  rebuildNav,
+} from '../src/utils/cashFlowUtils';
+import { calculateSharpeAndSortino } from '../src/utils/calculationUtils';
+import { extractCashFlows } from '../src/utils/fileUtils';
+
+describe('cashFlowUtils', () => {
+  const pnl = [100, -50, 210];
+  const flows = [0, 1000, -500];
+
+  it('rebuilds NAV and measures each return on the capital at work', () => {
+    expect(rebuildNav(pnl, flows, 1000)).toEqual([1000, 1100, 2050, 1760]);
+    const returns = calculateTimeWeightedReturns(pnl, flows, 1000);
+    expect(returns[0]).toBeCloseTo(0.1, 12);
+    expect(returns[1]).toBeCloseTo(-50 / 2100, 12);
+    expect(returns[2]).toBeCloseTo(210 / 1550, 12);
+    // An empty account funded by the first deposit
+    expect(calculateTimeWeightedReturns([10], [100], 0)[0]).toBeCloseTo(0.1, 12);
+    expect(() => calculateTimeWeightedReturns([10], [-100], 50)).toThrow();
+  });
+
+  it('money-weighted IRR equals the time-weighted return without flows', () => {
+    const irr = calculateMoneyWeightedIrr([0, 0], 100, 121);
+    expect(irr).toBeCloseTo(0.1, 9);
+
+    const metrics = calculateCashFlowMetrics(pnl, flows, 1000, 12);
+    expect(metrics.totalDeposits).toBe(1000);
+    expect(metrics.totalWithdrawals).toBe(500);
+    expect(metrics.netProfit).toBeCloseTo(260, 9);
+    expect(metrics.moneyWeightedReturn).not.toBeNull();
+  });
+
+  it('engine uses time-weighted returns for absolute PnL with cash flows', () => {
+    const values = [100, -50, 210, 30, -20, 60, 15, -35, 80, 25];
+    const cashFlows = [0, 1000, -500, 0, 0, 200, 0, 0, -300, 0];
+    const result = calculateSharpeAndSortino(values, {
+      riskFreeRate: 0, tradingPeriods: 12, dataFormat: 'absolute', portfolioValue: 1000, cashFlows,
+    });
+    const twr = calculateTimeWeightedReturns(values, cashFlows, 1000);
+    expect(result.meanReturn).toBeCloseTo(twr.reduce((s, r) => s + r, 0) / twr.length, 12);
+    expect(result.cashFlow?.nav).toHaveLength(11);
+  });
+
+  it('carries flows on rows without PnL to the next kept row', () => {
+    const rows = [[100, 0], ['', 500], [-20, ''], [30, -100]] as (string | number)[][];
+    // Rows 2, 4 and 5 have PnL; the deposit on row 3 joins row 4
+    expect(extractCashFlows(rows, 1, [2, 4, 5])).toEqual([0, 500, -100]);
+  });
+});
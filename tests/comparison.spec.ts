@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ComparisonInput,
+  alignByDate,
+  bootstrapSharpeDifference,
+  compareStrategies,
+  jobsonKorkieMemmelTest,
+} from '../src/utils/comparisonUtils';
+import { calculateEquityCurve } from '../src/utils/drawdownUtils';
+import { createReturnsSeries } from '../src/utils/seriesUtils';
+
+describe('comparisonUtils', () => {
+  const day = (d: number) => Date.UTC(2024, 0, d);
+  const strong = [0.01, 0.012, -0.004, 0.009, 0.011, -0.002, 0.008, 0.01, 0.013, -0.001, 0.007, 0.009];
+  const weak = [0.002, -0.01, 0.004, -0.006, 0.003, -0.002, 0.001, -0.004, 0.005, -0.003, 0.002, -0.001];
+
+  it('aligns series on their common dates, using the first row of a repeated date', () => {
+    const a = createReturnsSeries([1, 2, 3, 4], [day(1), day(2), day(3), day(4)]);
+    const b = createReturnsSeries([10, 30, 31, 40, 50], [day(1), day(3), day(3), day(4), day(5)]);
+    expect(alignByDate([a, b])).toEqual({
+      timestamps: [day(1), day(3), day(4)],
+      values: [[1, 3, 4], [10, 30, 40]],
+    });
+  });
+
+  it('finds no difference between identical series and a clear one between different ones', () => {
+    const longStrong = [...strong, ...strong, ...strong];
+    const longWeak = [...weak, ...weak, ...weak];
+    expect(jobsonKorkieMemmelTest(strong, strong).pValue).toBe(1);
+    expect(bootstrapSharpeDifference(strong, strong, 12).pValue).toBe(1);
+
+    const jkm = jobsonKorkieMemmelTest(longStrong, longWeak);
+    expect(jkm.statistic).toBeGreaterThan(0);
+    expect(jkm.pValue).toBeLessThan(0.05);
+
+    const options = { resamples: 500, seed: 7, blockLength: 1 };
+    const bootstrap = bootstrapSharpeDifference(longStrong, longWeak, 12, options);
+    expect(bootstrapSharpeDifference(longStrong, longWeak, 12, options)).toEqual(bootstrap);
+    expect(bootstrap.pValue).toBeLessThan(0.05);
+    expect(bootstrap.interval.lower).toBeGreaterThan(0);
+  });
+
+  it('compares dated series on their common dates', () => {
+    const dates = strong.map((_, i) => day(i + 1));
+    const result = compareStrategies(
+      [
+        { name: 'Strong', series: createReturnsSeries(strong, dates), dataFormat: 'percent' },
+        { name: 'Weak', series: createReturnsSeries([0.5, ...weak], [day(0), ...dates]), dataFormat: 'decimal' },
+      ],
+      { riskFreeRate: 0, tradingPeriods: 12 },
+      { resamples: 200, seed: 42, blockLength: 2 }
+    );
+
+    expect(result.timestamps).toEqual(dates);
+    expect(result.strategies[0].equityCurve).toEqual(calculateEquityCurve(strong));
+    expect(result.strategies[1].equityCurve).toEqual(calculateEquityCurve(weak));
+    expect(result.tests).toHaveLength(1);
+    expect(result.tests[0].difference).toBeCloseTo(result.strategies[0].sharpeRatio - result.strategies[1].sharpeRatio);
+
+    const single: ComparisonInput = { name: 'Strong', series: createReturnsSeries(strong, dates), dataFormat: 'decimal' };
+    expect(() => compareStrategies([single], { riskFreeRate: 0, tradingPeriods: 12 })).toThrow('at least two');
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_QUALITY_OPTIONS,
+  applyQualityTreatment,
+  assessDataQuality,
+  findDroppedRows,
+  keepSourceRows,
+} from '../src/utils/dataQualityUtils';
+import { createReturnsSeries } from '../src/utils/seriesUtils';
+
+const day = (iso: string) => Date.parse(`${iso}T00:00:00Z`);
+
+describe('dataQualityUtils', () => {
+  it('reports rows without a number and why', () => {
+    const rows = [['2024-01-01', 0.01], ['2024-01-02', ''], ['2024-01-03', 'n/a'], ['2024-01-04', '1,5%']];
+    expect(findDroppedRows(rows, 1, [5, 6, 7, 8])).toEqual([
+      { kind: 'dropped', rowNumber: 6, index: -1, detail: 'Empty cell' },
+      { kind: 'dropped', rowNumber: 7, index: -1, detail: 'Not a number: "n/a"' },
+    ]);
+  });
+
+  it('flags duplicate dates, gaps, outliers, stale values and impossible returns', () => {
+    const dates = ['2024-01-31', '2024-02-29', '2024-02-29', '2024-03-31', '2024-04-30', '2024-05-31',
+      '2024-06-30', '2024-07-31', '2024-10-31', '2024-11-30', '2024-12-31'];
+    const values = [0.01, 0.02, -0.01, 0.015, 0.015, 0.015, 0.005, -1.5, 0.012, 0.02, -0.005];
+    const series = createReturnsSeries(values, dates.map(day), dates.map((_, i) => i + 2));
+    const report = assessDataQuality(series, [], { ...DEFAULT_QUALITY_OPTIONS, isReturns: true });
+
+    const rowsOf = (kind: string) => report.issues.filter(issue => issue.kind === kind).map(issue => issue.rowNumber);
+    expect(rowsOf('duplicateDate')).toEqual([4]);
+    expect(rowsOf('gap')).toEqual([10]);
+    expect(rowsOf('outlier')).toEqual([9]);
+    expect(rowsOf('stale')).toEqual([7]);
+    expect(rowsOf('impossibleReturn')).toEqual([9]);
+    expect(report.flaggedIndexes).toEqual([2, 5, 7]);
+    expect(assessDataQuality(series).issues.some(issue => issue.kind === 'impossibleReturn')).toBe(false);
+  });
+
+  it('excludes flagged observations or clips them to the outlier bounds', () => {
+    const series = createReturnsSeries([1, 2, 3, 2, 100, 1, 3]);
+    const report = assessDataQuality(series);
+    // Median 2, MAD 1: values beyond 2 ± 5 are outliers
+    expect(report.bounds).toEqual({ lower: -3, upper: 7 });
+
+    const excluded = applyQualityTreatment(series, report, 'exclude');
+    expect(excluded.values).toEqual([1, 2, 3, 2, 1, 3]);
+    expect(excluded.sourceRows).toEqual([2, 3, 4, 5, 7, 8]);
+    expect(applyQualityTreatment(series, report, 'winsorize').values).toEqual([1, 2, 3, 2, 7, 1, 3]);
+    expect(applyQualityTreatment(series, report, 'keep')).toBe(series);
+    expect(keepSourceRows(createReturnsSeries([5, 6, 7, 8, 9, 10, 11]), excluded.sourceRows).values)
+      .toEqual([5, 6, 7, 8, 10, 11]);
+  });
+
+  it('keeps runs of zero on flat days out of the stale check', () => {
+    const series = createReturnsSeries([0.01, 0, 0, 0, 0, -0.02, 0.015, 0.015, 0.015, 0.01]);
+    const report = assessDataQuality(series);
+    expect(report.issues.filter(issue => issue.kind === 'stale').map(issue => issue.index)).toEqual([8]);
+    expect(applyQualityTreatment(series, report, 'exclude').values.filter(value => value === 0)).toHaveLength(4);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { calculateDrawdownRatios, calculateDrawdowns } from '../src/utils/drawdownUtils';
+
+describe('drawdownUtils', () => {
+  it('finds the deepest episode with its peak, trough and recovery', () => {
+    // Equity: 1 → 1.1 → 0.99 → 0.891 → 1.0692 → 1.1761 → 1.0585
+    const returns = [0.1, -0.1, -0.1, 0.2, 0.1, -0.1];
+    const result = calculateDrawdowns(returns);
+
+    expect(result.equityCurve).toHaveLength(returns.length + 1);
+    expect(result.maxDrawdown).toBeCloseTo(0.891 / 1.1 - 1, 10);
+    expect(result.peakIndex).toBe(1);
+    expect(result.troughIndex).toBe(3);
+    expect(result.recoveryIndex).toBe(5);
+    expect(result.episodes).toHaveLength(2);
+
+    // The final, unrecovered episode runs to the last period
+    expect(result.episodes[1].recoveryIndex).toBeNull();
+    expect(result.episodes[1].duration).toBe(1);
+    expect(result.longestUnderwater).toBe(4);
+  });
+
+  it('reports no drawdown for a monotonically rising equity curve', () => {
+    const result = calculateDrawdowns([0.01, 0.02, 0, 0.03]);
+    expect(result.maxDrawdown).toBe(0);
+    expect(result.episodes).toEqual([]);
+    expect(result.underwater.every(v => v === 0)).toBe(true);
+  });
+
+  it('derives drawdown ratios from the underwater curve and episodes', () => {
+    const returns = [0.1, -0.1, -0.1, 0.2, 0.1, -0.1];
+    const drawdown = calculateDrawdowns(returns);
+    const ratios = calculateDrawdownRatios(drawdown, 0.12);
+
+    const periods = drawdown.underwater.slice(1);
+    const ulcer = Math.sqrt(periods.reduce((sum, d) => sum + d * d, 0) / periods.length);
+    const pain = -periods.reduce((sum, d) => sum + d, 0) / periods.length;
+    const [first, second] = drawdown.episodes.map(e => e.depth);
+
+    expect(ratios.ulcerIndex).toBeCloseTo(ulcer, 12);
+    expect(ratios.painIndex).toBeCloseTo(pain, 12);
+    expect(ratios.calmarRatio).toBeCloseTo(0.12 / -drawdown.maxDrawdown, 12);
+    expect(ratios.sterlingRatio).toBeCloseTo(0.12 / (-(first + second) / 2), 12);
+    expect(ratios.burkeRatio).toBeCloseTo(0.12 / Math.sqrt(first * first + second * second), 12);
+    expect(ratios.martinRatio).toBeCloseTo(0.12 / ulcer, 12);
+    expect(ratios.painRatio).toBeCloseTo(0.12 / pain, 12);
+  });
+
+  it('reports zero drawdown ratios when never underwater', () => {
+    const ratios = calculateDrawdownRatios(calculateDrawdowns([0.01, 0.02]), 0.3);
+    expect(ratios.calmarRatio).toBe(0);
+    expect(ratios.martinRatio).toBe(0);
+    expect(ratios.ulcerIndex).toBe(0);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { calculateSharpeAndSortino, toFractionalReturns } from '../src/utils/calculationUtils';
+import { calculateRollingMetrics } from '../src/utils/rollingUtils';
+
+describe('log returns', () => {
+  const simple = [0.02, -0.015, 0.03, 0.01, -0.025, 0.012, 0.004, -0.008, 0.018, 0.006, -0.011, 0.021];
+  const logs = simple.map(r => Math.log1p(r));
+  const base = { riskFreeRate: 2, tradingPeriods: 12 };
+
+  it('log-return input gives the same compounding and drawdowns as the simple returns', () => {
+    const fromSimple = calculateSharpeAndSortino(simple, { ...base, dataFormat: 'decimal' });
+    const fromLog = calculateSharpeAndSortino(logs, { ...base, dataFormat: 'log' });
+
+    expect(toFractionalReturns(logs, { ...base, dataFormat: 'log' })[2]).toBeCloseTo(0.03, 12);
+    expect(fromLog.geoMean).toBeCloseTo(fromSimple.geoMean, 12);
+    expect(fromLog.annualizedReturn).toBeCloseTo(fromSimple.annualizedReturn, 12);
+    expect(fromLog.drawdown.maxDrawdown).toBeCloseTo(fromSimple.drawdown.maxDrawdown, 12);
+    expect(fromLog.sharpeRatio).toBeCloseTo(fromSimple.sharpeRatio, 10);
+    expect(fromLog.minReturn).toBeCloseTo(-0.025, 12);
+  });
+
+  it('computes Sharpe on log returns with a continuously compounded risk-free rate', () => {
+    const result = calculateSharpeAndSortino(simple, { ...base, dataFormat: 'decimal', sharpeReturns: 'log' });
+    const mean = logs.reduce((s, r) => s + r, 0) / logs.length;
+    const std = Math.sqrt(logs.reduce((s, r) => s + (r - mean) ** 2, 0) / (logs.length - 1));
+    const riskFree = Math.log(1.02) / 12;
+
+    expect(result.meanReturn).toBeCloseTo(mean, 12);
+    expect(result.sharpeRatio).toBeCloseTo((mean - riskFree) / std * Math.sqrt(12), 10);
+
+    // Rolling figures follow the same basis
+    const [rolling] = calculateRollingMetrics(simple, { ...base, dataFormat: 'decimal', sharpeReturns: 'log' }, { windows: [12] });
+    expect(rolling.points[0].sharpe).toBeCloseTo(result.sharpeRatio, 10);
+  });
+});
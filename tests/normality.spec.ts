@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { chiSquareCdf, sampleExcessKurtosis, sampleSkewness } from '../src/utils/statsUtils';
+import { calculateQQPoints, jarqueBeraTest, shapiroWilkTest } from '../src/utils/normalityUtils';
+
+describe('normalityUtils', () => {
+  it('sample skewness and excess kurtosis match Excel SKEW and KURT', () => {
+    const values = [3, 4, 5, 2, 3, 4, 5, 6, 4, 7];
+    expect(sampleSkewness(values)).toBeCloseTo(0.359543071, 8);
+    expect(sampleExcessKurtosis(values)).toBeCloseTo(-0.151799637, 8);
+  });
+
+  it('Shapiro-Wilk matches reference values', () => {
+    // Royston (1995) example, also reproduced by R's shapiro.test
+    const result = shapiroWilkTest([148, 154, 158, 160, 161, 162, 166, 170, 182, 195, 236]);
+    expect(result.statistic).toBeCloseTo(0.78881, 5);
+    expect(result.pValue).toBeCloseTo(0.006704, 5);
+
+    const uniform = shapiroWilkTest(Array.from({ length: 20 }, (_, i) => i + 1));
+    expect(uniform.statistic).toBeCloseTo(0.96038, 5);
+    expect(uniform.pValue).toBeCloseTo(0.5514, 4);
+  });
+
+  it('Jarque-Bera statistic follows its definition', () => {
+    const values = [0.01, -0.02, 0.03, 0.015, -0.04, 0.002, 0.05, -0.01];
+    const n = values.length;
+    const mu = values.reduce((a, b) => a + b, 0) / n;
+    const m2 = values.reduce((sum, v) => sum + (v - mu) ** 2, 0) / n;
+    const m3 = values.reduce((sum, v) => sum + (v - mu) ** 3, 0) / n;
+    const m4 = values.reduce((sum, v) => sum + (v - mu) ** 4, 0) / n;
+    const s = m3 / m2 ** 1.5;
+    const k = m4 / m2 ** 2 - 3;
+
+    const result = jarqueBeraTest(values);
+    expect(result.statistic).toBeCloseTo((n / 6) * (s * s + (k * k) / 4), 10);
+    expect(result.pValue).toBeCloseTo(1 - chiSquareCdf(result.statistic, 2), 12);
+  });
+
+  it('QQ points are sorted and symmetric for a symmetric sample', () => {
+    const points = calculateQQPoints([-2, -1, 0, 1, 2]);
+    expect(points.map(p => p.sample)).toEqual([...points.map(p => p.sample)].sort((a, b) => a - b));
+    expect(points[0].theoretical).toBeCloseTo(-points[4].theoretical, 12);
+    expect(points[2].theoretical).toBeCloseTo(0, 12);
+  });
+});
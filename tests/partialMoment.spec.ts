@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateOmegaCurve,
+  kappaRatio,
+  lowerPartialMoment,
+  omegaRatio,
+  upperPartialMoment,
+  upsidePotentialRatio,
+} from '../src/utils/partialMomentUtils';
+
+describe('partialMomentUtils', () => {
+  const returns = [0.02, -0.01, 0.03, -0.02, 0.01];
+
+  it('partial moments follow their definition', () => {
+    expect(lowerPartialMoment(returns, 0, 1)).toBeCloseTo(0.03 / 5, 12);
+    expect(upperPartialMoment(returns, 0, 1)).toBeCloseTo(0.06 / 5, 12);
+    expect(lowerPartialMoment(returns, 0, 2)).toBeCloseTo(0.0005 / 5, 12);
+    // Order 0 gives the shortfall probability
+    expect(lowerPartialMoment(returns, 0, 0)).toBeCloseTo(0.4, 12);
+  });
+
+  it('Omega, Kappa-3 and Upside Potential ratios combine the moments', () => {
+    expect(omegaRatio(returns, 0)).toBeCloseTo(2, 12);
+    expect(kappaRatio(returns, 0, 3)).toBeCloseTo(0.006 / Math.cbrt(0.000009 / 5), 10);
+    expect(upsidePotentialRatio(returns, 0)).toBeCloseTo(0.012 / Math.sqrt(0.0001), 10);
+  });
+
+  it('Omega curve decreases across the return range and crosses 1 at the mean', () => {
+    const curve = calculateOmegaCurve(returns, 50);
+    expect(curve).toHaveLength(50);
+    for (let i = 1; i < curve.length; i++) {
+      expect(curve[i].omega).toBeLessThan(curve[i - 1].omega);
+    }
+    expect(omegaRatio(returns, 0.006)).toBeCloseTo(1, 12);
+  });
+});
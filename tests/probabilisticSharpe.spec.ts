@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { normalCdf, normalInverseCdf } from '../src/utils/statsUtils';
+import { calculateProbabilisticSharpe, probabilisticSharpeRatio } from '../src/utils/probabilisticSharpeUtils';
+
+describe('probabilisticSharpeUtils', () => {
+  it('normal CDF and its inverse agree with known quantiles', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 7);
+    expect(normalCdf(1.959963985)).toBeCloseTo(0.975, 6);
+    expect(normalInverseCdf(0.95)).toBeCloseTo(1.644853627, 6);
+    expect(normalInverseCdf(0.01)).toBeCloseTo(-2.326347874, 6);
+  });
+
+  it('PSR matches the closed form for normal returns', () => {
+    // SR = 0.1 per period, n = 101, γ3 = 0, γ4 = 3 → z = 0.1 × 10 / √(1 + 0.005)
+    const psr = probabilisticSharpeRatio(0.1, 0, 101, 0, 3);
+    expect(psr).toBeCloseTo(normalCdf(1 / Math.sqrt(1.005)), 10);
+  });
+
+  it('deflation lowers the Sharpe significance as trials grow', () => {
+    const returns = Array.from({ length: 120 }, (_, i) => 0.01 + 0.03 * Math.sin(i * 1.7));
+    const mean = returns.reduce((s, r) => s + r, 0) / returns.length;
+    const std = Math.sqrt(returns.reduce((s, r) => s + (r - mean) ** 2, 0) / (returns.length - 1));
+
+    const single = calculateProbabilisticSharpe(returns, mean, std, 12, 0, 1);
+    const many = calculateProbabilisticSharpe(returns, mean, std, 12, 0, 100);
+
+    expect(single.dsr).toBeCloseTo(single.psr, 12);
+    expect(many.dsr).toBeLessThan(single.dsr);
+    expect(many.deflatedBenchmarkSharpe).toBeGreaterThan(0);
+    expect(single.minTrackRecordLength).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { getBucketKey, resampleSeries } from '../src/utils/resampleUtils';
+import { createReturnsSeries } from '../src/utils/seriesUtils';
+
+const day = (iso: string) => Date.parse(`${iso}T00:00:00Z`);
+
+describe('resampleUtils', () => {
+  const dates = ['2024-01-30', '2024-01-31', '2024-02-01', '2024-02-02', '2024-04-01'].map(day);
+
+  it('compounds fractional returns within each calendar month', () => {
+    const series = createReturnsSeries([0.1, -0.05, 0.02, 0.03, 0.01], dates, [2, 3, 4, 5, 6]);
+    const monthly = resampleSeries(series, 'monthly', 'decimal');
+
+    expect(monthly.values).toHaveLength(3);
+    expect(monthly.values[0]).toBeCloseTo(1.1 * 0.95 - 1, 12);
+    expect(monthly.values[1]).toBeCloseTo(1.02 * 1.03 - 1, 12);
+    expect(monthly.values[2]).toBeCloseTo(0.01, 12);
+    // Each period keeps the date and row of its last observation
+    expect(monthly.timestamps).toEqual([day('2024-01-31'), day('2024-02-02'), day('2024-04-01')]);
+    expect(monthly.sourceRows).toEqual([3, 5, 6]);
+  });
+
+  it('sums absolute PnL', () => {
+    const series = createReturnsSeries([100, -50, 20, 30, 10], dates);
+    expect(resampleSeries(series, 'quarterly', 'absolute').values).toEqual([100, 10]);
+  });
+
+  it('starts weeks on Monday', () => {
+    // 2024-01-07 is a Sunday, 2024-01-08 a Monday
+    expect(getBucketKey(day('2024-01-07'), 'weekly')).toBe(getBucketKey(day('2024-01-01'), 'weekly'));
+    expect(getBucketKey(day('2024-01-08'), 'weekly')).not.toBe(getBucketKey(day('2024-01-07'), 'weekly'));
+  });
+
+  it('requires dates unless no resampling is requested', () => {
+    const undated = createReturnsSeries([0.01, 0.02]);
+    expect(resampleSeries(undated, 'none', 'decimal')).toBe(undated);
+    expect(() => resampleSeries(undated, 'monthly', 'decimal')).toThrow();
+  });
+});
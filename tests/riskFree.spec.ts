@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import {
+  alignRiskFree,
+  calculateExcessPath,
+  chooseRiskFreeAlignment,
+  looksLikeFractionYields,
+  toPercentYields,
+} from '../src/utils/riskFreeUtils';
+import { calculateSharpeAndSortino, toPeriodicRate, toPeriodicRiskFreeRates } from '../src/utils/calculationUtils';
+import { extractReturnsSeries, parseWorkbook, selectSheet } from '../src/utils/fileUtils';
+import { createReturnsSeries } from '../src/utils/seriesUtils';
+
+const day = (iso: string) => Date.parse(`${iso}T00:00:00Z`);
+
+describe('riskFreeUtils', () => {
+  it('takes the latest yield on or before each date', () => {
+    const series = createReturnsSeries(
+      [0.01, 0.02, -0.01, 0.03],
+      ['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30'].map(day)
+    );
+    const yields = createReturnsSeries([5, 4.5, 4], ['2024-02-15', '2024-03-31', '2024-01-01'].map(day));
+
+    expect(chooseRiskFreeAlignment(series, yields, false)).toBe('date');
+    // Quotes are sorted by date: 4 (Jan 1), 5 (Feb 15), 4.5 (Mar 31)
+    expect(alignRiskFree(series, yields, 'date')).toEqual([4, 5, 4.5, 4.5]);
+  });
+
+  it('falls back to rows in the same file and to the most recent observations otherwise', () => {
+    const series = createReturnsSeries([0.01, 0.02, 0.03], undefined, [3, 5, 6]);
+    const yields = createReturnsSeries([2, 3, 4], undefined, [2, 4, 6]);
+    expect(chooseRiskFreeAlignment(series, yields, true)).toBe('row');
+    expect(alignRiskFree(series, yields, 'row')).toEqual([2, 3, 4]);
+    expect(alignRiskFree(series, createReturnsSeries([1, 2]), 'tail')).toEqual([1, 1, 2]);
+  });
+
+  it('reads a percent-typed yield column as percent yields through to the per-row rates', () => {
+    const csv = 'Date,Return,T-Bill\n2024-01-31,1%,5.25%\n2024-02-29,2%,5.5%\n2024-03-31,-1%,5%\n';
+    const workbook = XLSX.read(csv, { type: 'string', raw: true });
+    const sheets = parseWorkbook(workbook);
+    const data = selectSheet({ headers: [], rows: [], originalData: [], sheets }, sheets[0].name);
+    expect(data.columnTypes?.[2]).toBe('percent');
+
+    const { series } = extractReturnsSeries(data.rows, 1, 'decimal', 0);
+    const { series: extracted } = extractReturnsSeries(data.rows, 2, 'decimal', 0);
+    expect(looksLikeFractionYields(extracted.values)).toBe(true);
+
+    const yields = toPercentYields(extracted, data.columnTypes?.[2]);
+    expect(looksLikeFractionYields(yields.values)).toBe(false);
+    const rates = alignRiskFree(series, yields, chooseRiskFreeAlignment(series, yields, true));
+    rates.forEach((rate, i) => expect(rate).toBeCloseTo([5.25, 5.5, 5][i], 10));
+
+    const periodic = toPeriodicRiskFreeRates({ riskFreeRate: 0, tradingPeriods: 12, riskFreeRates: rates }, 3);
+    expect(periodic[0]).toBeCloseTo(Math.pow(1.0525, 1 / 12) - 1, 12);
+    // Numeric columns already hold percent numbers
+    expect(toPercentYields(yields, 'numeric')).toBe(yields);
+  });
+
+  it('engine subtracts each period\'s rate, and matches the constant rate when the series is flat', () => {
+    const returns = [0.02, -0.01, 0.015, 0.03, -0.02, 0.01, 0.005, 0.012, -0.004, 0.018];
+    const rates = [1, 1, 2, 2, 3, 3, 4, 4, 5, 5];
+    const varying = calculateSharpeAndSortino(returns, {
+      riskFreeRate: 3, tradingPeriods: 12, dataFormat: 'decimal', riskFreeRates: rates,
+    });
+    const excess = returns.map((r, i) => r - toPeriodicRate(rates[i], 12));
+    const meanExcess = excess.reduce((s, r) => s + r, 0) / excess.length;
+    const std = Math.sqrt(excess.reduce((s, r) => s + (r - meanExcess) ** 2, 0) / (excess.length - 1));
+    expect(varying.sharpeRatio).toBeCloseTo(meanExcess / std * Math.sqrt(12), 10);
+
+    const flat = calculateSharpeAndSortino(returns, {
+      riskFreeRate: 3, tradingPeriods: 12, dataFormat: 'decimal', riskFreeRates: returns.map(() => 3),
+    });
+    const constant = calculateSharpeAndSortino(returns, { riskFreeRate: 3, tradingPeriods: 12, dataFormat: 'decimal' });
+    expect(flat.sharpeRatio).toBeCloseTo(constant.sharpeRatio, 10);
+    expect(flat.sortinoRatio).toBeCloseTo(constant.sortinoRatio, 10);
+  });
+
+  it('cumulative excess return divides out the risk-free growth', () => {
+    const path = calculateExcessPath([0.1, 0.1], [0.05, 0.05], [5, 5]);
+    expect(path[1].cumulativeReturn).toBeCloseTo(0.21, 12);
+    expect(path[1].cumulativeExcess).toBeCloseTo(1.21 / 1.1025 - 1, 12);
+  });
+});
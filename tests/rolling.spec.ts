@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { calculateSharpeAndSortino } from '../src/utils/calculationUtils';
+import { calculateRollingMetrics } from '../src/utils/rollingUtils';
+
+const returns = [0.01, -0.02, 0.015, 0.003, -0.007, 0.012, 0.004, -0.011, 0.009, 0.006, -0.001, 0.002];
+
+const params = {
+  riskFreeRate: 2,
+  tradingPeriods: 252,
+  dataFormat: 'decimal',
+};
+
+describe('rollingUtils', () => {
+  it('a window spanning all returns matches the full-sample ratios', () => {
+    const [series] = calculateRollingMetrics(returns, params, { windows: [returns.length] });
+    const full = calculateSharpeAndSortino(returns, params);
+
+    expect(series.points).toHaveLength(1);
+    expect(series.points[0].index).toBe(returns.length - 1);
+    expect(series.points[0].sharpe).toBeCloseTo(full.sharpeRatio, 10);
+    expect(series.points[0].sortino).toBeCloseTo(full.sortinoRatio, 10);
+    expect(series.points[0].volatility).toBeCloseTo(full.stdDeviation * Math.sqrt(252), 10);
+  });
+
+  it('steps through the data anchored to the last observation', () => {
+    const [series] = calculateRollingMetrics(returns, params, { windows: [5], step: 3 });
+    expect(series.points.map(p => p.index)).toEqual([5, 8, 11]);
+  });
+
+  it('returns no points for windows longer than the data', () => {
+    const [series] = calculateRollingMetrics(returns, params, { windows: [21] });
+    expect(series.points).toEqual([]);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { chiSquareCdf } from '../src/utils/statsUtils';
+import {
+  calculatePartialAutocorrelations,
+  ljungBoxTest,
+  loScalingFactor,
+} from '../src/utils/serialCorrelationUtils';
+
+describe('serialCorrelationUtils', () => {
+  it('chi-square CDF matches tabulated critical values', () => {
+    expect(chiSquareCdf(3.841459, 1)).toBeCloseTo(0.95, 6);
+    expect(chiSquareCdf(18.307038, 10)).toBeCloseTo(0.95, 6);
+  });
+
+  it('Lo scaling reduces to √q without autocorrelation and shrinks with positive autocorrelation', () => {
+    expect(loScalingFactor([], 12)).toBeCloseTo(Math.sqrt(12), 12);
+
+    // AR(1) with ρ = 0.3: closed form from Lo (2002)
+    const rho = 0.3;
+    const acf = Array.from({ length: 11 }, (_, i) => Math.pow(rho, i + 1));
+    const q = 12;
+    const expected = q / Math.sqrt(q + (2 * rho / (1 - rho)) * (q - 1 - rho * (1 - Math.pow(rho, q - 1)) / (1 - rho)));
+    expect(loScalingFactor(acf, q)).toBeCloseTo(expected, 10);
+    expect(loScalingFactor(acf, q)).toBeLessThan(Math.sqrt(q));
+  });
+
+  it('PACF of an AR(1) autocorrelation function cuts off after lag 1', () => {
+    const acf = [0.5, 0.25, 0.125, 0.0625];
+    const pacf = calculatePartialAutocorrelations(acf);
+    expect(pacf[0]).toBeCloseTo(0.5, 12);
+    pacf.slice(1).forEach(phi => expect(phi).toBeCloseTo(0, 12));
+  });
+
+  it('Ljung-Box statistic follows its definition', () => {
+    const result = ljungBoxTest([0.2, -0.1], 50, 2);
+    expect(result.statistic).toBeCloseTo(50 * 52 * (0.04 / 49 + 0.01 / 48), 10);
+    expect(result.pValue).toBeCloseTo(1 - chiSquareCdf(result.statistic, 2), 12);
+  });
+});
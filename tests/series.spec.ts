@@ -0,0 +1,298 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as XLSX from 'xlsx';
+import {
+  cleanNumericValue,
+  convertLevelsToReturns,
+  detectDateColumn,
+  detectParsingLocale,
+  detectRowRange,
+  extractCashFlows,
+  extractReturnsSeries,
+  inferColumnType,
+  parseDateValue,
+  parseWorkbook,
+  pickDefaultColumn,
+  recallSheet,
+  rememberSheet,
+  selectSheet,
+  resolveColumnFormat,
+  setColumnType,
+  setLocaleSetting,
+  suggestDataFormat,
+} from '../src/utils/fileUtils';
+import {
+  createReturnsSeries,
+  detectGaps,
+  detectSamplingFrequency,
+  getPeriodLabel,
+  isTradingPeriodsMismatch,
+} from '../src/utils/seriesUtils';
+import { calculateSharpeAndSortino } from '../src/utils/calculationUtils';
+import { resampleSeries } from '../src/utils/resampleUtils';
+
+const day = (iso: string) => Date.parse(`${iso}T00:00:00Z`);
+
+describe('seriesUtils', () => {
+  it('parses ISO, US and Excel serial dates but not plain numbers', () => {
+    expect(parseDateValue('2024-03-15')).toBe(day('2024-03-15'));
+    expect(parseDateValue('3/15/2024')).toBe(day('2024-03-15'));
+    expect(parseDateValue(45366)).toBe(day('2024-03-15'));
+    expect(parseDateValue('0.015')).toBeNull();
+    expect(parseDateValue(0.015)).toBeNull();
+  });
+
+  it('reads every sheet and remembers the chosen one per workbook structure', () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Notes'], ['Read me']]), 'Cover');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([]), 'Empty');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Date', 'Return'], ['2024-01-01', 0.01]]), 'Returns');
+    const sheets = parseWorkbook(workbook);
+    expect(sheets.map(sheet => sheet.name)).toEqual(['Cover', 'Returns']);
+
+    const data = { ...sheets[0], sheetName: 'Cover', sheets };
+    const selected = selectSheet(data, 'Returns');
+    expect(selected.headers).toEqual(['Date', 'Return']);
+    expect(selected.rows).toEqual([['2024-01-01', 0.01]]);
+
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+    });
+    expect(recallSheet(sheets)).toBeNull();
+    rememberSheet(sheets, 'Returns');
+    expect(recallSheet(sheets)).toBe('Returns');
+    expect(recallSheet([sheets[1]])).toBeNull();
+    vi.unstubAllGlobals();
+  });
+
+  it('skips title blocks above the header and total rows below the data', () => {
+    const raw = [
+      ['Monthly Statement', '', ''],
+      ['Account', 12345, ''],
+      ['', '', ''],
+      ['Date', 'PnL', 'Fees'],
+      ['2024-01-02', 150, 1],
+      ['2024-01-03', -80, 1],
+      ['Total', 70, 2],
+      ['', '', ''],
+      ['Generated on 2024-01-04', '', ''],
+    ];
+    expect(detectRowRange(raw)).toEqual({ headerRow: 3, lastDataRow: 5 });
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(raw), 'Statement');
+    const sheets = parseWorkbook(workbook);
+    expect(sheets[0].headers).toEqual(['Date', 'PnL', 'Fees']);
+    expect(sheets[0].rows.map(row => row[1])).toEqual([150, -80]);
+
+    // Overriding the range keeps the total row, and source rows follow the spreadsheet
+    const data = selectSheet({ headers: [], rows: [], originalData: [], sheets }, 'Statement', { headerRow: 3, lastDataRow: 6 });
+    expect(data.rows.map(row => row[1])).toEqual([150, -80, 70]);
+    const { series } = extractReturnsSeries(data.rows, 1, 'absolute', 0, data.rows.map((_, i) => i + 5));
+    expect(series.sourceRows).toEqual([5, 6, 7]);
+  });
+
+  it('infers column types without reading PnL as Excel dates', () => {
+    expect(inferColumnType('PnL', [42000, 41500, -300])).toBe('numeric');
+    expect(inferColumnType('Day', [45293, 45294])).toBe('date');
+    expect(inferColumnType('Daily PnL', [45293, 45294])).toBe('numeric');
+    expect(inferColumnType('Date', ['2024-01-02', '2024-01-03'])).toBe('date');
+    expect(inferColumnType('Return', ['5%', '-2.5%'])).toBe('percent');
+    expect(inferColumnType('Amount', ['$1,200', '(300)'])).toBe('currency');
+    expect(inferColumnType('Symbol', ['AAPL', 'MSFT'])).toBe('text');
+    expect(inferColumnType('Closed', [45293, 45294], ['date', 'date'])).toBe('date');
+
+    const sheet = XLSX.utils.aoa_to_sheet([
+      ['Closed', 'PnL', 'Return'],
+      [45293, 42000, '5%'],
+      [45294, 41000, '-2.5%'],
+    ]);
+    sheet['A2'].z = 'yyyy-mm-dd';
+    sheet['A3'].z = 'yyyy-mm-dd';
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Trades');
+    const sheets = parseWorkbook(workbook);
+    const data = selectSheet({ headers: [], rows: [], originalData: [], sheets }, 'Trades');
+    expect(data.columnTypes).toEqual(['date', 'numeric', 'percent']);
+    expect(data.rows).toEqual([['2024-01-02', 42000, 0.05], ['2024-01-03', 41000, -0.025]]);
+    expect(detectDateColumn(data)).toBe(0);
+
+    const overridden = setColumnType(data, 1, 'date');
+    expect(overridden.headers).toBe(data.headers);
+    expect(overridden.rows[0][1]).toBe('2014-12-27');
+    expect(overridden.inferredTypes?.[1]).toBe('numeric');
+  });
+
+  it('reads European numbers and dates with a detected or chosen locale', () => {
+    const comma = { decimalSeparator: ',' as const, dateOrder: 'dmy' as const };
+    expect(cleanNumericValue('1.234,56', comma)).toBeCloseTo(1234.56, 12);
+    expect(cleanNumericValue('-0,35%', comma)).toBeCloseTo(-0.35, 12);
+    expect(cleanNumericValue('12,50-', comma)).toBeCloseTo(-12.5, 12);
+    expect(cleanNumericValue("1'234.5")).toBeCloseTo(1234.5, 12);
+    expect(parseDateValue('05.03.2024', 'dmy')).toBe(Date.UTC(2024, 2, 5));
+    expect(parseDateValue('05/03/2024')).toBe(Date.UTC(2024, 4, 3));
+    expect(detectParsingLocale(['1.234,56', '0,35', '1.000'])).toEqual({ decimalSeparator: ',', dateOrder: 'mdy' });
+    expect(detectParsingLocale(['05/03/2024', '15/03/2024']).dateOrder).toBe('dmy');
+    expect(detectParsingLocale(['2024-03-05']).dateOrder).toBe('ymd');
+
+    // Read as parseFile does, keeping CSV text as written
+    const csv = 'Datum;Rendite;PnL\n05/03/2024;-0,35%;1.234,56\n15/03/2024;1,2%;12,50-\n';
+    const workbook = XLSX.read(csv, { type: 'string', raw: true, FS: ';' });
+    const sheets = parseWorkbook(workbook);
+    const data = selectSheet({ headers: [], rows: [], originalData: [], sheets }, sheets[0].name);
+    expect(data.columnTypes).toEqual(['date', 'percent', 'numeric']);
+    expect(data.rows[0][0]).toBe('2024-03-05');
+    expect(data.rows[0][1]).toBeCloseTo(-0.0035, 12);
+    expect(data.rows[1][2]).toBeCloseTo(-12.5, 12);
+
+    const point = setLocaleSetting(data, { decimalSeparator: '.', dateOrder: 'auto' });
+    expect(point.headers).toBe(data.headers);
+    expect(point.rows[0][0]).toBe('2024-03-05');
+    expect(point.rows[0][2]).toBeCloseTo(1.23456, 12);
+    expect(point.columnLocales?.[2].decimalSeparator).toBe('.');
+  });
+
+  it('reads a pre-selected percent column as decimal returns whatever format is chosen', () => {
+    const csv = 'Date,Daily Return\n2024-01-02,5%\n2024-01-03,-2.5%\n2024-01-04,1%\n';
+    const workbook = XLSX.read(csv, { type: 'string', raw: true });
+    const sheets = parseWorkbook(workbook);
+    const data = selectSheet({ headers: [], rows: [], originalData: [], sheets }, sheets[0].name);
+
+    const index = pickDefaultColumn(data.headers);
+    expect(index).toBe(1);
+    expect(suggestDataFormat(data.columnTypes?.[index])).toBe('decimal');
+    expect(suggestDataFormat('currency')).toBe('absolute');
+    expect(suggestDataFormat('numeric')).toBeNull();
+
+    // The fractions are neither divided by 100 again nor treated as PnL
+    ['absolute', 'percent', 'auto', 'decimal'].forEach(format => {
+      const resolved = resolveColumnFormat(data.columnTypes?.[index], format);
+      expect(resolved).toBe('decimal');
+      const { series } = extractReturnsSeries(data.rows, index, resolved, 0);
+      expect(series.values).toEqual([0.05, -0.025, 0.01]);
+    });
+    expect(resolveColumnFormat('percent', 'log')).toBe('log');
+    expect(resolveColumnFormat('numeric', 'percent')).toBe('percent');
+  });
+
+  it('keeps dates and source rows for numeric rows only', () => {
+    const data = {
+      headers: ['Date', 'Return'],
+      rows: [['2024-01-01', 0.01], ['2024-01-02', ''], ['2024-01-03', -0.02]] as (string | number)[][],
+      originalData: [],
+    };
+    expect(detectDateColumn(data)).toBe(0);
+
+    const { series } = extractReturnsSeries(data.rows, 1, 'decimal', 0);
+    expect(series.values).toEqual([0.01, -0.02]);
+    expect(series.sourceRows).toEqual([2, 4]);
+    expect(series.timestamps).toEqual([day('2024-01-01'), day('2024-01-03')]);
+    expect(getPeriodLabel(series, 1)).toBe('2024-01-03');
+  });
+
+  it('puts newest-first rows in date order before converting levels and resampling', () => {
+    const rows = [
+      ['2024-02-01', 99.75, 0], ['2024-01-03', 105, 50], ['2024-01-02', 100, 0],
+    ] as (string | number)[][];
+    const { series, detectedFormat, rowOrder } = extractReturnsSeries(rows, 1, 'auto', 0);
+    expect(detectedFormat).toBe('price');
+    expect(rowOrder).toBe('sorted');
+    expect(series.values[0]).toBeCloseTo(0.05, 12);
+    expect(series.values[1]).toBeCloseTo(-0.05, 12);
+    expect(series.timestamps).toEqual([day('2024-01-03'), day('2024-02-01')]);
+    expect(series.sourceRows).toEqual([3, 2]);
+    // Cash flows stay on their own rows
+    expect(extractCashFlows(rows, 2, series.sourceRows)).toEqual([50, 0]);
+
+    const monthly = resampleSeries(
+      createReturnsSeries([0.01, 0.02, 0.03], [day('2024-02-01'), day('2024-01-31'), day('2024-01-02')]),
+      'monthly',
+      'decimal'
+    );
+    expect(monthly.timestamps).toEqual([day('2024-01-31'), day('2024-02-01')]);
+    expect(monthly.values[0]).toBeCloseTo(1.03 * 1.02 - 1, 12);
+
+    // Without a date on every row, newest-first order is only reported
+    const undated = [['2024-01-03', 0.01], ['', 0.02], ['2024-01-02', 0.03], ['2024-01-01', 0.04]] as (string | number)[][];
+    const partial = extractReturnsSeries(undated, 1, 'decimal', 0);
+    expect(partial.rowOrder).toBe('descending');
+    expect(partial.series.values).toEqual([0.01, 0.02, 0.03, 0.04]);
+    expect(extractReturnsSeries(rows.slice().reverse(), 1, 'auto', 0).rowOrder).toBe('chronological');
+  });
+
+  it('derives returns from price and equity levels', () => {
+    const rows = [['2024-01-01', 100], ['2024-01-02', 105], ['2024-01-03', 99.75]] as (string | number)[][];
+    const { series, detectedFormat } = extractReturnsSeries(rows, 1, 'auto', 0);
+    expect(detectedFormat).toBe('price');
+    expect(series.values[0]).toBeCloseTo(0.05, 12);
+    expect(series.values[1]).toBeCloseTo(-0.05, 12);
+    // The first row is only the base, so returns start at the second row
+    expect(series.sourceRows).toEqual([3, 4]);
+    expect(series.timestamps).toEqual([day('2024-01-02'), day('2024-01-03')]);
+
+    const log = convertLevelsToReturns([100, 105, 99.75], { method: 'log' });
+    expect(log[0] + log[1]).toBeCloseTo(Math.log(0.9975), 12);
+    // A starting equity gives the first row a return of its own
+    const equity = extractReturnsSeries(rows, 1, 'equity', 0, undefined, { method: 'simple', startingValue: 80 }).series;
+    expect(equity.values[0]).toBeCloseTo(0.25, 12);
+    expect(equity.sourceRows).toEqual([2, 3, 4]);
+  });
+
+  it('flags missing months but not weekends', () => {
+    const monthly = createReturnsSeries(
+      [0.01, 0.02, 0.01, 0.03, 0.02],
+      ['2024-01-31', '2024-02-29', '2024-03-31', '2024-05-31', '2024-06-30'].map(day)
+    );
+    const gaps = detectGaps(monthly);
+    expect(gaps).toHaveLength(1);
+    expect(gaps[0].afterIndex).toBe(2);
+    expect(gaps[0].missingPeriods).toBe(1);
+
+    const weekdays = createReturnsSeries(
+      [0.01, 0.02, 0.01, 0.03, 0.02, 0.01],
+      ['2024-01-03', '2024-01-04', '2024-01-05', '2024-01-08', '2024-01-09', '2024-01-10'].map(day)
+    );
+    expect(detectGaps(weekdays)).toEqual([]);
+  });
+
+  it('engine gives the same ratios for a series and its bare values', () => {
+    const values = [0.01, -0.02, 0.015, 0.03, -0.01, 0.005, 0.02, -0.005, 0.01, 0.012];
+    const params = { riskFreeRate: 0, tradingPeriods: 12, dataFormat: 'decimal' };
+    const timestamps = values.map((_, i) => Date.UTC(2023, i + 1, 0));
+    const fromSeries = calculateSharpeAndSortino(createReturnsSeries(values, timestamps), params);
+    const fromValues = calculateSharpeAndSortino(values, params);
+
+    expect(fromSeries.sharpeRatio).toBe(fromValues.sharpeRatio);
+    expect(fromSeries.startDate).toBe(timestamps[0]);
+    expect(fromSeries.endDate).toBe(timestamps[9]);
+    expect(fromValues.startDate).toBeNull();
+    expect(fromValues.gaps).toEqual([]);
+  });
+
+  it('detects the sampling frequency and suggests periods per year', () => {
+    const businessDays: number[] = [];
+    for (let t = day('2024-01-01'); businessDays.length < 60; t += 24 * 60 * 60 * 1000) {
+      if (![0, 6].includes(new Date(t).getUTCDay())) businessDays.push(t);
+    }
+    expect(detectSamplingFrequency(businessDays).periodsPerYear).toBe(252);
+
+    const calendarDays = Array.from({ length: 30 }, (_, i) => day('2024-01-01') + i * 24 * 60 * 60 * 1000);
+    expect(detectSamplingFrequency(calendarDays).frequency).toBe('calendarDaily');
+
+    const monthEnds = Array.from({ length: 24 }, (_, i) => Date.UTC(2022, i + 1, 0));
+    expect(detectSamplingFrequency(monthEnds)).toMatchObject({ frequency: 'monthly', periodsPerYear: 12 });
+
+    const quarterEnds = Array.from({ length: 12 }, (_, i) => Date.UTC(2020, 3 * (i + 1), 0));
+    expect(detectSamplingFrequency(quarterEnds).frequency).toBe('quarterly');
+
+    const irregular = [0, 1, 9, 12, 40, 41, 90, 200].map(d => day('2024-01-01') + d * 24 * 60 * 60 * 1000);
+    expect(detectSamplingFrequency(irregular)).toMatchObject({ frequency: 'irregular', periodsPerYear: null });
+  });
+
+  it('flags annualization factors that disagree with the data', () => {
+    expect(isTradingPeriodsMismatch(252, 12)).toBe(true);
+    expect(isTradingPeriodsMismatch(260, 252)).toBe(false);
+    expect(isTradingPeriodsMismatch(252, null)).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { calculateTradePnl, calculateTradeStats } from '../src/utils/tradeUtils';
+import {
+  aggregateTradesToDailyPnl,
+  detectTradeColumns,
+  isTradeMappingComplete,
+  parseTradeLedger,
+} from '../src/utils/fileUtils';
+
+const day = (iso: string) => Date.parse(`${iso}T00:00:00Z`);
+
+describe('tradeUtils', () => {
+  const headers = ['Symbol', 'Side', 'Entry Time', 'Exit Time', 'Qty', 'Entry Price', 'Exit Price', 'Commission'];
+  const rows: (string | number)[][] = [
+    ['AAPL', 'Long', '2024-01-01', '2024-01-02', 10, 100, 110, 1],
+    ['MSFT', 'Short', '2024-01-02', '2024-01-02', 5, 200, 210, 2],
+    ['', '', '', '', '', '', '', ''],
+    ['AAPL', 'Buy', '2024-01-03', 'n/a', 10, 100, 105, 0],
+    ['TSLA', 'Sell', '2024-01-04', '2024-01-08', 2, 250, 240, 0],
+  ];
+
+  it('maps ledger headers and prices each trade', () => {
+    const mapping = detectTradeColumns(headers);
+    expect(mapping).toEqual({
+      symbol: 0, side: 1, entryTime: 2, exitTime: 3, quantity: 4, entryPrice: 5, exitPrice: 6, fees: 7,
+    });
+    expect(isTradeMappingComplete(mapping)).toBe(true);
+
+    const { trades, skippedRows } = parseTradeLedger(rows, mapping);
+    expect(skippedRows).toEqual([5]);
+    expect(trades.map(trade => trade.pnl)).toEqual([99, -52, 20]);
+    expect(trades[1].quantity).toBe(-5);
+    expect(calculateTradePnl(-5, 200, 210, -2)).toBe(-52);
+  });
+
+  it('sums PnL by exit day and fills business days without exits', () => {
+    const { trades } = parseTradeLedger(rows, detectTradeColumns(headers));
+    const daily = aggregateTradesToDailyPnl(trades);
+    // Jan 2 (Tue) to Jan 8 (Mon): the weekend of Jan 6-7 is skipped
+    expect(daily.timestamps).toEqual(['2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05', '2024-01-08'].map(day));
+    expect(daily.values).toEqual([47, 0, 0, 0, 20]);
+    expect(daily.sourceRows).toEqual([3, 0, 0, 0, 6]);
+  });
+
+  it('computes win rate, profit factor, expectancy and streaks in exit order', () => {
+    const pnl = [50, -20, -10, -30, 40, 0, 60];
+    const trades = pnl.map((value, i) => ({
+      symbol: i % 2 ? 'A' : 'B', entryTime: null, exitTime: day('2024-01-01') + i * 86400000,
+      quantity: 1, entryPrice: 0, exitPrice: value, fees: 0, pnl: value, sourceRow: i + 2,
+    }));
+    const stats = calculateTradeStats([...trades].reverse());
+    expect(stats.totalTrades).toBe(7);
+    expect(stats.winRate).toBeCloseTo(3 / 7, 12);
+    expect(stats.profitFactor).toBeCloseTo(150 / 60, 12);
+    expect(stats.averageWin).toBeCloseTo(50, 12);
+    expect(stats.averageLoss).toBeCloseTo(-20, 12);
+    expect(stats.payoffRatio).toBeCloseTo(2.5, 12);
+    expect(stats.expectancy).toBeCloseTo(90 / 7, 12);
+    expect(stats.longestLosingStreak).toBe(3);
+    expect(stats.longestWinningStreak).toBe(1);
+    expect(stats.symbols).toBe(2);
+    expect(calculateTradeStats(trades.slice(0, 1)).profitFactor).toBeNull();
+  });
+});